@@ -1,16 +1,40 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { PromptData, Character, Dialogue, Environment } from './types';
-import { RACES, GENDERS, VOICES, LIGHTING_STYLES, CAMERA_ANGLES, SHOOTING_STYLES, CHARACTER_STYLES } from './constants';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { PromptData, Character, Dialogue, Environment, Shot, LibraryCharacter, Tab, ActionBeat, ShotAudio, SfxCue } from './types';
+import { RACES, GENDERS, VOICES, LIGHTING_STYLES, CAMERA_ANGLES, SHOOTING_STYLES, CHARACTER_STYLES, DIALOGUE_EMOTIONS, DIALOGUE_DELIVERIES, DIALOGUE_LANGUAGES, AUDIO_MIX_MODES, AMBIENCE_PRESETS, MUSIC_GENRES, MUSIC_MOODS, MUSIC_TEMPOS, TARGET_CLIP_SECONDS } from './constants';
 import InputGroup from './components/InputGroup';
 import OutputBlock from './components/OutputBlock';
 import { PlusIcon, TrashIcon, SunIcon, MoonIcon } from './components/icons';
 import VideoGenerator from './components/VideoGenerator';
 import ImageGenerator from './components/ImageGenerator';
 import StorybookBuilder from './components/StorybookBuilder';
+import MediaGallery from './components/MediaGallery';
 import StorybookPromptGenerator from './components/StorybookPromptGenerator';
+import CharacterLibraryPanel from './components/CharacterLibraryPanel';
+import PromptImportDialog from './components/PromptImportDialog';
+import LintPanel from './components/LintPanel';
+import LocalePicker from './components/LocalePicker';
+import HistoryPanel from './components/HistoryPanel';
+import BeatTrackEditor from './components/BeatTrackEditor';
+import ShareDialog from './components/ShareDialog';
+import AutofillDialog from './components/AutofillDialog';
+import NegativePromptInput from './components/NegativePromptInput';
+import { characterLibrary, fromPromptCharacter, toPromptCharacter } from './lib/characterLibrary';
+import { createAudio, createCharacter, createEnvironment, createPromptData, createShot } from './lib/promptData';
+import { toVeoSequencePrompt, toVeoShotPrompt } from './lib/veoPrompt';
+import { createBeat, pruneBeatLinks, validateBeats } from './lib/beats';
+import { audioParts } from './lib/audio';
+import { LintConfig, LintFix, LintIssue, lintPrompt, loadLintConfig, saveLintConfig } from './lib/promptLint';
+import { VIDEO_LINT_DEFAULTS, VIDEO_LINT_RULES, VIDEO_LINT_STORAGE_KEY } from './lib/lintRules';
+import { PromptLocale, renderVideoSequence, renderVideoShot } from './lib/promptRenderer';
+import { PROMPT_LOCALES, loadLocaleSelection, saveLocaleSelection, selectedLocales } from './lib/locales';
+import { HistoryAction, useUndoHistory, useUndoShortcuts } from './lib/useUndoHistory';
+import { HandoffTarget, castReferenceImages, deriveAspectRatio, deriveCharacterStyle, handoffStore, imageStyleFor, shotDuration, videoModeFor } from './lib/handoff';
+import {
+    SharePayload, clearShareHash, createSharePayload, decodeSharePayload, getShareSource, isShareableTab,
+    readShareHash, setPendingShare, sharedPromptData,
+} from './lib/shareLink';
 import { trackEvent, trackPageView } from './analytics';
 
-type Tab = 'prompt' | 'image' | 'video' | 'storybook' | 'storybook_prompt';
 type Theme = 'light' | 'dark';
 
 // Function to determine the initial theme to prevent flash of incorrect theme
@@ -74,6 +98,53 @@ const OTHER_VEO_OPTIONS = [
   'high contrast',
 ] as const;
 
+interface ShotPrompts {
+    /** Rendered prompt per locale id. */
+    text: Record<string, string>;
+    json: string;
+}
+
+const PROMPT_LOCALE_STORAGE_KEY = 'veo_prompt_locales';
+
+// Field names as they appear in history labels, e.g. "Edited Budi's outfit"
+const CHARACTER_FIELD_LABELS: Record<keyof Character, string> = {
+    id: 'id',
+    name: 'name',
+    characterStyle: 'style',
+    race: 'race',
+    customRace: 'custom race',
+    gender: 'gender',
+    age: 'age',
+    outfit: 'outfit',
+    hairstyle: 'hairstyle',
+    voice: 'voice',
+    description: 'action',
+    libraryId: 'library link',
+};
+
+const ENVIRONMENT_FIELD_LABELS: Record<keyof Environment, string> = {
+    description: 'scene',
+    lighting: 'lighting',
+    cameraAngle: 'camera angle',
+    shootingStyle: 'shooting style',
+    otherOptions: 'other options',
+};
+
+type AudioTextField = Exclude<keyof ShotAudio, 'mode' | 'sfx'>;
+
+const AUDIO_FIELD_LABELS: Record<AudioTextField, string> = {
+    ambience: 'ambience',
+    musicGenre: 'music genre',
+    musicMood: 'music mood',
+    musicTempo: 'music tempo',
+    narration: 'narration',
+};
+
+interface GeneratedPrompts {
+    shots: ShotPrompts[];
+    sequence: ShotPrompts;
+}
+
 
 const TabButton: React.FC<{ title: string; active: boolean; onClick: () => void; }> = ({ title, active, onClick }) => (
     <button
@@ -179,6 +250,7 @@ const App: React.FC = () => {
             video: 'Video',
             storybook: 'Storybook',
             storybook_prompt: 'Storybook Prompt',
+            library: 'Media Library',
         };
         const page_path = `/${activeTab}`;
         const page_title = `VEO App — ${titleMap[activeTab]}`;
@@ -209,146 +281,363 @@ const App: React.FC = () => {
     };
 
 
-    const [promptData, setPromptData] = useState<PromptData>({
-        characters: [],
-        dialogues: [],
-        environment: {
-            description: '',
-            lighting: LIGHTING_STYLES[0],
-            cameraAngle: CAMERA_ANGLES[0],
-            shootingStyle: SHOOTING_STYLES[0],
-            otherOptions: '',
-        }
-    });
+    const promptHistory = useUndoHistory<PromptData>(createPromptData);
+    const promptData = promptHistory.state;
+    const setPromptData = promptHistory.set;
+    const [activeShotId, setActiveShotId] = useState<string>(() => promptData.shots[0].id);
+    const activeShotIndex = Math.max(0, promptData.shots.findIndex(s => s.id === activeShotId));
+    const activeShot = promptData.shots[activeShotIndex];
+    // 'sequence' shows the combined document, otherwise the id of the shot to preview
+    const [outputView, setOutputView] = useState<string>('sequence');
+    const [isLibraryOpen, setIsLibraryOpen] = useState<boolean>(false);
+    const [savedCharacterId, setSavedCharacterId] = useState<string | null>(null);
+    const [isImportOpen, setIsImportOpen] = useState<boolean>(false);
+    const [isAutofillOpen, setIsAutofillOpen] = useState<boolean>(false);
 
-    const [generatedPrompts, setGeneratedPrompts] = useState({
-        indonesian: '',
-        english: '',
-        json: ''
+    const [generatedPrompts, setGeneratedPrompts] = useState<GeneratedPrompts>({
+        shots: [],
+        sequence: { text: {}, json: '' }
     });
+    const [outputLocaleIds, setOutputLocaleIds] = useState<string[]>(() => loadLocaleSelection(PROMPT_LOCALE_STORAGE_KEY));
+    // Locale id, or 'json' for the Veo JSON prompt
+    const [handoffFormat, setHandoffFormat] = useState<string>('en');
+    const [isSending, setIsSending] = useState<boolean>(false);
+    const [lintConfig, setLintConfig] = useState<LintConfig>(() => loadLintConfig(VIDEO_LINT_STORAGE_KEY, VIDEO_LINT_DEFAULTS));
     
+    useUndoShortcuts(promptHistory.undo, promptHistory.redo, activeTab === 'prompt');
+
+    // --- Share Links ---
+    const [sharePayload, setSharePayload] = useState<SharePayload | null>(null);
+
+    const openShare = () => {
+        let state;
+        if (activeTab === 'prompt') state = sharedPromptData(promptData);
+        else if (isShareableTab(activeTab)) state = getShareSource(activeTab)?.capture();
+        setSharePayload(createSharePayload(activeTab, state));
+    };
+
+    const confirmOverwrite = () => window.confirm('Opening this shared link will replace what you have in this tab. Continue?');
+
+    const applySharePayload = (payload: SharePayload) => {
+        const { tab, state } = payload;
+        if (state && tab === 'prompt') {
+            if (promptHistory.canUndo && !confirmOverwrite()) return;
+            const data = state as PromptData;
+            setPromptData(data, { label: 'Opened shared link' });
+            setActiveShotId(data.shots[0].id);
+            setOutputView('sequence');
+        } else if (state && isShareableTab(tab)) {
+            const source = getShareSource(tab);
+            if (source) {
+                if (source.hasLocalWork() && !confirmOverwrite()) return;
+                source.restore(state);
+            } else {
+                // The tab is not mounted yet; it picks this up on mount
+                setPendingShare(tab, state);
+            }
+        }
+        setActiveTab(tab);
+        try { trackEvent('share_link_open', { tab }); } catch {}
+    };
+
+    // The hash listener is registered once, so it calls the latest handler through a ref
+    const applySharePayloadRef = useRef(applySharePayload);
+    applySharePayloadRef.current = applySharePayload;
+
+    useEffect(() => {
+        const openFromHash = () => {
+            const encoded = readShareHash(window.location.hash);
+            if (!encoded) return;
+            // Drop the hash right away so a reload does not ask again
+            clearShareHash();
+            decodeSharePayload(encoded)
+                .then(payload => applySharePayloadRef.current(payload))
+                .catch((err: any) => {
+                    console.error(err);
+                    alert(err?.message || 'This share link is damaged or incomplete.');
+                });
+        };
+        openFromHash();
+        window.addEventListener('hashchange', openFromHash);
+        return () => window.removeEventListener('hashchange', openFromHash);
+    }, []);
+
     // --- State Handlers ---
 
+    const characterLabel = (id: string) => {
+        const index = promptData.characters.findIndex(c => c.id === id);
+        return promptData.characters[index]?.name || `Character ${index + 1}`;
+    };
+    const shotLabel = (shotId: string) => `shot ${promptData.shots.findIndex(s => s.id === shotId) + 1}`;
+
+    const applyImportedPrompt = (data: PromptData) => {
+        setPromptData(data, { label: 'Imported JSON prompt' });
+        setActiveShotId(data.shots[0].id);
+        setOutputView('sequence');
+    };
+
+    const applyAutofill = (data: PromptData) => {
+        setPromptData(data, { label: 'Autofilled from idea' });
+        setActiveShotId(data.shots[0].id);
+        setOutputView('sequence');
+    };
+
+    const updateShot = (shotId: string, updater: (shot: Shot) => Shot, action: HistoryAction) => {
+        setPromptData(prev => ({
+            ...prev,
+            shots: prev.shots.map(shot => shot.id === shotId ? updater(shot) : shot)
+        }), action);
+    };
+
     const addCharacter = () => {
-        const newCharacter: Character = {
-            id: crypto.randomUUID(),
-            name: '',
-            characterStyle: CHARACTER_STYLES[0],
-            race: RACES[0],
-            customRace: '',
-            gender: GENDERS[0],
-            age: '25',
-            outfit: '',
-            hairstyle: '',
-            voice: VOICES[0],
-            description: ''
-        };
-        setPromptData(prev => ({ ...prev, characters: [...prev.characters, newCharacter] }));
+        appendCharacter(createCharacter(), 'Added character');
     };
 
-    const updateCharacter = (id: string, field: keyof Character, value: string) => {
+    // New characters join the shot being edited; other shots opt in via their cast list
+    const appendCharacter = (character: Character, label: string) => {
         setPromptData(prev => ({
+            characters: [...prev.characters, character],
+            shots: prev.shots.map(shot => shot.id === activeShot.id ? { ...shot, characterIds: [...shot.characterIds, character.id] } : shot)
+        }), { label });
+    };
+
+    const insertLibraryCharacter = (entry: LibraryCharacter) => {
+        appendCharacter(toPromptCharacter(entry), `Added ${entry.name || 'character'} from library`);
+    };
+
+    const saveCharacterToLibrary = async (char: Character) => {
+        try {
+            const existing = char.libraryId ? await characterLibrary.get(char.libraryId) : null;
+            const saved = await characterLibrary.save(fromPromptCharacter(char, existing));
+            updateCharacter(char.id, 'libraryId', saved.id);
+            setSavedCharacterId(char.id);
+            setTimeout(() => setSavedCharacterId(current => current === char.id ? null : current), 2000);
+        } catch (err: any) {
+            console.error(err);
+            alert(err?.message || 'Failed to save the character to the library.');
+        }
+    };
+
+    const updateCharacter = (id: string, field: keyof Character, value: string) => {
+        const update = (prev: PromptData): PromptData => ({
             ...prev,
             characters: prev.characters.map(char =>
                 char.id === id ? { ...char, [field]: value } : char
             )
-        }));
+        });
+        // The library link is bookkeeping, not an edit; keep it in every snapshot so undo cannot drop it
+        if (field === 'libraryId') {
+            promptHistory.patchAll(update);
+            return;
+        }
+        setPromptData(update, { label: `Edited ${characterLabel(id)}'s ${CHARACTER_FIELD_LABELS[field]}`, coalesceKey: `character:${id}:${field}` });
     };
 
     const deleteCharacter = (id: string) => {
+        const lines = promptData.shots.reduce((sum, shot) => sum + shot.dialogues.filter(d => d.characterId === id).length, 0);
         setPromptData(prev => ({
-            ...prev,
             characters: prev.characters.filter(char => char.id !== id),
-            dialogues: prev.dialogues.filter(dialogue => dialogue.characterId !== id)
-        }));
+            shots: prev.shots.map(shot => pruneBeatLinks({
+                ...shot,
+                characterIds: shot.characterIds.filter(charId => charId !== id),
+                dialogues: shot.dialogues.filter(dialogue => dialogue.characterId !== id)
+            }))
+        }), { label: `Deleted character ${characterLabel(id)}${lines ? ` and ${lines} line${lines === 1 ? '' : 's'}` : ''}` });
     };
 
-    const addDialogue = () => {
-        if (promptData.characters.length === 0) {
-            alert("Please add a character first.");
+    const addShot = () => {
+        // Continue from the last shot's cast and setup, which is the common case for a sequence
+        const last = promptData.shots[promptData.shots.length - 1];
+        const newShot: Shot = {
+            ...createShot(),
+            characterIds: last ? [...last.characterIds] : [],
+            environment: last ? { ...last.environment, description: '' } : createEnvironment(),
+            // Keep the soundscape and score; cues and narration belong to one moment
+            audio: last ? { ...last.audio, sfx: [], narration: '' } : createAudio(),
+        };
+        setPromptData(prev => ({ ...prev, shots: [...prev.shots, newShot] }), { label: `Added shot ${promptData.shots.length + 1}` });
+        setActiveShotId(newShot.id);
+    };
+
+    const duplicateShot = (shotId: string) => {
+        const source = promptData.shots.find(s => s.id === shotId);
+        if (!source) return;
+        // New line ids, with the copied beats pointing at the copied lines
+        const lineIds = new Map(source.dialogues.map(d => [d.id, crypto.randomUUID()]));
+        const copy: Shot = {
+            ...source,
+            id: crypto.randomUUID(),
+            characterIds: [...source.characterIds],
+            dialogues: source.dialogues.map(d => ({ ...d, id: lineIds.get(d.id)! })),
+            beats: source.beats.map(b => ({ ...b, id: crypto.randomUUID(), dialogueId: b.dialogueId && lineIds.get(b.dialogueId) })),
+            environment: { ...source.environment },
+            audio: { ...source.audio, sfx: source.audio.sfx.map(c => ({ ...c, id: crypto.randomUUID() })) },
+        };
+        setPromptData(prev => {
+            const index = prev.shots.findIndex(s => s.id === shotId);
+            const shots = prev.shots.slice();
+            shots.splice(index + 1, 0, copy);
+            return { ...prev, shots };
+        }, { label: `Duplicated ${shotLabel(shotId)}` });
+        setActiveShotId(copy.id);
+    };
+
+    const deleteShot = (shotId: string) => {
+        if (promptData.shots.length <= 1) return;
+        const index = promptData.shots.findIndex(s => s.id === shotId);
+        const remaining = promptData.shots.filter(s => s.id !== shotId);
+        setPromptData(prev => ({ ...prev, shots: prev.shots.filter(s => s.id !== shotId) }), { label: `Deleted ${shotLabel(shotId)}` });
+        if (shotId === activeShot.id) {
+            setActiveShotId(remaining[Math.min(index, remaining.length - 1)].id);
+        }
+        if (outputView === shotId) setOutputView('sequence');
+    };
+
+    const moveShot = (shotId: string, direction: -1 | 1) => {
+        setPromptData(prev => {
+            const index = prev.shots.findIndex(s => s.id === shotId);
+            const target = index + direction;
+            if (index === -1 || target < 0 || target >= prev.shots.length) return prev;
+            const shots = prev.shots.slice();
+            [shots[index], shots[target]] = [shots[target], shots[index]];
+            return { ...prev, shots };
+        }, { label: `Moved ${shotLabel(shotId)} ${direction === -1 ? 'up' : 'down'}` });
+    };
+
+    const updateShotTitle = (shotId: string, title: string) => {
+        updateShot(shotId, shot => ({ ...shot, title }), { label: `Renamed ${shotLabel(shotId)}`, coalesceKey: `shot:${shotId}:title` });
+    };
+
+    const toggleShotCharacter = (shotId: string, characterId: string) => {
+        updateShot(shotId, shot => {
+            if (!shot.characterIds.includes(characterId)) {
+                // Keep the cast in the same order as the character list
+                const characterIds = promptData.characters
+                    .map(c => c.id)
+                    .filter(id => id === characterId || shot.characterIds.includes(id));
+                return { ...shot, characterIds };
+            }
+            return pruneBeatLinks({
+                ...shot,
+                characterIds: shot.characterIds.filter(id => id !== characterId),
+                // Off-screen lines do not need the speaker in the cast
+                dialogues: shot.dialogues.filter(d => d.characterId !== characterId || d.offScreen)
+            });
+        }, {
+            label: promptData.shots.find(s => s.id === shotId)?.characterIds.includes(characterId)
+                ? `Removed ${characterLabel(characterId)} from ${shotLabel(shotId)}`
+                : `Added ${characterLabel(characterId)} to ${shotLabel(shotId)}`
+        });
+    };
+
+    const addDialogue = (shotId: string) => {
+        const shot = promptData.shots.find(s => s.id === shotId);
+        if (!shot || shot.characterIds.length === 0) {
+            alert("Please add a character to this shot first.");
             return;
         }
         const newDialogue: Dialogue = {
             id: crypto.randomUUID(),
-            characterId: promptData.characters[0].id,
+            characterId: shot.characterIds[0],
             text: ''
         };
-        setPromptData(prev => ({ ...prev, dialogues: [...prev.dialogues, newDialogue] }));
+        updateShot(shotId, s => ({ ...s, dialogues: [...s.dialogues, newDialogue] }), { label: `Added line to ${shotLabel(shotId)}` });
     };
 
-    const updateDialogue = (id: string, field: keyof Dialogue, value: string) => {
-        setPromptData(prev => ({
-            ...prev,
-            dialogues: prev.dialogues.map(d => d.id === id ? { ...d, [field]: value } : d)
-        }));
+    const updateDialogue = <K extends keyof Dialogue>(shotId: string, id: string, field: K, value: Dialogue[K]) => {
+        updateShot(shotId, shot => ({
+            ...shot,
+            dialogues: shot.dialogues.map(d => d.id === id ? { ...d, [field]: value } : d)
+        }), field === 'characterId'
+            ? { label: `Changed speaker to ${characterLabel(value as string)} in ${shotLabel(shotId)}` }
+            : field === 'offScreen'
+            ? { label: `Marked line ${value ? 'off-screen' : 'on-screen'} in ${shotLabel(shotId)}` }
+            : { label: `Edited line in ${shotLabel(shotId)}`, coalesceKey: `dialogue:${id}:${field}` });
     };
 
-    const deleteDialogue = (id: string) => {
-        setPromptData(prev => ({
-            ...prev,
-            dialogues: prev.dialogues.filter(d => d.id !== id)
-        }));
+    const deleteDialogue = (shotId: string, id: string) => {
+        updateShot(shotId, shot => pruneBeatLinks({
+            ...shot,
+            dialogues: shot.dialogues.filter(d => d.id !== id)
+        }), { label: `Deleted line from ${shotLabel(shotId)}` });
     };
 
-    const updateEnvironment = (field: keyof Environment, value: string) => {
-        setPromptData(prev => ({
-            ...prev,
-            environment: { ...prev.environment, [field]: value }
-        }));
+    const addBeat = (shotId: string) => {
+        const beat = createBeat(promptData.shots.find(s => s.id === shotId)?.beats ?? []);
+        updateShot(shotId, shot => ({ ...shot, beats: [...shot.beats, beat] }), { label: `Added beat to ${shotLabel(shotId)}` });
+        return beat.id;
+    };
+
+    const updateBeat = (shotId: string, beatId: string, patch: Partial<ActionBeat>, dragKey?: string) => {
+        updateShot(shotId, shot => ({
+            ...shot,
+            beats: shot.beats.map(b => b.id === beatId ? { ...b, ...patch } : b)
+        }), dragKey
+            ? { label: `Moved beat in ${shotLabel(shotId)}`, coalesceKey: `beat-drag:${dragKey}` }
+            : { label: `Edited beat in ${shotLabel(shotId)}`, coalesceKey: `beat:${beatId}:${Object.keys(patch).join(',')}` });
+    };
+
+    const deleteBeat = (shotId: string, beatId: string) => {
+        updateShot(shotId, shot => ({ ...shot, beats: shot.beats.filter(b => b.id !== beatId) }), { label: `Deleted beat from ${shotLabel(shotId)}` });
+    };
+
+    const updateEnvironment = (shotId: string, field: keyof Environment, value: string) => {
+        updateShot(shotId, shot => ({
+            ...shot,
+            environment: { ...shot.environment, [field]: value }
+        }), { label: `Edited ${shotLabel(shotId)} ${ENVIRONMENT_FIELD_LABELS[field]}`, coalesceKey: `shot:${shotId}:${field}` });
+    };
+
+    const updateAudio = (shotId: string, field: AudioTextField, value: string) => {
+        updateShot(shotId, shot => ({
+            ...shot,
+            audio: { ...shot.audio, [field]: value }
+        }), { label: `Edited ${shotLabel(shotId)} ${AUDIO_FIELD_LABELS[field]}`, coalesceKey: `shot:${shotId}:audio:${field}` });
+    };
+
+    const setAudioMode = (shotId: string, mode: ShotAudio['mode']) => {
+        const label = AUDIO_MIX_MODES.find(m => m.value === mode)?.label ?? mode;
+        updateShot(shotId, shot => ({ ...shot, audio: { ...shot.audio, mode } }), { label: `Set ${shotLabel(shotId)} audio to ${label}` });
+    };
+
+    const addSfx = (shotId: string) => {
+        const sfx = promptData.shots.find(s => s.id === shotId)?.audio.sfx ?? [];
+        const lastTime = sfx.reduce((max, c) => Math.max(max, c.time), -1);
+        const cue: SfxCue = { id: crypto.randomUUID(), time: Math.min(lastTime + 1, TARGET_CLIP_SECONDS - 1), sound: '' };
+        updateShot(shotId, shot => ({ ...shot, audio: { ...shot.audio, sfx: [...shot.audio.sfx, cue] } }), { label: `Added sound effect to ${shotLabel(shotId)}` });
+    };
+
+    const updateSfx = (shotId: string, cueId: string, patch: Partial<SfxCue>) => {
+        updateShot(shotId, shot => ({
+            ...shot,
+            audio: { ...shot.audio, sfx: shot.audio.sfx.map(c => c.id === cueId ? { ...c, ...patch } : c) }
+        }), { label: `Edited sound effect in ${shotLabel(shotId)}`, coalesceKey: `sfx:${cueId}:${Object.keys(patch).join(',')}` });
+    };
+
+    const deleteSfx = (shotId: string, cueId: string) => {
+        updateShot(shotId, shot => ({
+            ...shot,
+            audio: { ...shot.audio, sfx: shot.audio.sfx.filter(c => c.id !== cueId) }
+        }), { label: `Deleted sound effect from ${shotLabel(shotId)}` });
     };
 
     // --- Prompt Generation ---
     const generatePrompts = useCallback((data: PromptData) => {
-        const getCharIdentifier = (char: Character | undefined) => {
-            if (!char) return 'Unknown Character';
-            return char.name || `Character ${data.characters.findIndex(c => c.id === char.id) + 1}`;
-        };
-        const getCharIdentifierIndo = (char: Character | undefined) => {
-             if (!char) return 'Karakter Tidak Dikenal';
-             return char.name || `Karakter ${data.characters.findIndex(c => c.id === char.id) + 1}`;
-        };
+        const render = (build: (locale: PromptLocale) => string) =>
+            Object.fromEntries(PROMPT_LOCALES.map(locale => [locale.id, build(locale)]));
 
-        // English Prompt
-        let englishPrompt = `Scene: ${data.environment.description}.\n\n`;
-        data.characters.forEach((char, index) => {
-            const race = char.race === 'Other (Custom)' ? char.customRace : char.race;
-            englishPrompt += `Character ${index + 1} (${char.name || 'Unnamed'}) is a ${char.age}-year-old ${race} ${char.gender}, rendered in a ${char.characterStyle} style. They are wearing ${char.outfit} with ${char.hairstyle} hair. Their voice is ${char.voice}. Action: ${char.description}.\n`;
-        });
-        if (data.dialogues.length > 0) {
-            englishPrompt += "\nDialogue:\n";
-            data.dialogues.forEach(d => {
-                const speaker = data.characters.find(c => c.id === d.characterId);
-                englishPrompt += `${getCharIdentifier(speaker)}: "${d.text}"\n`;
-            });
-        }
-        englishPrompt += `\nShot details: Lighting is ${data.environment.lighting}. Camera angle is ${data.environment.cameraAngle}. Shooting style is ${data.environment.shootingStyle}.`;
-        if (data.environment.otherOptions) englishPrompt += ` Additional notes: ${data.environment.otherOptions}.`;
-
-        // Indonesian Prompt
-        let indonesianPrompt = `Adegan: ${data.environment.description}.\n\n`;
-        data.characters.forEach((char, index) => {
-            let genderIndo = char.gender === 'Male' ? 'pria' : (char.gender === 'Female' ? 'wanita' : char.gender);
-            const race = char.race === 'Other (Custom)' ? char.customRace : char.race;
-            indonesianPrompt += `Karakter ${index + 1} (${char.name || 'Tanpa Nama'}) adalah seorang ${genderIndo} ras ${race} berusia ${char.age} tahun dengan gaya ${char.characterStyle}. Ia mengenakan ${char.outfit} dengan gaya rambut ${char.hairstyle}. Suaranya ${char.voice}. Aksi: ${char.description}.\n`;
-        });
-        if (data.dialogues.length > 0) {
-            indonesianPrompt += "\nDialog:\n";
-            data.dialogues.forEach(d => {
-                const speaker = data.characters.find(c => c.id === d.characterId);
-                indonesianPrompt += `${getCharIdentifierIndo(speaker)}: "${d.text}"\n`;
-            });
-        }
-        indonesianPrompt += `\nDetail pengambilan gambar: Pencahayaan ${data.environment.lighting}. Sudut kamera ${data.environment.cameraAngle}. Gaya pengambilan gambar ${data.environment.shootingStyle}.`;
-        if (data.environment.otherOptions) indonesianPrompt += ` Catatan tambahan: ${data.environment.otherOptions}.`;
+        // Each shot's JSON carries only its own cast so it can be used as a standalone prompt
+        const shots: ShotPrompts[] = data.shots.map(shot => ({
+            text: render(locale => renderVideoShot(locale, data, shot)),
+            json: JSON.stringify(toVeoShotPrompt(data, shot), null, 2)
+        }));
 
-        // JSON Prompt
-        const jsonPrompt = JSON.stringify(data, null, 2);
+        const sequence: ShotPrompts = {
+            text: render(locale => renderVideoSequence(locale, data, shots.map(s => s.text[locale.id]))),
+            json: JSON.stringify(toVeoSequencePrompt(data), null, 2)
+        };
 
-        setGeneratedPrompts({
-            indonesian: indonesianPrompt.trim(),
-            english: englishPrompt.trim(),
-            json: jsonPrompt
-        });
+        setGeneratedPrompts({ shots, sequence });
     }, []);
 
     useEffect(() => {
@@ -356,21 +645,92 @@ const App: React.FC = () => {
     }, [promptData, generatePrompts]);
 
     // Debounced analytics for prompt generation on the 'prompt' tab
+    const totalDialogues = promptData.shots.reduce((sum, shot) => sum + shot.dialogues.length, 0);
+    const firstEnvironment = promptData.shots[0].environment;
     useEffect(() => {
         const t = window.setTimeout(() => {
             try {
                 trackEvent('generate_video_prompt', {
                     characters: promptData.characters.length,
-                    dialogues: promptData.dialogues.length,
-                    has_other_options: !!promptData.environment.otherOptions,
-                    lighting: promptData.environment.lighting,
-                    camera_angle: promptData.environment.cameraAngle,
-                    shooting_style: promptData.environment.shootingStyle,
+                    shots: promptData.shots.length,
+                    dialogues: totalDialogues,
+                    has_other_options: !!firstEnvironment.otherOptions,
+                    lighting: firstEnvironment.lighting,
+                    camera_angle: firstEnvironment.cameraAngle,
+                    shooting_style: firstEnvironment.shootingStyle,
                 });
             } catch {}
         }, 800);
         return () => window.clearTimeout(t);
-    }, [promptData.characters.length, promptData.dialogues.length, promptData.environment.otherOptions, promptData.environment.lighting, promptData.environment.cameraAngle, promptData.environment.shootingStyle]);
+    }, [promptData.characters.length, promptData.shots.length, totalDialogues, firstEnvironment.otherOptions, firstEnvironment.lighting, firstEnvironment.cameraAngle, firstEnvironment.shootingStyle]);
+
+    // --- Prompt Check ---
+    const lintIssues = useMemo(() => lintPrompt(VIDEO_LINT_RULES, promptData, {
+        config: lintConfig,
+        prompts: generatedPrompts.shots.flatMap((p, i) => selectedLocales(outputLocaleIds).map(locale => (
+            { label: `Shot ${i + 1} (${locale.label})`, text: p.text[locale.id] ?? '' }
+        ))),
+    }), [promptData, generatedPrompts, lintConfig, outputLocaleIds]);
+
+    const updateLintConfig = (config: LintConfig) => {
+        setLintConfig(config);
+        saveLintConfig(VIDEO_LINT_STORAGE_KEY, config);
+    };
+
+    const applyLintFix = (fix: LintFix<PromptData>, issue: LintIssue<PromptData>) => {
+        setPromptData(prev => fix.apply(prev), { label: `Fixed: ${fix.label}` });
+        try { trackEvent('prompt_lint_fix', { rule: issue.ruleId }); } catch {}
+    };
+
+    const updateOutputLocales = (ids: string[]) => {
+        setOutputLocaleIds(ids);
+        saveLocaleSelection(PROMPT_LOCALE_STORAGE_KEY, ids);
+    };
+
+    const outputShotIndex = promptData.shots.findIndex(s => s.id === outputView);
+    const outputPrompts = outputShotIndex === -1 ? generatedPrompts.sequence : (generatedPrompts.shots[outputShotIndex] ?? generatedPrompts.sequence);
+    const outputLabel = outputShotIndex === -1 ? 'Sequence' : `Shot ${outputShotIndex + 1}`;
+
+    // --- Handoff to the generators ---
+    // Sends the output being viewed; a multi-shot sequence goes to the Video Generator as one segment per shot
+    const sendToGenerator = async (target: HandoffTarget) => {
+        const textOf = (prompts: ShotPrompts) => handoffFormat === 'json' ? prompts.json : (prompts.text[handoffFormat] ?? '');
+        const shots = outputShotIndex === -1 ? promptData.shots : [promptData.shots[outputShotIndex]];
+        const characterStyle = deriveCharacterStyle(promptData, shots);
+        const aspectRatio = deriveAspectRatio(shots);
+        setIsSending(true);
+        let referenceImages: File[] = [];
+        try {
+            referenceImages = await castReferenceImages(promptData, shots);
+        } catch (err) {
+            // Reference images are a bonus; send the prompt without them
+            console.error(err);
+        } finally {
+            setIsSending(false);
+        }
+        if (target === 'video') {
+            const segmented = outputShotIndex === -1 && promptData.shots.length > 1;
+            handoffStore.send('video', {
+                prompt: textOf(outputPrompts),
+                duration: shotDuration(shots[0]),
+                segments: segmented ? promptData.shots.map((shot, i) => ({ prompt: textOf(generatedPrompts.shots[i]), duration: shotDuration(shot) })) : [],
+                aspectRatio,
+                characterStyle,
+                aiMode: videoModeFor(characterStyle),
+                negativePrompt: promptData.negativePrompt.trim(),
+                referenceImages,
+            });
+        } else {
+            handoffStore.send('image', {
+                prompt: textOf(outputPrompts),
+                aspectRatio,
+                stylePreset: imageStyleFor(characterStyle),
+                referenceImages,
+            });
+        }
+        setActiveTab(target);
+        try { trackEvent('prompt_handoff', { target, format: handoffFormat, shots: shots.length, reference_images: referenceImages.length }); } catch {}
+    };
 
     const renderInput = (label: string, value: string, onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void, type = 'text', placeholder = '') => (
         <div>
@@ -382,6 +742,14 @@ const App: React.FC = () => {
         </div>
     );
     
+    /** Free text with suggestions from a `<datalist>`, for optional fields where any wording works. */
+    const renderSuggestInput = (label: string, value: string, onChange: (value: string) => void, listId: string, placeholder = '') => (
+        <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+            <input type="text" list={listId} value={value} onChange={e => onChange(e.target.value)} placeholder={placeholder} className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500" />
+        </div>
+    );
+
     const renderSelect = <T extends string,>(label: string, value: T, onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void, options: readonly T[]) => {
         const isCustom = !options.includes(value);
         const handleSelectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -463,6 +831,7 @@ const App: React.FC = () => {
                                 </div>
                                 {/* Inline feedback replaced by toast */}
                             </div>
+                            <button onClick={openShare} className="mt-6 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors text-sm font-semibold" title="Share this tab's settings as a link">Share</button>
                             <button onClick={toggleTheme} className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors mt-6" aria-label="Toggle theme">
                                 {theme === 'dark' ? <SunIcon /> : <MoonIcon />}
                             </button>
@@ -497,6 +866,7 @@ const App: React.FC = () => {
                             <TabButton title="Video Generator" active={activeTab === 'video'} onClick={() => setActiveTab('video')} />
                             <TabButton title="Storybook Prompt Gen" active={activeTab === 'storybook_prompt'} onClick={() => setActiveTab('storybook_prompt')} />
                             <TabButton title="Storybook Builder" active={activeTab === 'storybook'} onClick={() => setActiveTab('storybook')} />
+                            <TabButton title="Media Library" active={activeTab === 'library'} onClick={() => setActiveTab('library')} />
                         </div>
                     </nav>
                 </div>
@@ -527,6 +897,7 @@ const App: React.FC = () => {
                   <button className={`text-left px-3 py-2 rounded-md ${activeTab === 'video' ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-gray-200/50 dark:hover:bg-gray-700/50'}`} onClick={() => { setActiveTab('video'); closeDrawer(); }}>Video Generator</button>
                   <button className={`text-left px-3 py-2 rounded-md ${activeTab === 'storybook_prompt' ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-gray-200/50 dark:hover:bg-gray-700/50'}`} onClick={() => { setActiveTab('storybook_prompt'); closeDrawer(); }}>Storybook Prompt Gen</button>
                   <button className={`text-left px-3 py-2 rounded-md ${activeTab === 'storybook' ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-gray-200/50 dark:hover:bg-gray-700/50'}`} onClick={() => { setActiveTab('storybook'); closeDrawer(); }}>Storybook Builder</button>
+                  <button className={`text-left px-3 py-2 rounded-md ${activeTab === 'library' ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-gray-200/50 dark:hover:bg-gray-700/50'}`} onClick={() => { setActiveTab('library'); closeDrawer(); }}>Media Library</button>
                 </div>
               </div>
             )}
@@ -535,14 +906,23 @@ const App: React.FC = () => {
                      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                         {/* INPUTS COLUMN */}
                         <div>
+                             <HistoryPanel items={promptHistory.items} canUndo={promptHistory.canUndo} canRedo={promptHistory.canRedo} onUndo={promptHistory.undo} onRedo={promptHistory.redo} onJump={promptHistory.jumpTo} />
                              <InputGroup title="Characters" actionButton={
-                                <button onClick={addCharacter} className="flex items-center text-sm bg-indigo-600 text-white px-3 py-1.5 rounded-md hover:bg-indigo-700 transition-colors"><PlusIcon/> <span className="ml-2">Add Character</span></button>
+                                <div className="flex items-center gap-2">
+                                    <button onClick={() => setIsLibraryOpen(true)} className="flex items-center text-sm bg-gray-600 text-white px-3 py-1.5 rounded-md hover:bg-gray-500 transition-colors">Library</button>
+                                    <button onClick={addCharacter} className="flex items-center text-sm bg-indigo-600 text-white px-3 py-1.5 rounded-md hover:bg-indigo-700 transition-colors"><PlusIcon/> <span className="ml-2">Add Character</span></button>
+                                </div>
                              }>
                                 {promptData.characters.map((char, index) => (
                                     <div key={char.id} className="bg-gray-50/50 dark:bg-gray-900/50 p-4 rounded-lg border border-gray-300 dark:border-gray-700 space-y-4">
                                         <div className="flex justify-between items-center">
                                             <h3 className="font-semibold text-lg text-indigo-600 dark:text-indigo-400">Character {index + 1}</h3>
-                                            <button onClick={() => deleteCharacter(char.id)} className="text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300 p-1 rounded-full bg-red-500/10 hover:bg-red-500/20"><TrashIcon/></button>
+                                            <div className="flex items-center gap-2">
+                                                <button onClick={() => saveCharacterToLibrary(char)} className="text-xs px-2 py-1 rounded bg-gray-700 text-white hover:bg-gray-600" title={char.libraryId ? 'Update the library entry this character came from' : 'Save this character for reuse in other tabs'}>
+                                                    {savedCharacterId === char.id ? 'Saved!' : (char.libraryId ? 'Update in Library' : 'Save to Library')}
+                                                </button>
+                                                <button onClick={() => deleteCharacter(char.id)} className="text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300 p-1 rounded-full bg-red-500/10 hover:bg-red-500/20"><TrashIcon/></button>
+                                            </div>
                                         </div>
                                         {renderInput('Name', char.name, e => updateCharacter(char.id, 'name', e.target.value), 'text', 'e.g., John Doe')}
                                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -562,51 +942,201 @@ const App: React.FC = () => {
                                 ))}
                              </InputGroup>
 
-                             <InputGroup title="Dialogues" actionButton={
-                                <button onClick={addDialogue} className="flex items-center text-sm bg-indigo-600 text-white px-3 py-1.5 rounded-md hover:bg-indigo-700 transition-colors"><PlusIcon/> <span className="ml-2">Add Dialogue</span></button>
+                             <InputGroup title="Shot List" actionButton={
+                                <button onClick={addShot} className="flex items-center text-sm bg-indigo-600 text-white px-3 py-1.5 rounded-md hover:bg-indigo-700 transition-colors"><PlusIcon/> <span className="ml-2">Add Shot</span></button>
                              }>
-                                 {promptData.dialogues.map((dialogue, index) => (
+                                 {promptData.shots.map((shot, index) => (
+                                     <div key={shot.id} className={`flex items-center gap-2 p-2 rounded-lg border ${shot.id === activeShot.id ? 'border-indigo-500 bg-indigo-50/60 dark:bg-indigo-900/30' : 'border-gray-300 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-900/50'}`}>
+                                         <button onClick={() => setActiveShotId(shot.id)} className="flex-grow text-left min-w-0">
+                                             <span className="block font-semibold text-sm text-indigo-600 dark:text-indigo-400 truncate">Shot {index + 1}{shot.title ? ` — ${shot.title}` : ''}</span>
+                                             <span className="block text-xs text-gray-500 dark:text-gray-400">{shot.characterIds.length} character{shot.characterIds.length === 1 ? '' : 's'} · {shot.dialogues.length} line{shot.dialogues.length === 1 ? '' : 's'}</span>
+                                         </button>
+                                         <button onClick={() => moveShot(shot.id, -1)} disabled={index === 0} className="px-2 py-1 text-xs rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200/60 dark:hover:bg-gray-700/60 disabled:opacity-40" aria-label="Move shot up">↑</button>
+                                         <button onClick={() => moveShot(shot.id, 1)} disabled={index === promptData.shots.length - 1} className="px-2 py-1 text-xs rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200/60 dark:hover:bg-gray-700/60 disabled:opacity-40" aria-label="Move shot down">↓</button>
+                                         <button onClick={() => duplicateShot(shot.id)} className="px-2 py-1 text-xs rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200/60 dark:hover:bg-gray-700/60">Duplicate</button>
+                                         {promptData.shots.length > 1 && (
+                                             <button onClick={() => deleteShot(shot.id)} className="text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300 p-1 rounded-full bg-red-500/10 hover:bg-red-500/20" aria-label="Delete shot"><TrashIcon/></button>
+                                         )}
+                                     </div>
+                                 ))}
+                             </InputGroup>
+
+                             <InputGroup title={`Shot ${activeShotIndex + 1} — Cast & Dialogues`} actionButton={
+                                <button onClick={() => addDialogue(activeShot.id)} className="flex items-center text-sm bg-indigo-600 text-white px-3 py-1.5 rounded-md hover:bg-indigo-700 transition-colors"><PlusIcon/> <span className="ml-2">Add Dialogue</span></button>
+                             }>
+                                 {renderInput('Shot Title', activeShot.title, e => updateShotTitle(activeShot.id, e.target.value), 'text', 'e.g., Opening — the chase begins')}
+                                 <div>
+                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Characters in this shot</label>
+                                     {promptData.characters.length === 0 ? (
+                                         <p className="text-sm text-gray-500 dark:text-gray-400">Add characters above, then pick who appears in each shot.</p>
+                                     ) : (
+                                         <div className="flex flex-wrap gap-3">
+                                             {promptData.characters.map((c, i) => (
+                                                 <label key={c.id} className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                                     <input
+                                                         type="checkbox"
+                                                         checked={activeShot.characterIds.includes(c.id)}
+                                                         onChange={() => toggleShotCharacter(activeShot.id, c.id)}
+                                                         className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                                     />
+                                                     {c.name ? `${c.name} (Character ${i + 1})` : `Character ${i + 1}`}
+                                                 </label>
+                                             ))}
+                                         </div>
+                                     )}
+                                 </div>
+                                 <datalist id="dialogue-emotions">{DIALOGUE_EMOTIONS.map(s => <option key={s} value={s} />)}</datalist>
+                                 <datalist id="dialogue-deliveries">{DIALOGUE_DELIVERIES.map(s => <option key={s} value={s} />)}</datalist>
+                                 {activeShot.dialogues.map((dialogue, index) => (
                                      <div key={dialogue.id} className="bg-gray-50/50 dark:bg-gray-900/50 p-4 rounded-lg border border-gray-300 dark:border-gray-700 space-y-3">
                                          <div className="flex justify-between items-center">
                                              <h3 className="font-semibold text-md text-indigo-600 dark:text-indigo-400">Dialogue Line {index + 1}</h3>
-                                             <button onClick={() => deleteDialogue(dialogue.id)} className="text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300 p-1 rounded-full bg-red-500/10 hover:bg-red-500/20"><TrashIcon/></button>
+                                             <button onClick={() => deleteDialogue(activeShot.id, dialogue.id)} className="text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300 p-1 rounded-full bg-red-500/10 hover:bg-red-500/20"><TrashIcon/></button>
                                          </div>
-                                         <select value={dialogue.characterId} onChange={e => updateDialogue(dialogue.id, 'characterId', e.target.value)} className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500">
-                                             {promptData.characters.map((c, i) => <option key={c.id} value={c.id}>
+                                         <select value={dialogue.characterId} onChange={e => updateDialogue(activeShot.id, dialogue.id, 'characterId', e.target.value)} className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500">
+                                             {/* Off-screen lines may be spoken by anyone, not just the shot's cast */}
+                                             {promptData.characters.map((c, i) => (dialogue.offScreen || activeShot.characterIds.includes(c.id)) && <option key={c.id} value={c.id}>
                                                  {c.name ? `${c.name} (Character ${i+1})` : `Character ${i + 1}`}
                                                  </option>)}
                                          </select>
-                                         {renderInput('Conversation Text', dialogue.text, e => updateDialogue(dialogue.id, 'text', e.target.value), 'textarea', 'e.g., "We need to go, now!"')}
+                                         {renderInput('Conversation Text', dialogue.text, e => updateDialogue(activeShot.id, dialogue.id, 'text', e.target.value), 'textarea', 'e.g., "We need to go, now!"')}
+                                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                             {renderSuggestInput('Emotion / Tone', dialogue.emotion ?? '', value => updateDialogue(activeShot.id, dialogue.id, 'emotion', value), 'dialogue-emotions', 'e.g., Excited')}
+                                             {renderSuggestInput('Delivery', dialogue.delivery ?? '', value => updateDialogue(activeShot.id, dialogue.id, 'delivery', value), 'dialogue-deliveries', 'e.g., Whisper')}
+                                             <div>
+                                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start Time (seconds)</label>
+                                                 <input type="number" min={0} step={0.5} value={dialogue.startTime ?? ''} onChange={e => updateDialogue(activeShot.id, dialogue.id, 'startTime', e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))} placeholder="Not timed" className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500" />
+                                             </div>
+                                             <div>
+                                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Spoken Language</label>
+                                                 <select value={dialogue.language ?? ''} onChange={e => updateDialogue(activeShot.id, dialogue.id, 'language', e.target.value)} className="appearance-none w-full bg-gray-200/50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500">
+                                                     <option value="">Not specified</option>
+                                                     {DIALOGUE_LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                                                 </select>
+                                             </div>
+                                         </div>
+                                         <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                             <input type="checkbox" checked={!!dialogue.offScreen} onChange={e => updateDialogue(activeShot.id, dialogue.id, 'offScreen', e.target.checked)} className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                                             Off-screen / voice-over
+                                         </label>
                                      </div>
                                  ))}
                              </InputGroup>
                              
-                             <InputGroup title="Environment & Camera">
-                                 {renderInput('Environment Description', promptData.environment.description, e => updateEnvironment('description', e.target.value), 'textarea', 'e.g., A neon-lit alleyway at night, rain is falling')}
-                                 {renderSelect('Lighting', promptData.environment.lighting, e => updateEnvironment('lighting', e.target.value), LIGHTING_STYLES)}
-                                 {renderSelect('Camera Angle', promptData.environment.cameraAngle, e => updateEnvironment('cameraAngle', e.target.value), CAMERA_ANGLES)}
-                                 {renderSelect('Shooting Style', promptData.environment.shootingStyle, e => updateEnvironment('shootingStyle', e.target.value), SHOOTING_STYLES)}
-                                 {renderSelect('Other VEO3 Options', promptData.environment.otherOptions, e => updateEnvironment('otherOptions', e.target.value), OTHER_VEO_OPTIONS)}
+                             <InputGroup title={`Shot ${activeShotIndex + 1} — Action Beats`}>
+                                 <BeatTrackEditor
+                                     beats={activeShot.beats}
+                                     dialogues={activeShot.dialogues}
+                                     lineLabel={(d, i) => `Line ${i + 1}: ${characterLabel(d.characterId)}${d.text ? ` — "${d.text.slice(0, 30)}"` : ''}`}
+                                     problems={validateBeats(activeShot)}
+                                     onAdd={() => addBeat(activeShot.id)}
+                                     onUpdate={(beatId, patch, dragKey) => updateBeat(activeShot.id, beatId, patch, dragKey)}
+                                     onDelete={beatId => deleteBeat(activeShot.id, beatId)}
+                                 />
+                             </InputGroup>
+
+                             <InputGroup title={`Shot ${activeShotIndex + 1} — Environment & Camera`}>
+                                 {renderInput('Environment Description', activeShot.environment.description, e => updateEnvironment(activeShot.id, 'description', e.target.value), 'textarea', 'e.g., A neon-lit alleyway at night, rain is falling')}
+                                 {renderSelect('Lighting', activeShot.environment.lighting, e => updateEnvironment(activeShot.id, 'lighting', e.target.value), LIGHTING_STYLES)}
+                                 {renderSelect('Camera Angle', activeShot.environment.cameraAngle, e => updateEnvironment(activeShot.id, 'cameraAngle', e.target.value), CAMERA_ANGLES)}
+                                 {renderSelect('Shooting Style', activeShot.environment.shootingStyle, e => updateEnvironment(activeShot.id, 'shootingStyle', e.target.value), SHOOTING_STYLES)}
+                                 {renderSelect('Other VEO3 Options', activeShot.environment.otherOptions, e => updateEnvironment(activeShot.id, 'otherOptions', e.target.value), OTHER_VEO_OPTIONS)}
+                             </InputGroup>
+
+                             <InputGroup title={`Shot ${activeShotIndex + 1} — Audio`}>
+                                 <datalist id="audio-ambience">{AMBIENCE_PRESETS.map(s => <option key={s} value={s} />)}</datalist>
+                                 <datalist id="music-genres">{MUSIC_GENRES.map(s => <option key={s} value={s} />)}</datalist>
+                                 <datalist id="music-moods">{MUSIC_MOODS.map(s => <option key={s} value={s} />)}</datalist>
+                                 <datalist id="music-tempos">{MUSIC_TEMPOS.map(s => <option key={s} value={s} />)}</datalist>
+                                 <div>
+                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Mix</label>
+                                     <div className="inline-flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600">
+                                         {AUDIO_MIX_MODES.map(m => (
+                                             <button key={m.value} type="button" onClick={() => setAudioMode(activeShot.id, m.value)} className={`px-3 py-1 text-sm ${activeShot.audio.mode === m.value ? 'bg-indigo-600 text-white' : 'bg-transparent text-gray-700 dark:text-gray-300'}`}>{m.label}</button>
+                                         ))}
+                                     </div>
+                                 </div>
+                                 {/* Parts the mix leaves out stay visible, greyed out, so nothing typed is hidden */}
+                                 <fieldset disabled={!audioParts(activeShot.audio.mode).ambience} className="disabled:opacity-50">
+                                     {renderSuggestInput('Ambient Soundscape', activeShot.audio.ambience, value => updateAudio(activeShot.id, 'ambience', value), 'audio-ambience', 'e.g., Rain on a tin roof, distant traffic')}
+                                 </fieldset>
+                                 <fieldset disabled={!audioParts(activeShot.audio.mode).music} className="grid grid-cols-1 sm:grid-cols-3 gap-3 disabled:opacity-50">
+                                     {renderSuggestInput('Music Genre', activeShot.audio.musicGenre, value => updateAudio(activeShot.id, 'musicGenre', value), 'music-genres', 'e.g., Gamelan')}
+                                     {renderSuggestInput('Music Mood', activeShot.audio.musicMood, value => updateAudio(activeShot.id, 'musicMood', value), 'music-moods', 'e.g., Tense')}
+                                     {renderSuggestInput('Music Tempo', activeShot.audio.musicTempo, value => updateAudio(activeShot.id, 'musicTempo', value), 'music-tempos', 'e.g., Slow')}
+                                 </fieldset>
+                                 <fieldset disabled={!audioParts(activeShot.audio.mode).sfx} className="space-y-2 disabled:opacity-50">
+                                     <div className="flex items-center justify-between">
+                                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Sound Effects</label>
+                                         <button type="button" onClick={() => addSfx(activeShot.id)} className="flex items-center text-sm bg-indigo-600 text-white px-3 py-1.5 rounded-md hover:bg-indigo-700 transition-colors"><PlusIcon/> <span className="ml-2">Add SFX</span></button>
+                                     </div>
+                                     {activeShot.audio.sfx.map(cue => (
+                                         <div key={cue.id} className="flex items-center gap-2">
+                                             <input type="number" min={0} max={TARGET_CLIP_SECONDS} step={0.5} value={cue.time} onChange={e => e.target.value !== '' && updateSfx(activeShot.id, cue.id, { time: Math.max(0, Number(e.target.value)) })} aria-label="Cue time in seconds" className="w-20 bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500" />
+                                             <span className="text-sm text-gray-500 dark:text-gray-400">s</span>
+                                             <input type="text" value={cue.sound} onChange={e => updateSfx(activeShot.id, cue.id, { sound: e.target.value })} placeholder="e.g., Door creaks open" aria-label="Sound" className="flex-grow min-w-0 bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500" />
+                                             <button type="button" onClick={() => deleteSfx(activeShot.id, cue.id)} className="text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300 p-1 rounded-full bg-red-500/10 hover:bg-red-500/20" aria-label="Delete sound effect"><TrashIcon/></button>
+                                         </div>
+                                     ))}
+                                 </fieldset>
+                                 {renderInput('Narration / Voice-over', activeShot.audio.narration, e => updateAudio(activeShot.id, 'narration', e.target.value), 'textarea', 'e.g., "Every journey starts with a single step."')}
+                             </InputGroup>
+                             <InputGroup title="Negative Prompt (All Shots)">
+                                 <NegativePromptInput
+                                     label="Avoid"
+                                     value={promptData.negativePrompt}
+                                     onChange={value => setPromptData(prev => ({ ...prev, negativePrompt: value }), { label: 'Edited negative prompt', coalesceKey: 'negative-prompt' })}
+                                     style={deriveCharacterStyle(promptData, promptData.shots)}
+                                 />
+                                 <p className="text-xs text-gray-500 dark:text-gray-400">Sent as the model's negative prompt, not added to the prompt text. It appears in the JSON output as <code>negative_prompt</code>.</p>
                              </InputGroup>
                         </div>
 
                         {/* OUTPUTS COLUMN */}
                         <div className="flex flex-col gap-8 sticky top-[150px] h-fit">
-                             <div className="h-[250px]"><OutputBlock title="Indonesian Prompt" content={generatedPrompts.indonesian} /></div>
-                             <div className="h-[250px]"><OutputBlock title="English Prompt" content={generatedPrompts.english} /></div>
-                             <div className="h-[250px]"><OutputBlock title="JSON Prompt" content={generatedPrompts.json} language="json"/></div>
+                             <div className="flex flex-wrap gap-2" role="tablist" aria-label="Prompt output">
+                                 <button onClick={() => setOutputView('sequence')} className={`px-3 py-1 text-sm rounded-md ${outputView === 'sequence' ? 'bg-indigo-600 text-white' : 'bg-gray-200/60 dark:bg-gray-700/60 text-gray-700 dark:text-gray-300'}`}>Full Sequence</button>
+                                 {promptData.shots.map((shot, index) => (
+                                     <button key={shot.id} onClick={() => setOutputView(shot.id)} className={`px-3 py-1 text-sm rounded-md ${outputView === shot.id ? 'bg-indigo-600 text-white' : 'bg-gray-200/60 dark:bg-gray-700/60 text-gray-700 dark:text-gray-300'}`}>Shot {index + 1}</button>
+                                 ))}
+                                 <button onClick={() => setIsAutofillOpen(true)} className="ml-auto px-3 py-1 text-sm rounded-md bg-indigo-600 text-white hover:bg-indigo-700">Autofill from Idea</button>
+                                 <button onClick={() => setIsImportOpen(true)} className="px-3 py-1 text-sm rounded-md bg-gray-600 text-white hover:bg-gray-500">Import JSON</button>
+                             </div>
+                             <div className="flex flex-wrap items-center gap-2">
+                                 <label htmlFor="handoff-format" className="text-sm text-gray-700 dark:text-gray-300">Send {outputLabel} as</label>
+                                 <select id="handoff-format" value={handoffFormat} onChange={e => setHandoffFormat(e.target.value)} className="bg-gray-200/50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md p-1 text-sm">
+                                     {PROMPT_LOCALES.map(locale => <option key={locale.id} value={locale.id}>{locale.label}</option>)}
+                                     <option value="json">JSON</option>
+                                 </select>
+                                 <button onClick={() => sendToGenerator('video')} disabled={isSending} className="px-3 py-1 text-sm rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-indigo-400">Send to Video Generator</button>
+                                 <button onClick={() => sendToGenerator('image')} disabled={isSending} className="px-3 py-1 text-sm rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-indigo-400">Send to Image Generator</button>
+                             </div>
+                             <LintPanel issues={lintIssues} rules={VIDEO_LINT_RULES} config={lintConfig} onConfigChange={updateLintConfig} onFix={applyLintFix} />
+                             <LocalePicker selected={outputLocaleIds} onChange={updateOutputLocales} />
+                             {selectedLocales(outputLocaleIds).map(locale => (
+                                 <div key={locale.id} className="h-[250px]"><OutputBlock title={`${locale.label} Prompt (${outputLabel})`} content={outputPrompts.text[locale.id] ?? ''} /></div>
+                             ))}
+                             <div className="h-[250px]"><OutputBlock title={`JSON Prompt (${outputLabel})`} content={outputPrompts.json} language="json"/></div>
+                             {promptData.negativePrompt.trim() && (
+                                 <div className="h-[120px]"><OutputBlock title="Negative Prompt" content={promptData.negativePrompt.trim()} /></div>
+                             )}
                         </div>
                     </div>
                 )}
+                <ShareDialog open={!!sharePayload} payload={sharePayload} onClose={() => setSharePayload(null)} onOpenShared={applySharePayload} />
+                <PromptImportDialog open={isImportOpen} current={promptData} onClose={() => setIsImportOpen(false)} onApply={applyImportedPrompt} />
+                <AutofillDialog open={isAutofillOpen} apiKey={apiKey} current={promptData} onClose={() => setIsAutofillOpen(false)} onApply={applyAutofill} />
+                <CharacterLibraryPanel open={isLibraryOpen} onClose={() => setIsLibraryOpen(false)} onInsert={insertLibraryCharacter} insertLabel="Add to Prompt" />
                 {/* Keep Image and Video tabs mounted to preserve state across tab switches */}
                 <div className={activeTab === 'image' ? '' : 'hidden'} aria-hidden={activeTab !== 'image'}>
                     <ImageGenerator apiKey={apiKey} />
                 </div>
                 <div className={activeTab === 'video' ? '' : 'hidden'} aria-hidden={activeTab !== 'video'}>
-                    <VideoGenerator apiKey={apiKey} />
+                    <VideoGenerator apiKey={apiKey} active={activeTab === 'video'} />
                 </div>
                 {activeTab === 'storybook_prompt' && <StorybookPromptGenerator />}
                 {activeTab === 'storybook' && <StorybookBuilder apiKey={apiKey} />}
+                {activeTab === 'library' && <MediaGallery onReuse={setActiveTab} />}
             </main>
             {/* CountAPI UI removed: GA-only analytics */}
         </div>
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { PromptData } from '../types';
+import { MAX_AUTOFILL_SHOTS, autofillFromLogline } from '../lib/promptAutofill';
+import { DiffSection, diffPromptData } from '../lib/promptDiff';
+import { LoaderIcon } from './icons';
+import { trackEvent } from '../analytics';
+
+interface AutofillDialogProps {
+    open: boolean;
+    apiKey: string;
+    current: PromptData;
+    onClose: () => void;
+    onApply: (data: PromptData) => void;
+}
+
+const STATUS_STYLES: Record<DiffSection['status'], string> = {
+    added: 'text-emerald-600 dark:text-emerald-400',
+    removed: 'text-red-600 dark:text-red-400',
+    changed: 'text-indigo-600 dark:text-indigo-400',
+};
+
+const AutofillDialog: React.FC<AutofillDialogProps> = ({ open, apiKey, current, onClose, onApply }) => {
+    const [logline, setLogline] = useState('');
+    const [shotCount, setShotCount] = useState(1);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<PromptData | null>(null);
+
+    if (!open) return null;
+
+    const diff = result ? diffPromptData(current, result) : [];
+
+    const handleClose = () => {
+        setResult(null);
+        setError(null);
+        onClose();
+    };
+
+    const handleGenerate = async () => {
+        if (!apiKey) { setError('Please set your API key.'); return; }
+        if (!logline.trim()) { setError('Describe the idea in a sentence first.'); return; }
+        setIsLoading(true);
+        setError(null);
+        setResult(null);
+        try {
+            const data = await autofillFromLogline(apiKey, logline.trim(), shotCount);
+            setResult(data);
+            try { trackEvent('prompt_autofill', { shots: shotCount, characters: data.characters.length }); } catch {}
+        } catch (err: any) {
+            console.error(err);
+            setError(err?.message || 'Failed to autofill the scene.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleApply = () => {
+        if (!result) return;
+        onApply(result);
+        try { trackEvent('prompt_autofill_apply', { changed_sections: diff.length }); } catch {}
+        handleClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-30 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Autofill from idea">
+            <div className="absolute inset-0 bg-black/50" onClick={handleClose} aria-hidden="true" />
+            <div className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg shadow-xl p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">Autofill from Idea</h2>
+                    <button onClick={handleClose} className="p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200/60 dark:hover:bg-gray-700/60" aria-label="Close autofill">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Gemini fills in characters, dialogue, environment and audio from a one-line idea, using the builder's own option lists. Review the changes before they replace the builder; you can undo afterwards too.</p>
+                <textarea
+                    value={logline}
+                    onChange={e => setLogline(e.target.value)}
+                    placeholder="e.g., Two street vendors in Jakarta argue over the last durian as a storm rolls in"
+                    rows={2}
+                    className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    aria-label="Logline"
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                        Shots
+                        <select value={shotCount} onChange={e => setShotCount(Number(e.target.value))} className="ml-2 bg-gray-200/50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md p-1">
+                            {Array.from({ length: MAX_AUTOFILL_SHOTS }, (_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+                        </select>
+                    </label>
+                    <button onClick={handleGenerate} disabled={isLoading || !logline.trim()} className="flex items-center px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors text-sm font-semibold">
+                        {isLoading && <LoaderIcon />}<span className={isLoading ? 'ml-2' : ''}>{result ? 'Try Again' : 'Generate'}</span>
+                    </button>
+                </div>
+
+                {error && (
+                    <div className="p-3 rounded-md bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 text-sm" role="alert">{error}</div>
+                )}
+
+                {result && (
+                    <div className="space-y-3">
+                        <p className="font-semibold text-sm text-gray-700 dark:text-gray-300">Changes — {diff.length ? `${diff.length} section${diff.length === 1 ? '' : 's'}` : 'none'}</p>
+                        {diff.map(section => (
+                            <div key={section.title} className="p-3 rounded-md bg-gray-50 dark:bg-gray-800/60 border border-gray-300 dark:border-gray-700 text-sm">
+                                <p className={`font-semibold mb-2 ${STATUS_STYLES[section.status]}`}>{section.title} <span className="font-normal text-xs">({section.status})</span></p>
+                                <dl className="grid grid-cols-[8rem_1fr] gap-x-3 gap-y-1">
+                                    {section.changes.map(change => (
+                                        <React.Fragment key={change.field}>
+                                            <dt className="text-gray-500 dark:text-gray-400">{change.field}</dt>
+                                            <dd className="whitespace-pre-wrap break-words">
+                                                {change.before && <span className="block line-through text-red-600 dark:text-red-400">{change.before}</span>}
+                                                {change.after && <span className="block text-emerald-700 dark:text-emerald-400">{change.after}</span>}
+                                            </dd>
+                                        </React.Fragment>
+                                    ))}
+                                </dl>
+                            </div>
+                        ))}
+                        <div className="flex justify-end gap-2">
+                            <button onClick={handleClose} className="px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors text-sm font-semibold">Cancel</button>
+                            <button onClick={handleApply} className="px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-semibold">Accept &amp; Replace Builder</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AutofillDialog;
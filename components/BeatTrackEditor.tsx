@@ -0,0 +1,209 @@
+import React, { useRef, useState } from 'react';
+import { ActionBeat, Dialogue } from '../types';
+import { CAMERA_MOVES, TARGET_CLIP_SECONDS } from '../constants';
+import { BEAT_SNAP_SECONDS, BeatProblem, snapSeconds, sortBeats } from '../lib/beats';
+import { PlusIcon, TrashIcon } from './icons';
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+    /** Distinguishes one drag from the next, so each becomes its own undo step. */
+    key: string;
+    beatId: string;
+    mode: DragMode;
+    originX: number;
+    start: number;
+    end: number;
+}
+
+interface BeatTrackEditorProps {
+    beats: ActionBeat[];
+    dialogues: Dialogue[];
+    /** Option text for a linkable line, e.g. `Budi: "Halo"`. */
+    lineLabel: (dialogue: Dialogue, index: number) => string;
+    problems: BeatProblem[];
+    clipLength?: number;
+    /** Adds a beat and returns its id. */
+    onAdd: () => string;
+    /** Every update of one drag carries the same `dragKey`, so the caller can merge them into one undo step. */
+    onUpdate: (beatId: string, patch: Partial<ActionBeat>, dragKey?: string) => void;
+    onDelete: (beatId: string) => void;
+}
+
+const LANE_HEIGHT = 40;
+
+/** Places overlapping beats on separate lanes so every block stays visible. */
+const assignLanes = (beats: ActionBeat[]) => {
+    const laneEnds: number[] = [];
+    const lanes = new Map<string, number>();
+    sortBeats(beats).forEach(beat => {
+        let lane = laneEnds.findIndex(end => end <= beat.start);
+        if (lane === -1) lane = laneEnds.length;
+        laneEnds[lane] = Math.max(beat.end, beat.start);
+        lanes.set(beat.id, lane);
+    });
+    return { lanes, count: Math.max(1, laneEnds.length) };
+};
+
+const BeatTrackEditor: React.FC<BeatTrackEditorProps> = ({ beats, dialogues, lineLabel, problems, clipLength = TARGET_CLIP_SECONDS, onAdd, onUpdate, onDelete }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const trackRef = useRef<HTMLDivElement | null>(null);
+    const dragRef = useRef<DragState | null>(null);
+
+    const sorted = sortBeats(beats);
+    const selected = beats.find(b => b.id === selectedId) ?? null;
+    const { lanes, count } = assignLanes(beats);
+    const percent = (seconds: number) => `${(Math.min(Math.max(seconds, 0), clipLength) / clipLength) * 100}%`;
+    const problemsOf = (beatId: string) => problems.filter(p => p.beatId === beatId);
+
+    const handlePointerDown = (e: React.PointerEvent, beat: ActionBeat, mode: DragMode) => {
+        e.stopPropagation();
+        setSelectedId(beat.id);
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        dragRef.current = { key: crypto.randomUUID(), beatId: beat.id, mode, originX: e.clientX, start: beat.start, end: beat.end };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const track = trackRef.current;
+        if (!drag || !track) return;
+        const delta = snapSeconds(((e.clientX - drag.originX) / track.clientWidth) * clipLength);
+        let { start, end } = drag;
+        if (drag.mode === 'move') {
+            const length = end - start;
+            start = Math.min(Math.max(0, start + delta), clipLength - length);
+            end = start + length;
+        } else if (drag.mode === 'start') {
+            start = Math.min(Math.max(0, start + delta), end - BEAT_SNAP_SECONDS);
+        } else {
+            end = Math.max(Math.min(clipLength, end + delta), start + BEAT_SNAP_SECONDS);
+        }
+        const beat = beats.find(b => b.id === drag.beatId);
+        if (beat && (beat.start !== start || beat.end !== end)) onUpdate(drag.beatId, { start, end }, drag.key);
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const handleAdd = () => {
+        setSelectedId(onAdd());
+    };
+
+    const timeInput = (label: string, value: number, onChange: (value: number) => void) => (
+        <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+            <input
+                type="number"
+                min={0}
+                max={clipLength}
+                step={BEAT_SNAP_SECONDS}
+                value={value}
+                onChange={e => e.target.value !== '' && onChange(Number(e.target.value))}
+                className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+        </div>
+    );
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Drag a beat to move it, or its edges to resize. The clip is {clipLength}s long.</p>
+                <button onClick={handleAdd} className="flex items-center text-sm bg-indigo-600 text-white px-3 py-1.5 rounded-md hover:bg-indigo-700 transition-colors"><PlusIcon /> <span className="ml-2">Add Beat</span></button>
+            </div>
+
+            <div className="select-none">
+                <div className="relative h-5 text-[10px] text-gray-500 dark:text-gray-400">
+                    {Array.from({ length: clipLength + 1 }, (_, s) => (
+                        <span key={s} className="absolute -translate-x-1/2" style={{ left: percent(s) }}>{s}s</span>
+                    ))}
+                </div>
+                <div
+                    ref={trackRef}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onClick={() => setSelectedId(null)}
+                    className="relative rounded-md bg-gray-200/60 dark:bg-gray-900/60 border border-gray-300 dark:border-gray-700"
+                    style={{ height: count * LANE_HEIGHT + 8 }}
+                >
+                    {Array.from({ length: clipLength - 1 }, (_, i) => (
+                        <div key={i} className="absolute top-0 bottom-0 w-px bg-gray-300 dark:bg-gray-700" style={{ left: percent(i + 1) }} />
+                    ))}
+                    {sorted.map((beat, index) => {
+                        const issues = problemsOf(beat.id);
+                        const tone = issues.some(p => p.severity === 'error') ? 'ring-2 ring-red-500' : issues.length ? 'ring-2 ring-yellow-400' : '';
+                        const isSelected = beat.id === selectedId;
+                        return (
+                            <div
+                                key={beat.id}
+                                onPointerDown={e => handlePointerDown(e, beat, 'move')}
+                                onClick={e => e.stopPropagation()}
+                                title={issues.map(p => `Beat ${p.number} ${p.message}`).join('\n') || beat.action}
+                                className={`absolute rounded-md px-2 text-xs text-white overflow-hidden whitespace-nowrap cursor-grab active:cursor-grabbing flex items-center ${isSelected ? 'bg-indigo-600' : 'bg-indigo-500/80 hover:bg-indigo-500'} ${tone}`}
+                                style={{
+                                    left: percent(beat.start),
+                                    width: `calc(${percent(Math.max(beat.end, beat.start))} - ${percent(beat.start)})`,
+                                    minWidth: 12,
+                                    top: 4 + (lanes.get(beat.id) ?? 0) * LANE_HEIGHT,
+                                    height: LANE_HEIGHT - 6,
+                                }}
+                            >
+                                <span
+                                    onPointerDown={e => handlePointerDown(e, beat, 'start')}
+                                    className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize bg-white/20"
+                                    aria-hidden="true"
+                                />
+                                <span className="truncate pl-1 pr-1">{index + 1}. {beat.action || beat.camera || 'Beat'}</span>
+                                <span
+                                    onPointerDown={e => handlePointerDown(e, beat, 'end')}
+                                    className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize bg-white/20"
+                                    aria-hidden="true"
+                                />
+                            </div>
+                        );
+                    })}
+                    {beats.length === 0 && (
+                        <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">No beats yet. The whole clip follows the scene description.</p>
+                    )}
+                </div>
+            </div>
+
+            {selected && (
+                <div className="bg-gray-50/50 dark:bg-gray-900/50 p-4 rounded-lg border border-gray-300 dark:border-gray-700 space-y-3">
+                    <div className="flex justify-between items-center">
+                        <h3 className="font-semibold text-md text-indigo-600 dark:text-indigo-400">Beat {sorted.findIndex(b => b.id === selected.id) + 1}</h3>
+                        <button onClick={() => { onDelete(selected.id); setSelectedId(null); }} className="text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300 p-1 rounded-full bg-red-500/10 hover:bg-red-500/20" aria-label="Delete beat"><TrashIcon /></button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        {timeInput('Start (s)', selected.start, value => onUpdate(selected.id, { start: value }))}
+                        {timeInput('End (s)', selected.end, value => onUpdate(selected.id, { end: value }))}
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Action</label>
+                        <textarea value={selected.action} onChange={e => onUpdate(selected.id, { action: e.target.value })} rows={2} placeholder="e.g., Budi turns toward the door" className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500" />
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Camera Move</label>
+                            <input type="text" list="beat-camera-moves" value={selected.camera} onChange={e => onUpdate(selected.id, { camera: e.target.value })} placeholder="Keep shot style" className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500" />
+                            <datalist id="beat-camera-moves">{CAMERA_MOVES.map(m => <option key={m} value={m} />)}</datalist>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Dialogue Line</label>
+                            <select value={selected.dialogueId ?? ''} onChange={e => onUpdate(selected.id, { dialogueId: e.target.value || undefined })} className="appearance-none w-full bg-gray-200/50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500">
+                                <option value="">None</option>
+                                {dialogues.map((d, i) => <option key={d.id} value={d.id}>{lineLabel(d, i)}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    {problemsOf(selected.id).map(p => (
+                        <p key={p.kind} className={`text-sm ${p.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-yellow-700 dark:text-yellow-300'}`}>This beat {p.message}</p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BeatTrackEditor;
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LibraryCharacter } from '../types';
+import { RACES, GENDERS, VOICES, CHARACTER_STYLES } from '../constants';
+import { characterLibrary, createLibraryCharacter, describeCharacter, filterLibrary, normalizeTags } from '../lib/characterLibrary';
+import { PlusIcon, TrashIcon } from './icons';
+import { trackEvent } from '../analytics';
+
+interface CharacterLibraryPanelProps {
+    open: boolean;
+    onClose: () => void;
+    onInsert?: (entry: LibraryCharacter) => void;
+    insertLabel?: string;
+}
+
+const inputClass = "w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+const CharacterLibraryPanel: React.FC<CharacterLibraryPanelProps> = ({ open, onClose, onInsert, insertLabel = 'Insert' }) => {
+    const [items, setItems] = useState<LibraryCharacter[]>([]);
+    const [query, setQuery] = useState('');
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [draft, setDraft] = useState<LibraryCharacter | null>(null);
+    const [tagInput, setTagInput] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        return characterLibrary.subscribe(setItems);
+    }, [open]);
+
+    // One object URL per stored image, revoked when the list changes or the panel closes
+    const previews = useMemo<Record<string, string>>(() => {
+        const map: Record<string, string> = {};
+        items.forEach(item => { if (item.referenceImage) map[item.id] = URL.createObjectURL(item.referenceImage); });
+        return map;
+    }, [items]);
+    useEffect(() => () => { Object.keys(previews).forEach(id => URL.revokeObjectURL(previews[id])); }, [previews]);
+
+    const draftPreview = useMemo(() => draft?.referenceImage ? URL.createObjectURL(draft.referenceImage) : null, [draft?.referenceImage]);
+    useEffect(() => () => { if (draftPreview) URL.revokeObjectURL(draftPreview); }, [draftPreview]);
+
+    const allTags = useMemo(() => Array.from(new Set(items.flatMap(i => i.tags))).sort(), [items]);
+    const visible = useMemo(() => filterLibrary(items, query, tagFilter), [items, query, tagFilter]);
+
+    if (!open) return null;
+
+    const startEdit = (entry: LibraryCharacter) => {
+        setDraft({ ...entry });
+        setTagInput(entry.tags.join(', '));
+        setError(null);
+    };
+
+    const updateDraft = (field: keyof LibraryCharacter, value: any) => {
+        setDraft(prev => prev ? { ...prev, [field]: value } : prev);
+    };
+
+    const handleDraftImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) {
+            if (file.size > 4 * 1024 * 1024) { // Same 4MB limit as the video reference image
+                setError("Image size should not exceed 4MB.");
+            } else {
+                setError(null);
+                updateDraft('referenceImage', file);
+            }
+        }
+        e.target.value = '';
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        if (!draft.name.trim()) { setError('Please give the character a name.'); return; }
+        try {
+            await characterLibrary.save({ ...draft, tags: normalizeTags(tagInput.split(',')) });
+            try { trackEvent('character_library_save', { has_image: !!draft.referenceImage }); } catch {}
+            setDraft(null);
+        } catch (err: any) {
+            setError(err?.message || 'Failed to save character.');
+        }
+    };
+
+    const handleDuplicate = async (id: string) => {
+        try { await characterLibrary.duplicate(id); } catch (err: any) { setError(err?.message || 'Failed to duplicate character.'); }
+    };
+
+    const handleDelete = async (entry: LibraryCharacter) => {
+        if (!confirm(`Delete "${entry.name || 'Unnamed'}" from the library?`)) return;
+        try { await characterLibrary.remove(entry.id); } catch (err: any) { setError(err?.message || 'Failed to delete character.'); }
+    };
+
+    const handleInsert = (entry: LibraryCharacter) => {
+        if (!onInsert) return;
+        onInsert(entry);
+        try { trackEvent('character_library_insert', { has_image: !!entry.referenceImage }); } catch {}
+        onClose();
+    };
+
+    const renderDraftSelect = (label: string, field: keyof LibraryCharacter, options: readonly string[]) => (
+        <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+            <select value={draft?.[field] as string} onChange={e => updateDraft(field, e.target.value)} className={`appearance-none ${inputClass}`}>
+                {options.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+            </select>
+        </div>
+    );
+
+    const renderDraftInput = (label: string, field: keyof LibraryCharacter, placeholder = '') => (
+        <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+            <input type="text" value={draft?.[field] as string} onChange={e => updateDraft(field, e.target.value)} placeholder={placeholder} className={inputClass} />
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 z-30 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Character Library">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} aria-hidden="true" />
+            <div className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg shadow-xl p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">Character Library</h2>
+                    <button onClick={onClose} className="p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200/60 dark:hover:bg-gray-700/60" aria-label="Close library">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+                {error && <p className="mb-3 text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+
+                {draft ? (
+                    <div className="space-y-4">
+                        {renderDraftInput('Name', 'name', 'e.g., Budi')}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {renderDraftSelect('Character Style', 'characterStyle', CHARACTER_STYLES)}
+                            {renderDraftSelect('Race/Ethnicity', 'race', RACES)}
+                            {draft.race === 'Other (Custom)' && renderDraftInput('Custom Race', 'customRace', 'e.g., Elf, Cyborg')}
+                            {renderDraftSelect('Gender', 'gender', GENDERS)}
+                            {renderDraftInput('Age', 'age', 'e.g., 25')}
+                            {renderDraftInput('Outfit', 'outfit', 'e.g., Leather jacket and jeans')}
+                            {renderDraftInput('Hairstyle', 'hairstyle', 'e.g., Short')}
+                            {renderDraftSelect('Voice', 'voice', VOICES)}
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description / Action</label>
+                            <textarea value={draft.description} onChange={e => updateDraft('description', e.target.value)} rows={2} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tags (comma separated)</label>
+                            <input type="text" value={tagInput} onChange={e => setTagInput(e.target.value)} placeholder="e.g., series-1, hero" className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Reference Image (optional)</label>
+                            {draftPreview ? (
+                                <div className="flex items-center gap-3">
+                                    <img src={draftPreview} alt="Reference preview" className="w-20 h-20 object-cover rounded-md border border-gray-300 dark:border-gray-600" />
+                                    <button onClick={() => updateDraft('referenceImage', null)} className="flex items-center text-sm text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300"><TrashIcon/> <span className="ml-1">Remove Image</span></button>
+                                </div>
+                            ) : (
+                                <input type="file" accept="image/png, image/jpeg, image/webp" onChange={handleDraftImage} className="text-sm" />
+                            )}
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{describeCharacter(draft)}</p>
+                        <div className="flex justify-end gap-2">
+                            <button onClick={() => setDraft(null)} className="px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors text-sm font-semibold">Cancel</button>
+                            <button onClick={handleSave} className="px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-semibold">Save Character</button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <input type="search" value={query} onChange={e => setQuery(e.target.value)} placeholder="Search by name, look or tag" className={`flex-1 min-w-0 ${inputClass}`} aria-label="Search characters" />
+                            <button onClick={() => startEdit(createLibraryCharacter())} className="flex items-center text-sm bg-indigo-600 text-white px-3 py-2 rounded-md hover:bg-indigo-700 transition-colors"><PlusIcon/> <span className="ml-2">New Character</span></button>
+                        </div>
+                        {allTags.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                                <button onClick={() => setTagFilter(null)} className={`px-2 py-1 text-xs rounded-full ${tagFilter === null ? 'bg-indigo-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}>All</button>
+                                {allTags.map(tag => (
+                                    <button key={tag} onClick={() => setTagFilter(tag === tagFilter ? null : tag)} className={`px-2 py-1 text-xs rounded-full ${tagFilter === tag ? 'bg-indigo-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}>#{tag}</button>
+                                ))}
+                            </div>
+                        )}
+                        {visible.length === 0 ? (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">{items.length ? 'No characters match your search.' : 'Your library is empty. Save a character from the prompt builder or create one here.'}</p>
+                        ) : (
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                {visible.map(entry => (
+                                    <div key={entry.id} className="flex gap-3 p-3 rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-800/50">
+                                        {previews[entry.id] ? (
+                                            <img src={previews[entry.id]} alt={entry.name} className="w-16 h-16 object-cover rounded-md border border-gray-300 dark:border-gray-600 flex-shrink-0" />
+                                        ) : (
+                                            <div className="w-16 h-16 rounded-md bg-gray-200 dark:bg-gray-700 flex-shrink-0" />
+                                        )}
+                                        <div className="min-w-0 flex-grow">
+                                            <p className="font-semibold text-indigo-600 dark:text-indigo-400 truncate">{entry.name || 'Unnamed'}</p>
+                                            <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2">{describeCharacter(entry)}</p>
+                                            {entry.tags.length > 0 && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">{entry.tags.map(t => `#${t}`).join(' ')}</p>}
+                                            <div className="flex flex-wrap gap-2 mt-2">
+                                                {onInsert && <button onClick={() => handleInsert(entry)} className="text-xs px-2 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700">{insertLabel}</button>}
+                                                <button onClick={() => startEdit(entry)} className="text-xs px-2 py-1 rounded bg-gray-700 text-white hover:bg-gray-600">Edit</button>
+                                                <button onClick={() => handleDuplicate(entry.id)} className="text-xs px-2 py-1 rounded bg-gray-700 text-white hover:bg-gray-600">Duplicate</button>
+                                                <button onClick={() => handleDelete(entry)} className="text-xs px-2 py-1 rounded text-red-600 hover:text-red-700">Delete</button>
+                                            </div>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CharacterLibraryPanel;
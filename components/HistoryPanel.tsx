@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { HistoryItem } from '../lib/useUndoHistory';
+
+interface HistoryPanelProps {
+    items: HistoryItem[];
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    /** Number of actions to keep applied: 0 restores the initial state. */
+    onJump: (index: number) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ items, canUndo, canRedo, onUndo, onRedo, onJump }) => {
+    const [open, setOpen] = useState(false);
+    const appliedCount = items.filter(item => item.applied).length;
+
+    return (
+        <div className="relative flex items-center justify-end gap-2 mb-4">
+            <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="text-sm px-3 py-1.5 rounded-md bg-gray-600 text-white hover:bg-gray-500 disabled:opacity-50 transition-colors">Undo</button>
+            <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="text-sm px-3 py-1.5 rounded-md bg-gray-600 text-white hover:bg-gray-500 disabled:opacity-50 transition-colors">Redo</button>
+            <button onClick={() => setOpen(v => !v)} aria-expanded={open} className="text-sm px-3 py-1.5 rounded-md bg-gray-200/60 dark:bg-gray-700/60 text-gray-700 dark:text-gray-300 hover:bg-gray-300/60 dark:hover:bg-gray-600/60 transition-colors">
+                History ({items.length})
+            </button>
+            {open && (
+                <ol className="absolute right-0 top-full mt-2 z-10 w-72 max-h-80 overflow-y-auto bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg shadow-xl p-2 text-sm">
+                    <li>
+                        <button onClick={() => onJump(0)} className={`w-full text-left px-2 py-1 rounded hover:bg-gray-200/60 dark:hover:bg-gray-700/60 ${appliedCount === 0 ? 'font-semibold text-indigo-600 dark:text-indigo-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                            Start
+                        </button>
+                    </li>
+                    {items.map((item, i) => (
+                        <li key={i}>
+                            <button
+                                onClick={() => onJump(i + 1)}
+                                className={`w-full text-left px-2 py-1 rounded hover:bg-gray-200/60 dark:hover:bg-gray-700/60 ${i + 1 === appliedCount ? 'font-semibold text-indigo-600 dark:text-indigo-400' : item.applied ? 'text-gray-700 dark:text-gray-300' : 'text-gray-400 dark:text-gray-500 line-through'}`}
+                            >
+                                {item.label}
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -3,7 +3,13 @@ import InputGroup from './InputGroup';
 import { LoaderIcon, TrashIcon } from './icons';
 import { GoogleGenAI, PersonGeneration, RawReferenceImage, Modality } from '@google/genai';
 import { trackEvent } from '../analytics';
-import { RequestQueue, QueueSnapshot } from '../lib/requestQueue';
+import { RequestQueue, QueueSnapshot, isCancelledError } from '../lib/requestQueue';
+import { LibraryCharacter } from '../types';
+import { describeCharacter, referenceImageFile } from '../lib/characterLibrary';
+import CharacterLibraryPanel from './CharacterLibraryPanel';
+import { ImageHandoff, handoffStore } from '../lib/handoff';
+import QueueCancelButtons from './QueueCancelButtons';
+import { ImageMediaSettings, dataUrlToBlob, reuseStore, saveToLibrary } from '../lib/mediaLibrary';
 
 interface ImageGeneratorProps {
   apiKey: string;
@@ -57,12 +63,46 @@ const fileToBase64 = (file: File): Promise<string> => new Promise((resolve, reje
   reader.onerror = reject;
 });
 
+/** Stores each result with the job's settings so the media library can load them back. */
+const saveImagesToLibrary = async (urls: string[], context: ImageJobInput, prompt: string) => {
+  const jobId = crypto.randomUUID();
+  const settings: ImageMediaSettings = {
+    prompt,
+    technique: context.technique,
+    modelId: context.technique === 'Photo Edit (Gemini 2.5)' ? 'gemini-2.5-flash-image-preview' : context.modelId,
+    stylePreset: context.stylePreset,
+    customStyle: context.customStyle,
+    size: context.size,
+    count: context.count,
+    aspectRatio: context.aspectRatio,
+    outputMimeType: context.outputMimeType,
+    includeRaiReason: context.includeRaiReason,
+    personGen: context.personGen,
+  };
+  for (const [index, url] of urls.entries()) {
+    try {
+      saveToLibrary({
+        kind: 'image',
+        generator: 'image',
+        blob: await dataUrlToBlob(url),
+        label: urls.length > 1 ? `Image ${index + 1} of ${urls.length}` : '',
+        jobId,
+        settings,
+      });
+    } catch (err) {
+      console.error('Could not save to the media library', err);
+    }
+  }
+};
+
 const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
   const [prompt, setPrompt] = useState('');
   const [technique, setTechnique] = useState<string>(TECHNIQUES[0]);
   // Default to Imagen 3 by request
   const [imageModel, setImageModel] = useState<string>('imagen-3.0-generate-002');
   const [availableModels, setAvailableModels] = useState<string[]>(DEFAULT_IMAGE_MODELS);
+  const availableModelsRef = React.useRef(availableModels);
+  availableModelsRef.current = availableModels;
   const [isListingModels, setIsListingModels] = useState(false);
   const [listMessage, setListMessage] = useState('');
   const [autoDetected, setAutoDetected] = useState<boolean>(false);
@@ -84,6 +124,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
 
   const [refImages, setRefImages] = useState<File[]>([]);
   const [refPreviews, setRefPreviews] = useState<string[]>([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
 
   const [isLoading, setIsLoading] = useState(false);
   const [status, setStatus] = useState('');
@@ -233,7 +274,60 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
     e.target.value = '';
   };
 
-  const performImageGeneration = async (context: ImageJobInput) => {
+  const insertLibraryCharacter = (entry: LibraryCharacter) => {
+    const description = describeCharacter(entry);
+    setPrompt(prev => prev.includes(description) ? prev : (prev.trim() ? `${description}\n\n${prev}` : description));
+    const file = referenceImageFile(entry);
+    if (file) {
+      setRefImages(prev => [...prev, file]);
+      setRefPreviews(prev => [...prev, URL.createObjectURL(file)]);
+      // Plain text-to-image would ignore the reference, so switch to a technique that uses it
+      if (technique === 'Text to Image') setTechnique('Image to Image');
+    }
+  };
+
+  // Prompts sent from the prompt builder replace the prompt, references and derived settings
+  React.useEffect(() => handoffStore.subscribe('image', (handoff: ImageHandoff) => {
+    setPrompt(handoff.prompt);
+    setBoostedPrompt('');
+    setUseEnhancedForGeneration(false);
+    setAspectRatio(handoff.aspectRatio);
+    setStylePreset(handoff.stylePreset as StylePreset);
+    setRefImages(handoff.referenceImages);
+    setRefPreviews(prev => {
+      for (const url of prev) { try { URL.revokeObjectURL(url); } catch {} }
+      return handoff.referenceImages.map(f => URL.createObjectURL(f));
+    });
+    if (handoff.referenceImages.length) setTechnique(prev => (prev === 'Text to Image' ? 'Image to Image' : prev));
+    setError(null);
+    setStatus('Prompt received from the prompt builder.');
+  }), []);
+
+  React.useEffect(() => reuseStore.subscribe('image', (settings: ImageMediaSettings) => {
+    setPrompt(settings.prompt);
+    setBoostedPrompt('');
+    setUseEnhancedForGeneration(false);
+    setTechnique(settings.technique);
+    if (settings.technique !== 'Photo Edit (Gemini 2.5)') {
+      const listed = availableModelsRef.current.includes(settings.modelId);
+      setUseCustomModel(!listed);
+      if (listed) setImageModel(settings.modelId);
+      else setCustomModelId(settings.modelId);
+    }
+    setStylePreset(settings.stylePreset as StylePreset);
+    setCustomStyle(settings.customStyle);
+    setSize(settings.size);
+    setCount(settings.count);
+    setAspectRatio(settings.aspectRatio);
+    setOutputMimeType(settings.outputMimeType === 'image/png' ? 'image/png' : 'image/jpeg');
+    setIncludeRaiReason(settings.includeRaiReason);
+    setPersonGen(settings.personGen === 'Allow Adult' ? 'Allow Adult' : 'Unspecified');
+    setImages([]);
+    setError(null);
+    setStatus(settings.technique === 'Text to Image' ? 'Settings loaded from the media library.' : 'Settings loaded from the media library. Add the reference image(s) again.');
+  }), []);
+
+  const performImageGeneration = async (context: ImageJobInput, signal: AbortSignal) => {
     const {
       apiKey: ctxApiKey,
       prompt: ctxPrompt,
@@ -275,6 +369,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
           const base64 = await fileToBase64(file);
           imagePayloads.push({ imageBytes: base64, mimeType: file.type });
         }
+        signal.throwIfAborted();
       }
 
       const additions: string[] = [];
@@ -300,7 +395,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
                 { text: fullPrompt }
               ]
             },
-            config: { responseModalities: [Modality.IMAGE, Modality.TEXT] }
+            config: { responseModalities: [Modality.IMAGE, Modality.TEXT], abortSignal: signal }
           });
           const out: string[] = [];
           const dataStr = (gc as any).data as string | undefined;
@@ -317,6 +412,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
           }
           if (!out.length) throw new Error('No image returned by Gemini Photo Edit.');
           setImages(out);
+          void saveImagesToLibrary(out, context, finalPrompt);
           setStatus('Done');
           try { trackEvent('generate_image_success', { count: out.length, mode: 'gemini_edit' }); } catch {}
           return;
@@ -337,6 +433,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
               personGeneration: ctxPersonGen === 'Allow Adult' ? PersonGeneration.ALLOW_ADULT : undefined,
               outputMimeType: ctxOutputMimeType,
               includeRaiReason: ctxIncludeRaiReason,
+              abortSignal: signal,
             }
           });
         } else {
@@ -349,12 +446,13 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
               personGeneration: ctxPersonGen === 'Allow Adult' ? PersonGeneration.ALLOW_ADULT : undefined,
               outputMimeType: ctxOutputMimeType,
               includeRaiReason: ctxIncludeRaiReason,
+              abortSignal: signal,
             }
           });
         }
       } catch (err: any) {
         const msg = String(err?.message || err || '');
-        const canFallbackFast = /not[_\s-]?found|404/i.test(msg) && /-fast-generate-001$/i.test(ctxModelId);
+        const canFallbackFast = !signal.aborted && /not[_\s-]?found|404/i.test(msg) && /-fast-generate-001$/i.test(ctxModelId);
         if (canFallbackFast) {
           const fallbackModel = ctxModelId.replace(/-fast-generate-001$/i, '-generate-001');
           try {
@@ -377,6 +475,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
                   personGeneration: ctxPersonGen === 'Allow Adult' ? PersonGeneration.ALLOW_ADULT : undefined,
                   outputMimeType: ctxOutputMimeType,
                   includeRaiReason: ctxIncludeRaiReason,
+                  abortSignal: signal,
                 }
               });
             } else {
@@ -389,6 +488,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
                   personGeneration: ctxPersonGen === 'Allow Adult' ? PersonGeneration.ALLOW_ADULT : undefined,
                   outputMimeType: ctxOutputMimeType,
                   includeRaiReason: ctxIncludeRaiReason,
+                  abortSignal: signal,
                 }
               });
             }
@@ -421,7 +521,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
           continue;
         }
         if (!uri) continue;
-        const response = await fetch(`${uri}&key=${ctxApiKey}`);
+        const response = await fetch(`${uri}&key=${ctxApiKey}`, { signal });
         if (!response.ok) {
           throw new Error(`Failed to download image: ${response.statusText}`);
         }
@@ -435,9 +535,14 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
       }
 
       setImages(urls);
+      void saveImagesToLibrary(urls, context, finalPrompt);
       setStatus('Done');
       try { trackEvent('generate_image_success', { count: urls.length, mode: ctxTechnique.toLowerCase().replace(/\s+/g, '_') }); } catch {}
     } catch (err: any) {
+      if (isCancelledError(err)) {
+        try { trackEvent('generate_image_cancelled'); } catch {}
+        throw err;
+      }
       const msg = String(err?.message || err || 'An unknown error occurred during image generation.');
       setError(msg);
       try { trackEvent('generate_image_error', { message: msg.slice(0, 120) }); } catch {}
@@ -598,19 +703,30 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
     setImages([]);
     setStatus('Queued — waiting to start...');
 
-    const job = imageQueue.enqueue(() => performImageGeneration(jobContext), { description: 'Image generation' });
+    const job = imageQueue.enqueue((signal) => performImageGeneration(jobContext, signal), { description: 'Image generation' });
     setActiveQueueJobId(job.id);
 
     try {
       await job.promise;
-    } catch (_) {
+    } catch (err) {
       // Errors handled within performImageGeneration.
+      if (isCancelledError(err)) setStatus('Cancelled.');
     } finally {
       setIsLoading(false);
       setActiveQueueJobId(null);
     }
   };
 
+  const cancelActiveJob = () => {
+    if (!activeQueueJobId) return;
+    if (imageQueue.cancel(activeQueueJobId)) setStatus('Cancelling...');
+  };
+
+  const cancelAllJobs = () => {
+    imageQueue.cancelAll();
+    setStatus('Cancelling...');
+  };
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
       <div className="space-y-6">
@@ -621,6 +737,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
             placeholder="Describe the image you want to generate..."
             className="w-full h-28 bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500"
           />
+          <p className="text-xs text-gray-500 dark:text-gray-400">Negative prompts are not available for Imagen or Gemini Photo Edit through the Gemini API; describe what to avoid in the prompt instead.</p>
         </InputGroup>
 
         <InputGroup title="Prompt Assistant (Gemini 2.5)">
@@ -798,6 +915,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
             <p className="text-sm text-gray-600 dark:text-gray-400">Use one or more images to guide Image to Image or Photo Edit.</p>
             <div className="flex items-center gap-3">
               <input type="file" accept="image/*" multiple onChange={handleRefChange} className="text-sm" />
+              <button type="button" onClick={() => setIsLibraryOpen(true)} className="px-3 py-2 rounded-md bg-gray-600 text-white hover:bg-gray-500 text-sm">From Library</button>
               {refPreviews.length > 0 && (
                 <button onClick={clearRefs} className="px-3 py-2 rounded-md bg-red-600 text-white hover:bg-red-700 inline-flex items-center gap-2"><TrashIcon/>Clear All</button>
               )}
@@ -827,6 +945,7 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
         </div>
       </div>
 
+      <CharacterLibraryPanel open={isLibraryOpen} onClose={() => setIsLibraryOpen(false)} onInsert={insertLibraryCharacter} insertLabel="Use as Reference" />
       <div className="sticky top-[150px] h-fit flex flex-col justify-center items-center bg-white/50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg p-4 min-h-[400px] backdrop-blur-sm">
         {isLoading ? (
           <div className="text-center" role="status" aria-live="polite">
@@ -835,6 +954,13 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ apiKey }) => {
             <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5 mt-2">
               <div className="bg-indigo-600 h-2.5 rounded-full animate-pulse w-3/4 mx-auto"></div>
             </div>
+            {activeQueueJobId && (
+              <QueueCancelButtons
+                onCancel={cancelActiveJob}
+                onCancelAll={cancelAllJobs}
+                jobCount={queueSnapshot.queuedIds.length + (queueSnapshot.activeTaskId ? 1 : 0)}
+              />
+            )}
           </div>
         ) : error ? (
           <div className="w-full p-4 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 rounded-lg break-words max-h-48 overflow-auto overflow-x-hidden" role="alert">
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { LintConfig, LintFix, LintIssue, LintRule, LintSeverity } from '../lib/promptLint';
+
+interface LintPanelProps<T> {
+    issues: LintIssue<T>[];
+    rules: LintRule<T>[];
+    config: LintConfig;
+    onConfigChange: (config: LintConfig) => void;
+    onFix: (fix: LintFix<T>, issue: LintIssue<T>) => void;
+}
+
+const SEVERITY_STYLES: Record<LintSeverity, string> = {
+    error: 'bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300',
+    warning: 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-200',
+    info: 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+};
+
+const LintPanel = <T,>({ issues, rules, config, onConfigChange, onFix }: LintPanelProps<T>) => {
+    const [showSettings, setShowSettings] = useState(false);
+    const [expanded, setExpanded] = useState(true);
+
+    const toggleRule = (id: string) => {
+        const disabled = config.disabled.includes(id)
+            ? config.disabled.filter(r => r !== id)
+            : [...config.disabled, id];
+        onConfigChange({ ...config, disabled });
+    };
+
+    const counts = issues.reduce<Record<LintSeverity, number>>((acc, issue) => {
+        acc[issue.severity] += 1;
+        return acc;
+    }, { error: 0, warning: 0, info: 0 });
+
+    const summary = issues.length
+        ? (['error', 'warning', 'info'] as const).filter(s => counts[s]).map(s => `${counts[s]} ${s}${counts[s] === 1 ? '' : 's'}`).join(', ')
+        : 'No issues found';
+
+    return (
+        <div className="bg-white/50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg shadow-lg backdrop-blur-sm">
+            <div className="flex justify-between items-center gap-2 p-4 border-b border-gray-300 dark:border-gray-700">
+                <button onClick={() => setExpanded(v => !v)} className="text-left" aria-expanded={expanded}>
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Prompt Check</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{summary}</p>
+                </button>
+                <button onClick={() => setShowSettings(v => !v)} className="text-xs px-2 py-1 rounded bg-gray-600 text-white hover:bg-gray-500" aria-expanded={showSettings}>
+                    {showSettings ? 'Done' : 'Rules'}
+                </button>
+            </div>
+            {showSettings && (
+                <div className="p-4 space-y-2 border-b border-gray-300 dark:border-gray-700 text-sm">
+                    {rules.map(rule => (
+                        <label key={rule.id} className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+                            <input type="checkbox" className="mt-1" checked={!config.disabled.includes(rule.id)} onChange={() => toggleRule(rule.id)} />
+                            <span><span className="font-medium">{rule.label}</span> <span className="text-xs text-gray-500 dark:text-gray-400">— {rule.description}</span></span>
+                        </label>
+                    ))}
+                    <label className="flex items-center gap-2 pt-2 text-gray-700 dark:text-gray-300">
+                        Max prompt length
+                        <input
+                            type="number"
+                            min={100}
+                            step={100}
+                            value={config.maxPromptLength}
+                            onChange={e => onConfigChange({ ...config, maxPromptLength: Math.max(100, Number(e.target.value) || 0) })}
+                            className="w-24 bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md p-1"
+                        />
+                        characters
+                    </label>
+                </div>
+            )}
+            {expanded && issues.length > 0 && (
+                <ul className="p-4 space-y-2 max-h-64 overflow-y-auto text-sm">
+                    {issues.map((issue, i) => (
+                        <li key={`${issue.ruleId}-${i}`} className="flex items-start gap-2">
+                            <span className={`shrink-0 px-1.5 py-0.5 rounded text-xs font-semibold uppercase ${SEVERITY_STYLES[issue.severity]}`}>{issue.severity}</span>
+                            <div className="flex-grow min-w-0 text-gray-700 dark:text-gray-300">
+                                <span className="font-medium text-gray-900 dark:text-white">{issue.location}:</span> {issue.message}
+                                {issue.suggestion && <p className="text-xs text-gray-500 dark:text-gray-400">{issue.suggestion}</p>}
+                            </div>
+                            {issue.fix && (
+                                <button onClick={() => onFix(issue.fix as LintFix<T>, issue)} className="shrink-0 text-xs px-2 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700">
+                                    {issue.fix.label}
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default LintPanel;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { PROMPT_LOCALES } from '../lib/locales';
+
+interface LocalePickerProps {
+    selected: string[];
+    onChange: (ids: string[]) => void;
+}
+
+const LocalePicker: React.FC<LocalePickerProps> = ({ selected, onChange }) => {
+    const toggle = (id: string) => {
+        if (selected.includes(id)) {
+            // Keep at least one output visible
+            if (selected.length > 1) onChange(selected.filter(s => s !== id));
+        } else {
+            onChange([...selected, id]);
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2" aria-label="Output languages">
+            <span className="text-sm text-gray-600 dark:text-gray-400">Languages:</span>
+            {PROMPT_LOCALES.map(locale => (
+                <button
+                    key={locale.id}
+                    onClick={() => toggle(locale.id)}
+                    aria-pressed={selected.includes(locale.id)}
+                    className={`px-2 py-1 text-xs rounded-md ${selected.includes(locale.id) ? 'bg-indigo-600 text-white' : 'bg-gray-200/60 dark:bg-gray-700/60 text-gray-700 dark:text-gray-300'}`}
+                >
+                    {locale.label}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default LocalePicker;
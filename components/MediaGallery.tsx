@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MediaFilter, MediaGenerator, MediaItem, MediaKind, StorageUsage, filterMedia, formatBytes, mediaFileName, mediaLibrary, reuseStore, storageUsage } from '../lib/mediaLibrary';
+import { TrashIcon } from './icons';
+import { trackEvent } from '../analytics';
+
+interface MediaGalleryProps {
+    /** Opens the generator an item's settings were just sent to. */
+    onReuse: (generator: MediaGenerator) => void;
+}
+
+const KIND_FILTERS: { value: MediaKind | 'all'; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'video', label: 'Videos' },
+    { value: 'image', label: 'Images' },
+    { value: 'story_page', label: 'Story Pages' },
+];
+
+const GENERATOR_NAMES: Record<MediaGenerator, string> = {
+    video: 'Video Generator',
+    image: 'Image Generator',
+    storybook: 'Storybook Builder',
+};
+
+const inputClass = "w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+/** One line of the settings an item was made with, for its card. */
+const settingsSummary = (item: MediaItem): string => {
+    switch (item.kind) {
+        case 'video': {
+            const s = item.settings;
+            return [s.modelId, s.aspectRatio, `${s.duration}s`, s.resolution].filter(Boolean).join(' · ');
+        }
+        case 'image': {
+            const s = item.settings;
+            return [s.modelId, s.technique, s.aspectRatio, s.stylePreset !== 'Default' ? s.stylePreset : ''].filter(Boolean).join(' · ');
+        }
+        case 'story_page':
+            return [item.settings.artStyle, item.settings.ageGroup].join(' · ');
+    }
+};
+
+const MediaGallery: React.FC<MediaGalleryProps> = ({ onReuse }) => {
+    const [items, setItems] = useState<MediaItem[]>([]);
+    const [filter, setFilter] = useState<MediaFilter>({ kind: 'all', favoritesOnly: false, query: '' });
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => mediaLibrary.subscribe(setItems), []);
+
+    useEffect(() => {
+        let cancelled = false;
+        storageUsage(items).then(result => { if (!cancelled) setUsage(result); });
+        // Drop selections of items that no longer exist
+        setSelected(prev => {
+            const ids = new Set(items.map(i => i.id));
+            const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+        return () => { cancelled = true; };
+    }, [items]);
+
+    // One object URL per stored blob, revoked when the list changes or the tab closes
+    const urls = useMemo<Record<string, string>>(() => {
+        const map: Record<string, string> = {};
+        items.forEach(item => { map[item.id] = URL.createObjectURL(item.blob); });
+        return map;
+    }, [items]);
+    useEffect(() => () => { Object.keys(urls).forEach(id => URL.revokeObjectURL(urls[id])); }, [urls]);
+
+    const visible = useMemo(() => filterMedia(items, filter), [items, filter]);
+    const allVisibleSelected = visible.length > 0 && visible.every(item => selected.has(item.id));
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const toggleSelectVisible = () => {
+        setSelected(allVisibleSelected ? new Set() : new Set(visible.map(item => item.id)));
+    };
+
+    const run = async (action: () => Promise<void>, failure: string) => {
+        try {
+            setError(null);
+            await action();
+        } catch (err: any) {
+            setError(err?.message || failure);
+        }
+    };
+
+    const deleteItems = (ids: string[]) => {
+        if (!ids.length) return;
+        if (!confirm(`Delete ${ids.length === 1 ? 'this item' : `${ids.length} items`} from the media library?`)) return;
+        void run(async () => {
+            await mediaLibrary.remove(ids);
+            try { trackEvent('media_library_delete', { count: ids.length }); } catch {}
+        }, 'Failed to delete.');
+    };
+
+    const reuse = (item: MediaItem) => {
+        switch (item.generator) {
+            case 'video': reuseStore.send('video', item.settings); break;
+            case 'image': reuseStore.send('image', item.settings); break;
+            case 'storybook': reuseStore.send('storybook', item.settings); break;
+        }
+        try { trackEvent('media_library_reuse', { generator: item.generator }); } catch {}
+        onReuse(item.generator);
+    };
+
+    const quotaPercent = usage?.usage != null && usage.quota ? Math.min(100, (usage.usage / usage.quota) * 100) : null;
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white/50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg p-6 shadow-lg backdrop-blur-sm space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">Media Library</h2>
+                    {usage && (
+                        <div className="text-sm text-gray-600 dark:text-gray-400 min-w-[220px]" aria-label="Storage usage">
+                            <p>
+                                {items.length} item{items.length === 1 ? '' : 's'} · {formatBytes(usage.libraryBytes)}
+                                {usage.usage != null && usage.quota ? ` · site uses ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)}` : ''}
+                            </p>
+                            {quotaPercent !== null && (
+                                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 mt-1">
+                                    <div className={`h-1.5 rounded-full ${quotaPercent > 80 ? 'bg-red-600' : 'bg-indigo-600'}`} style={{ width: `${Math.max(1, quotaPercent)}%` }} />
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                    <div className="inline-flex rounded-md border border-gray-300 dark:border-gray-700 overflow-hidden">
+                        {KIND_FILTERS.map(option => (
+                            <button
+                                key={option.value}
+                                type="button"
+                                onClick={() => setFilter(prev => ({ ...prev, kind: option.value }))}
+                                className={`px-3 py-1 text-sm ${filter.kind === option.value ? 'bg-indigo-600 text-white' : 'bg-transparent text-gray-700 dark:text-gray-300'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={filter.favoritesOnly}
+                            onChange={e => setFilter(prev => ({ ...prev, favoritesOnly: e.target.checked }))}
+                            className="h-4 w-4 rounded border-gray-400 dark:border-gray-500 bg-gray-200 dark:bg-gray-700 text-indigo-600 focus:ring-indigo-600"
+                        />
+                        Favourites only
+                    </label>
+                    <div className="flex-grow min-w-[200px]">
+                        <input
+                            type="search"
+                            value={filter.query}
+                            onChange={e => setFilter(prev => ({ ...prev, query: e.target.value }))}
+                            placeholder="Search prompts, models, labels"
+                            className={inputClass}
+                            aria-label="Search media"
+                        />
+                    </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <button type="button" onClick={toggleSelectVisible} disabled={!visible.length} className="px-3 py-1 rounded-md bg-gray-600 text-white hover:bg-gray-500 disabled:opacity-50">
+                        {allVisibleSelected ? 'Clear Selection' : `Select ${visible.length} Shown`}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => deleteItems(Array.from(selected))}
+                        disabled={!selected.size}
+                        className="inline-flex items-center px-3 py-1 rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                    >
+                        <TrashIcon /> <span className="ml-1">Delete Selected ({selected.size})</span>
+                    </button>
+                </div>
+                {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+            </div>
+
+            {visible.length ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                    {visible.map(item => (
+                        <div key={item.id} className={`p-3 rounded-lg border bg-white/50 dark:bg-gray-800/50 ${selected.has(item.id) ? 'border-indigo-500' : 'border-gray-300 dark:border-gray-700'}`}>
+                            <div className="relative">
+                                {item.kind === 'video' ? (
+                                    <video src={urls[item.id]} controls preload="metadata" className="w-full aspect-video object-cover rounded-md bg-black" />
+                                ) : (
+                                    <img src={urls[item.id]} alt={item.settings.prompt.slice(0, 80)} className="w-full aspect-square object-cover rounded-md" />
+                                )}
+                                <input
+                                    type="checkbox"
+                                    checked={selected.has(item.id)}
+                                    onChange={() => toggleSelected(item.id)}
+                                    className="absolute top-2 left-2 h-4 w-4 rounded border-gray-400 text-indigo-600 focus:ring-indigo-600"
+                                    aria-label="Select item"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => void run(() => mediaLibrary.setFavorite(item.id, !item.favorite), 'Failed to update favourite.')}
+                                    className={`absolute top-1 right-2 text-xl leading-none ${item.favorite ? 'text-yellow-400' : 'text-white/80 hover:text-yellow-300'}`}
+                                    title={item.favorite ? 'Remove from favourites' : 'Add to favourites'}
+                                    aria-pressed={item.favorite}
+                                >
+                                    {item.favorite ? '★' : '☆'}
+                                </button>
+                            </div>
+                            <p className="mt-2 text-sm text-gray-800 dark:text-gray-200 line-clamp-3" title={item.settings.prompt}>{item.settings.prompt || <em className="text-gray-500">No prompt</em>}</p>
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 truncate" title={settingsSummary(item)}>{settingsSummary(item)}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                {item.label && <>{item.label} · </>}
+                                {new Date(item.createdAt).toLocaleString()} · {formatBytes(item.blob.size)}
+                            </p>
+                            <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+                                <button type="button" onClick={() => reuse(item)} className="text-indigo-600 dark:text-indigo-400 hover:underline" title={`Load these settings into the ${GENERATOR_NAMES[item.generator]}`}>Reuse Settings</button>
+                                <a href={urls[item.id]} download={mediaFileName(item)} className="text-indigo-600 dark:text-indigo-400 hover:underline">Download</a>
+                                <button type="button" onClick={() => deleteItems([item.id])} className="ml-auto text-red-600 hover:text-red-700">Delete</button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-16">
+                    {items.length ? 'Nothing matches these filters.' : 'Generated videos, images and story pages are saved here automatically.'}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default MediaGallery;
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { MusicTrack, musicLibrary } from '../lib/musicLibrary';
+import { MAX_MUSIC_FADE_SECONDS, MusicSettings, musicSeconds } from '../lib/musicMix';
+import { analyzeAudio } from '../lib/waveform';
+import { formatDuration } from '../lib/polling';
+import Waveform from './Waveform';
+
+interface MusicPanelProps {
+    settings: MusicSettings;
+    onChange: (patch: Partial<MusicSettings>) => void;
+    /** Length of the merged video, to show which part of the track it uses. */
+    videoSeconds: number;
+    disabled?: boolean;
+}
+
+const fieldClass = 'bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md p-1 text-xs disabled:opacity-50';
+const checkboxClass = 'h-4 w-4 rounded border-gray-400 dark:border-gray-500 bg-gray-200 dark:bg-gray-700 text-indigo-600 focus:ring-indigo-600 disabled:opacity-50';
+
+/** Picks a music track from the local music library (or uploads one) and sets how it is mixed. */
+const MusicPanel: React.FC<MusicPanelProps> = ({ settings, onChange, videoSeconds, disabled = false }) => {
+    const [tracks, setTracks] = useState<MusicTrack[]>([]);
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => musicLibrary.subscribe(setTracks), []);
+
+    const track = tracks.find(t => t.id === settings.trackId) ?? null;
+    const used = track ? musicSeconds(settings, videoSeconds, track.seconds) : 0;
+    // The used part of the track; a looping track wraps, so it is shown from the start point on
+    const range = track?.seconds
+        ? { start: settings.start / track.seconds, end: settings.loop && settings.start + used > track.seconds ? 1 : (settings.start + used) / track.seconds }
+        : undefined;
+
+    const upload = async (file: File) => {
+        setUploading(true);
+        setError(null);
+        try {
+            const analysis = await analyzeAudio(file).catch(() => null);
+            const added = await musicLibrary.add({ name: file.name, blob: file, seconds: analysis?.seconds ?? null, peaks: analysis?.peaks ?? [] });
+            onChange({ trackId: added.id, start: 0 });
+            if (!analysis) setError('This browser could not read the track\'s waveform. It can still be mixed if FFmpeg can decode it.');
+        } catch (err: any) {
+            setError(err?.message || 'Could not save the track to the music library.');
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const removeTrack = async (id: string) => {
+        try {
+            await musicLibrary.remove(id);
+            if (settings.trackId === id) onChange({ trackId: null });
+        } catch (err: any) {
+            setError(err?.message || 'Could not remove the track.');
+        }
+    };
+
+    return (
+        <div className="mb-3">
+            <div className="flex items-center justify-between mb-1">
+                <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200">Background Music</h4>
+                <label className={`text-xs text-indigo-600 dark:text-indigo-400 ${disabled || uploading ? 'opacity-50' : 'cursor-pointer hover:underline'}`}>
+                    {uploading ? 'Adding…' : 'Upload track'}
+                    <input
+                        type="file"
+                        accept="audio/*"
+                        className="sr-only"
+                        disabled={disabled || uploading}
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) upload(file);
+                        }}
+                    />
+                </label>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                <select
+                    value={settings.trackId ?? ''}
+                    onChange={e => onChange({ trackId: e.target.value || null, start: 0 })}
+                    disabled={disabled}
+                    className={`flex-1 min-w-0 ${fieldClass}`}
+                    aria-label="Music track"
+                >
+                    <option value="">No music</option>
+                    {tracks.map(t => (
+                        <option key={t.id} value={t.id}>{t.name}{t.seconds ? ` (${formatDuration(t.seconds * 1000)})` : ''}</option>
+                    ))}
+                </select>
+                {track && (
+                    <button type="button" onClick={() => removeTrack(track.id)} disabled={disabled} className="text-red-600 dark:text-red-400 hover:underline disabled:opacity-50">
+                        Remove
+                    </button>
+                )}
+            </div>
+            {error && <p className="mt-1 text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>}
+            {track && (
+                <div className="mt-2 space-y-2 text-xs text-gray-700 dark:text-gray-300">
+                    {track.peaks.length > 0 && <Waveform peaks={track.peaks} range={range} label={`Waveform of ${track.name}`} />}
+                    <p className="text-gray-500 dark:text-gray-400">
+                        Uses {used.toFixed(1)}s of the track for a {videoSeconds.toFixed(1)}s video{settings.loop && track.seconds && settings.start + used > track.seconds ? ', looping' : ''}.
+                    </p>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                        <label className="flex items-center gap-2">
+                            Volume
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={Math.round(settings.volume * 100)}
+                                onChange={e => onChange({ volume: Number(e.target.value) / 100 })}
+                                disabled={disabled}
+                                className="w-24"
+                            />
+                            <span className="w-8">{Math.round(settings.volume * 100)}%</span>
+                        </label>
+                        <label className="flex items-center gap-1">
+                            Start at
+                            <input
+                                type="number"
+                                min={0}
+                                max={track.seconds ?? undefined}
+                                step={0.5}
+                                value={settings.start}
+                                onChange={e => onChange({ start: Math.max(0, Math.min(track.seconds ?? Infinity, Number(e.target.value) || 0)) })}
+                                disabled={disabled}
+                                className={`w-16 ${fieldClass}`}
+                            />
+                            s
+                        </label>
+                        <label className="flex items-center gap-1">
+                            Fade in
+                            <input
+                                type="number"
+                                min={0}
+                                max={MAX_MUSIC_FADE_SECONDS}
+                                step={0.5}
+                                value={settings.fadeIn}
+                                onChange={e => onChange({ fadeIn: Math.max(0, Math.min(MAX_MUSIC_FADE_SECONDS, Number(e.target.value) || 0)) })}
+                                disabled={disabled}
+                                className={`w-14 ${fieldClass}`}
+                            />
+                            s
+                        </label>
+                        <label className="flex items-center gap-1">
+                            Fade out
+                            <input
+                                type="number"
+                                min={0}
+                                max={MAX_MUSIC_FADE_SECONDS}
+                                step={0.5}
+                                value={settings.fadeOut}
+                                onChange={e => onChange({ fadeOut: Math.max(0, Math.min(MAX_MUSIC_FADE_SECONDS, Number(e.target.value) || 0)) })}
+                                disabled={disabled}
+                                className={`w-14 ${fieldClass}`}
+                            />
+                            s
+                        </label>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={settings.loop} onChange={e => onChange({ loop: e.target.checked })} disabled={disabled} className={checkboxClass} />
+                            Loop to fill the video
+                        </label>
+                        <label className="flex items-center gap-2" title="Lowers the music while the segment audio has speech">
+                            <input type="checkbox" checked={settings.ducking && !settings.muteVideoAudio} onChange={e => onChange({ ducking: e.target.checked })} disabled={disabled || settings.muteVideoAudio} className={checkboxClass} />
+                            Duck under speech
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={settings.muteVideoAudio} onChange={e => onChange({ muteVideoAudio: e.target.checked })} disabled={disabled} className={checkboxClass} />
+                            Mute Veo audio
+                        </label>
+                    </div>
+                    <p className="text-gray-500 dark:text-gray-400">Music is mixed by "Preview Transitions" and "Merge with Transitions".</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MusicPanel;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { mergeNegativePrompt, presetsFor } from '../lib/negativePrompt';
+
+interface NegativePromptInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    /** Style whose preset is listed first, e.g. the cast's character style. */
+    style?: string;
+    label?: string;
+    placeholder?: string;
+    /** Hides the preset buttons, for small per-segment fields. */
+    compact?: boolean;
+    disabled?: boolean;
+}
+
+const NegativePromptInput: React.FC<NegativePromptInputProps> = ({ value, onChange, style, label = 'Negative Prompt', placeholder = 'e.g., text overlays, extra limbs, watermark', compact = false, disabled = false }) => (
+    <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+        <textarea
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            placeholder={placeholder}
+            rows={compact ? 1 : 2}
+            disabled={disabled}
+            className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50"
+            aria-label={label}
+        />
+        {!compact && (
+            <div className="flex flex-wrap items-center gap-2 mt-2" aria-label="Negative prompt presets">
+                <span className="text-xs text-gray-600 dark:text-gray-400">Add preset:</span>
+                {presetsFor(style).map(preset => (
+                    <button
+                        key={preset.style}
+                        type="button"
+                        onClick={() => onChange(mergeNegativePrompt(value, preset.terms))}
+                        disabled={disabled}
+                        title={preset.terms.join(', ')}
+                        className={`px-2 py-1 text-xs rounded-md disabled:opacity-50 ${preset.style === style ? 'bg-indigo-600 text-white' : 'bg-gray-200/60 dark:bg-gray-700/60 text-gray-700 dark:text-gray-300'}`}
+                    >
+                        {preset.style}
+                    </button>
+                ))}
+            </div>
+        )}
+    </div>
+);
+
+export default NegativePromptInput;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { PromptData } from '../types';
+import { ImportCandidate, combinePromptData, describePromptChange, parsePromptImport } from '../lib/promptImport';
+import { trackEvent } from '../analytics';
+
+interface PromptImportDialogProps {
+    open: boolean;
+    current: PromptData;
+    onClose: () => void;
+    onApply: (data: PromptData) => void;
+}
+
+const PromptImportDialog: React.FC<PromptImportDialogProps> = ({ open, current, onClose, onApply }) => {
+    const [text, setText] = useState('');
+    const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+    const [selected, setSelected] = useState<number | 'all'>(0);
+
+    if (!open) return null;
+
+    const validCandidates = candidates.filter(c => c.data);
+    const preview: PromptData | null = selected === 'all'
+        ? (validCandidates.length ? combinePromptData(validCandidates.map(c => c.data as PromptData)) : null)
+        : candidates[selected]?.data ?? null;
+
+    const reset = () => {
+        setText('');
+        setCandidates([]);
+        setSelected(0);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handleParse = () => {
+        const parsed = parsePromptImport(text);
+        setCandidates(parsed);
+        setSelected(0);
+    };
+
+    const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        if (!files.length) return;
+        const parsed: ImportCandidate[] = [];
+        for (const file of files) {
+            parsed.push(...parsePromptImport(await file.text(), file.name));
+        }
+        setCandidates(parsed);
+        setSelected(0);
+    };
+
+    const handleApply = () => {
+        if (!preview) return;
+        onApply(preview);
+        try { trackEvent('prompt_import_apply', { candidates: candidates.length, combined: selected === 'all' }); } catch {}
+        handleClose();
+    };
+
+    const active = selected === 'all' ? null : candidates[selected];
+
+    return (
+        <div className="fixed inset-0 z-30 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Import JSON Prompt">
+            <div className="absolute inset-0 bg-black/50" onClick={handleClose} aria-hidden="true" />
+            <div className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg shadow-xl p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">Import JSON Prompt</h2>
+                    <button onClick={handleClose} className="p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200/60 dark:hover:bg-gray-700/60" aria-label="Close import">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Paste a Veo JSON prompt exported by this builder (or an older raw builder export), or upload one or more .json files. A file may contain a single prompt or an array of prompts.</p>
+                <textarea
+                    value={text}
+                    onChange={e => setText(e.target.value)}
+                    placeholder='{"schema": "veo-prompt", "version": 1, "characters": [...], "shots": [...]}'
+                    className="w-full h-40 font-mono text-xs bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    aria-label="JSON to import"
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                    <button onClick={handleParse} disabled={!text.trim()} className="px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors text-sm font-semibold">Validate</button>
+                    <input type="file" accept="application/json,.json" multiple onChange={handleFiles} className="text-sm" aria-label="Upload JSON files" />
+                </div>
+
+                {candidates.length > 0 && (
+                    <div className="space-y-3">
+                        {candidates.length > 1 && (
+                            <div className="flex flex-wrap gap-2">
+                                {candidates.map((c, i) => (
+                                    <button key={i} onClick={() => setSelected(i)} className={`px-2 py-1 text-xs rounded-md ${selected === i ? 'bg-indigo-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}>
+                                        {c.data ? '' : '⚠ '}{c.label}
+                                    </button>
+                                ))}
+                                {validCandidates.length > 1 && (
+                                    <button onClick={() => setSelected('all')} className={`px-2 py-1 text-xs rounded-md ${selected === 'all' ? 'bg-indigo-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}>
+                                        Combine {validCandidates.length} valid prompts as one sequence
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                        {active && active.errors.length > 0 && (
+                            <div className="p-3 rounded-md bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 text-sm" role="alert">
+                                <p className="font-semibold mb-1">{active.errors.length} error{active.errors.length === 1 ? '' : 's'} — this prompt cannot be imported</p>
+                                <ul className="list-disc ml-5 space-y-0.5">
+                                    {active.errors.map((issue, i) => <li key={i}><code>{issue.path}</code> {issue.message}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        {active && active.warnings.length > 0 && (
+                            <div className="p-3 rounded-md bg-yellow-100 dark:bg-yellow-900/40 border border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 text-sm">
+                                <p className="font-semibold mb-1">Fixed automatically</p>
+                                <ul className="list-disc ml-5 space-y-0.5">
+                                    {active.warnings.map((issue, i) => <li key={i}><code>{issue.path}</code> {issue.message}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        {preview && (
+                            <div className="p-3 rounded-md bg-gray-50 dark:bg-gray-800/60 border border-gray-300 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300">
+                                <p className="font-semibold mb-1">Preview — this replaces the current builder</p>
+                                <ul className="space-y-0.5">
+                                    {describePromptChange(current, preview).map((line, i) => <li key={i}>{line}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        <div className="flex justify-end gap-2">
+                            <button onClick={handleClose} className="px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors text-sm font-semibold">Cancel</button>
+                            <button onClick={handleApply} disabled={!preview} className="px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors text-sm font-semibold">Replace Builder</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PromptImportDialog;
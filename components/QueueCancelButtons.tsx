@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface QueueCancelButtonsProps {
+    onCancel: () => void;
+    onCancelAll: () => void;
+    /** Running plus queued jobs; "Cancel All" only shows when there is more than one. */
+    jobCount: number;
+}
+
+const QueueCancelButtons: React.FC<QueueCancelButtonsProps> = ({ onCancel, onCancelAll, jobCount }) => (
+    <div className="mt-4 flex justify-center gap-2">
+        <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700"
+        >
+            Cancel
+        </button>
+        {jobCount > 1 && (
+            <button
+                type="button"
+                onClick={onCancelAll}
+                className="px-3 py-1.5 text-sm font-medium rounded-md text-red-700 dark:text-red-300 border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/30"
+            >
+                Cancel All ({jobCount})
+            </button>
+        )}
+    </div>
+);
+
+export default QueueCancelButtons;
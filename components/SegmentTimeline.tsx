@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+
+export interface TimelineClip {
+    id: string;
+    thumbDataUrl?: string | null;
+    /** Seconds left after trimming; sets the block's width. */
+    seconds: number;
+    trimmed: boolean;
+    status?: string;
+}
+
+interface SegmentTimelineProps {
+    clips: TimelineClip[];
+    onMove: (from: number, to: number) => void;
+    onDuplicate: (id: string) => void;
+    /** Brings the segment's editor card into view. */
+    onSelect: (id: string) => void;
+    disabled?: boolean;
+}
+
+const PX_PER_SECOND = 14;
+
+/** Horizontal strip of segments, sized by trimmed length. Drag a block, or use its arrows, to reorder. */
+const SegmentTimeline: React.FC<SegmentTimelineProps> = ({ clips, onMove, onDuplicate, onSelect, disabled = false }) => {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [overIndex, setOverIndex] = useState<number | null>(null);
+    const total = clips.reduce((sum, clip) => sum + clip.seconds, 0);
+
+    const endDrag = () => {
+        setDragIndex(null);
+        setOverIndex(null);
+    };
+
+    return (
+        <div className="mb-3">
+            <div className="flex items-center justify-between mb-1">
+                <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200">Timeline</h4>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{total.toFixed(1)}s total</span>
+            </div>
+            <div className="flex gap-1 overflow-x-auto pb-2" role="list" aria-label="Segment timeline">
+                {clips.map((clip, idx) => (
+                    <div
+                        key={clip.id}
+                        role="listitem"
+                        draggable={!disabled}
+                        onDragStart={e => {
+                            setDragIndex(idx);
+                            e.dataTransfer.effectAllowed = 'move';
+                        }}
+                        onDragOver={e => {
+                            if (dragIndex === null) return;
+                            e.preventDefault();
+                            setOverIndex(idx);
+                        }}
+                        onDrop={e => {
+                            e.preventDefault();
+                            if (dragIndex !== null) onMove(dragIndex, idx);
+                            endDrag();
+                        }}
+                        onDragEnd={endDrag}
+                        style={{ width: Math.max(96, clip.seconds * PX_PER_SECOND) }}
+                        className={`shrink-0 rounded-md border bg-gray-50/80 dark:bg-gray-900/80 p-1 ${disabled ? '' : 'cursor-grab'} ${overIndex === idx && dragIndex !== idx ? 'border-indigo-500' : 'border-gray-300 dark:border-gray-700'} ${dragIndex === idx ? 'opacity-50' : ''}`}
+                    >
+                        <button type="button" onClick={() => onSelect(clip.id)} className="block w-full text-left" title={`Edit segment ${idx + 1}`}>
+                            {clip.thumbDataUrl ? (
+                                <img src={clip.thumbDataUrl} alt={`Segment ${idx + 1}`} className="w-full h-12 object-cover rounded" draggable={false} />
+                            ) : (
+                                <div className="w-full h-12 rounded bg-gray-200 dark:bg-gray-700" />
+                            )}
+                            <span className="block mt-1 text-xs font-medium text-gray-700 dark:text-gray-300 truncate">
+                                {idx + 1} · {clip.seconds.toFixed(1)}s{clip.trimmed ? ' ✂' : ''}
+                            </span>
+                            {clip.status && <span className="block text-[10px] text-gray-500 dark:text-gray-400 truncate">{clip.status}</span>}
+                        </button>
+                        <div className="mt-1 flex items-center justify-between text-xs">
+                            <button type="button" onClick={() => onMove(idx, idx - 1)} disabled={disabled || idx === 0} className="px-1 text-gray-600 dark:text-gray-300 disabled:opacity-30" aria-label={`Move segment ${idx + 1} earlier`}>◀</button>
+                            <button type="button" onClick={() => onDuplicate(clip.id)} disabled={disabled} className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50">Duplicate</button>
+                            <button type="button" onClick={() => onMove(idx, idx + 1)} disabled={disabled || idx === clips.length - 1} className="px-1 text-gray-600 dark:text-gray-300 disabled:opacity-30" aria-label={`Move segment ${idx + 1} later`}>▶</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SegmentTimeline;
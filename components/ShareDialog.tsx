@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { MAX_SHARE_URL_LENGTH, SharePayload, buildShareUrl, downloadSharePayload, parseSharePayload } from '../lib/shareLink';
+import { trackEvent } from '../analytics';
+
+interface ShareDialogProps {
+    open: boolean;
+    /** What the link should contain; captured when the dialog opens. */
+    payload: SharePayload | null;
+    onClose: () => void;
+    onOpenShared: (payload: SharePayload) => void;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ open, payload, onClose, onOpenShared }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [isBuilding, setIsBuilding] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open || !payload) return;
+        let cancelled = false;
+        setIsBuilding(true);
+        setUrl(null);
+        setError(null);
+        setCopied(false);
+        buildShareUrl(payload)
+            .then(result => { if (!cancelled) setUrl(result); })
+            .catch((err: any) => { if (!cancelled) setError(err?.message || 'Failed to build the share link.'); })
+            .finally(() => { if (!cancelled) setIsBuilding(false); });
+        return () => { cancelled = true; };
+    }, [open, payload]);
+
+    if (!open) return null;
+
+    const handleCopy = async () => {
+        if (!url) return;
+        await navigator.clipboard.writeText(url);
+        setCopied(true);
+        try { trackEvent('share_link_copy', { tab: payload?.tab, length: url.length }); } catch {}
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const handleDownload = () => {
+        if (!payload) return;
+        downloadSharePayload(payload);
+        try { trackEvent('share_file_download', { tab: payload.tab }); } catch {}
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            onOpenShared(parseSharePayload(await file.text()));
+            onClose();
+        } catch (err: any) {
+            setError(err?.message || 'Failed to open the share file.');
+        }
+    };
+
+    const tooLarge = !isBuilding && !error && payload && !url;
+
+    return (
+        <div className="fixed inset-0 z-30 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Share">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} aria-hidden="true" />
+            <div className="relative w-full max-w-xl bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg shadow-xl p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">Share</h2>
+                    <button onClick={onClose} className="p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200/60 dark:hover:bg-gray-700/60" aria-label="Close share">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {payload?.state
+                        ? 'The link restores this tab with the current form. Your API key, uploaded images and generated media are never included.'
+                        : 'This tab has no form to share; the link opens the tab itself.'}
+                </p>
+                {isBuilding && <p className="text-sm text-gray-500 dark:text-gray-400">Building link…</p>}
+                {url && (
+                    <div className="flex items-center gap-2">
+                        <input readOnly value={url} onFocus={e => e.target.select()} className="flex-grow min-w-0 font-mono text-xs bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md p-2" aria-label="Share link" />
+                        <button onClick={handleCopy} className="px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-semibold">{copied ? 'Copied!' : 'Copy'}</button>
+                    </div>
+                )}
+                {tooLarge && (
+                    <div className="p-3 rounded-md bg-yellow-100 dark:bg-yellow-900/40 border border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 text-sm space-y-2">
+                        <p>This form is too large for a link (over {MAX_SHARE_URL_LENGTH.toLocaleString()} characters). Download it as a file and send that instead.</p>
+                        <button onClick={handleDownload} className="px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-semibold">Download Share File</button>
+                    </div>
+                )}
+                {error && (
+                    <div className="p-3 rounded-md bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 text-sm" role="alert">{error}</div>
+                )}
+                <div className="pt-2 border-t border-gray-300 dark:border-gray-700">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Open a share file</label>
+                    <input type="file" accept="application/json,.json" onChange={handleFile} className="text-sm" aria-label="Open share file" />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShareDialog;
@@ -5,7 +5,9 @@ import { LoaderIcon, BookOpenIcon } from './icons';
 import { STORYBOOK_AGES, STORYBOOK_ART_STYLES } from '../constants';
 import { StoryPage } from '../types';
 import { trackEvent } from '../analytics';
-import { RequestQueue, QueueSnapshot } from '../lib/requestQueue';
+import { RequestQueue, QueueSnapshot, isCancelledError } from '../lib/requestQueue';
+import QueueCancelButtons from './QueueCancelButtons';
+import { StoryMediaSettings, dataUrlToBlob, reuseStore, saveToLibrary } from '../lib/mediaLibrary';
 
 interface StorybookBuilderProps {
     apiKey: string;
@@ -27,6 +29,7 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
     const [statusMessage, setStatusMessage] = useState('');
     const [error, setError] = useState<string | null>(null);
     const [storyPages, setStoryPages] = useState<StoryPage[]>([]);
+    const [cancelNote, setCancelNote] = useState<string | null>(null);
 
     const storyQueueDelayRaw = Number(import.meta.env.VITE_STORY_QUEUE_DELAY_MS ?? '5000');
     const storyQueueDelay = Number.isFinite(storyQueueDelayRaw) && storyQueueDelayRaw >= 0 ? storyQueueDelayRaw : 5000;
@@ -58,11 +61,21 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
     }, [queueSnapshot, activeQueueJobId]);
 
 
-    const performStoryGeneration = async (context: StoryJobInput) => {
+    React.useEffect(() => reuseStore.subscribe('storybook', (settings: StoryMediaSettings) => {
+        setPrompt(settings.prompt);
+        setAgeGroup(settings.ageGroup);
+        setArtStyle(settings.artStyle);
+        setError(null);
+        setCancelNote(null);
+    }), []);
+
+    const performStoryGeneration = async (context: StoryJobInput, signal: AbortSignal) => {
         const { apiKey: ctxApiKey, prompt: ctxPrompt, ageGroup: ctxAgeGroup, artStyle: ctxArtStyle } = context;
         setError(null);
         setStoryPages([]);
         setStatusMessage('Generating story from your idea...');
+        let pagesWithImages: StoryPage[] = [];
+        const jobId = crypto.randomUUID();
 
         try {
             const ai = new GoogleGenAI({ apiKey: ctxApiKey });
@@ -71,6 +84,7 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
                 model: "gemini-2.5-flash",
                 contents: `Create a short, illustrated children's story based on this idea: "${ctxPrompt}". The story should be appropriate for children who are ${ctxAgeGroup}. The story should be broken into 5 pages. For each page, provide the page text and a detailed, descriptive prompt for an illustrator to create an image in a ${ctxArtStyle} style.`,
                 config: {
+                    abortSignal: signal,
                     responseMimeType: "application/json",
                     responseSchema: {
                         type: Type.OBJECT,
@@ -98,7 +112,7 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
                 throw new Error('No story pages returned by Gemini.');
             }
 
-            const pagesWithImages: StoryPage[] = rawPages.map((p: any) => ({
+            pagesWithImages = rawPages.map((p: any) => ({
                 text: String(p?.text || ''),
                 imagePrompt: String(p?.image_prompt || p?.imagePrompt || ''),
             }));
@@ -106,6 +120,7 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
 
             const totalPages = pagesWithImages.length;
             for (let i = 0; i < totalPages; i++) {
+                signal.throwIfAborted();
                 const page = pagesWithImages[i];
                 setStatusMessage(`Generating image for page ${i + 1} of ${totalPages}...`);
 
@@ -116,6 +131,7 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
                         numberOfImages: 1,
                         outputMimeType: 'image/jpeg',
                         aspectRatio: '1:1',
+                        abortSignal: signal,
                     },
                 });
 
@@ -126,11 +142,26 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
 
                 pagesWithImages[i] = { ...page, imageUrl: `data:image/jpeg;base64,${base64Image}` };
                 setStoryPages(pagesWithImages.map(p => ({ ...p })));
+                const pageBlob = await dataUrlToBlob(pagesWithImages[i].imageUrl as string);
+                saveToLibrary({
+                    kind: 'story_page',
+                    generator: 'storybook',
+                    blob: pageBlob,
+                    label: `Page ${i + 1} of ${totalPages}`,
+                    jobId,
+                    settings: { prompt: ctxPrompt, ageGroup: ctxAgeGroup, artStyle: ctxArtStyle, pageText: page.text, imagePrompt: page.imagePrompt },
+                });
             }
 
             setStatusMessage('Story complete!');
             try { trackEvent('generate_story_success', { pages: pagesWithImages.length, art_style: ctxArtStyle, age_group: ctxAgeGroup }); } catch {}
         } catch (err: any) {
+            if (isCancelledError(err)) {
+                const done = pagesWithImages.filter(p => p.imageUrl).length;
+                setCancelNote(pagesWithImages.length ? `Cancelled after ${done} of ${pagesWithImages.length} illustrations.` : 'Cancelled.');
+                try { trackEvent('generate_story_cancelled', { pages_done: done }); } catch {}
+                throw err;
+            }
             console.error(err);
             const message = err?.message || 'An unknown error occurred during story generation.';
             setError(message);
@@ -160,22 +191,34 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
 
         setIsLoading(true);
         setError(null);
+        setCancelNote(null);
         setStoryPages([]);
         setStatusMessage('Queued — waiting to start...');
 
-        const job = storyQueue.enqueue(() => performStoryGeneration(jobContext), { description: 'Storybook generation' });
+        const job = storyQueue.enqueue((signal) => performStoryGeneration(jobContext, signal), { description: 'Storybook generation' });
         setActiveQueueJobId(job.id);
 
         try {
             await job.promise;
-        } catch (_) {
-            // Errors handled inside performStoryGeneration.
+        } catch (err) {
+            // Errors handled inside performStoryGeneration; a job cancelled while queued never started.
+            if (isCancelledError(err)) setCancelNote(note => note ?? 'Cancelled.');
         } finally {
             setIsLoading(false);
             setActiveQueueJobId(null);
         }
     };
 
+    const cancelActiveJob = () => {
+        if (!activeQueueJobId) return;
+        if (storyQueue.cancel(activeQueueJobId)) setStatusMessage('Cancelling...');
+    };
+
+    const cancelAllJobs = () => {
+        storyQueue.cancelAll();
+        setStatusMessage('Cancelling...');
+    };
+
     const renderSelect = (label: string, value: string, onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void, options: readonly string[]) => {
         const isCustom = !options.includes(value);
         const onSel = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -243,6 +286,13 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
                     <div className="text-center m-auto" role="status" aria-live="polite">
                         <LoaderIcon />
                         <p className="text-indigo-600 dark:text-indigo-400 mt-4">{statusMessage}</p>
+                        {activeQueueJobId && (
+                            <QueueCancelButtons
+                                onCancel={cancelActiveJob}
+                                onCancelAll={cancelAllJobs}
+                                jobCount={queueSnapshot.queuedIds.length + (queueSnapshot.activeTaskId ? 1 : 0)}
+                            />
+                        )}
                     </div>
                 ) : error ? (
                     <div className="w-full p-4 m-auto bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 rounded-lg break-words max-h-48 overflow-auto overflow-x-hidden" role="alert">
@@ -253,13 +303,21 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
                      <div className="w-full space-y-6">
                         <h3 className="text-xl font-bold text-gray-900 dark:text-white text-center">Your Generated Storybook</h3>
                         {isLoading && <p className="text-center text-indigo-600 dark:text-indigo-400 animate-pulse">{statusMessage}</p>}
+                        {isLoading && activeQueueJobId && (
+                            <QueueCancelButtons
+                                onCancel={cancelActiveJob}
+                                onCancelAll={cancelAllJobs}
+                                jobCount={queueSnapshot.queuedIds.length + (queueSnapshot.activeTaskId ? 1 : 0)}
+                            />
+                        )}
+                        {!isLoading && cancelNote && <p className="text-center text-sm text-gray-600 dark:text-gray-400">{cancelNote}</p>}
                         {storyPages.map((page, index) => (
                             <div key={index} className="p-4 bg-gray-50/50 dark:bg-gray-900/50 rounded-lg border border-gray-300 dark:border-gray-700">
                                 {page.imageUrl ? (
                                     <img src={page.imageUrl} alt={`Illustration for page ${index + 1}`} className="w-full aspect-square object-cover rounded-md mb-4" />
                                 ) : (
                                     <div className="w-full aspect-square bg-gray-200 dark:bg-gray-700 rounded-md mb-4 flex items-center justify-center">
-                                        <LoaderIcon />
+                                        {isLoading ? <LoaderIcon /> : <span className="text-sm text-gray-500 dark:text-gray-400">Illustration not generated</span>}
                                     </div>
                                 )}
                                 <p className="text-gray-700 dark:text-gray-300">{page.text}</p>
@@ -269,7 +327,7 @@ const StorybookBuilder: React.FC<StorybookBuilderProps> = ({ apiKey }) => {
                 ) : (
                     <div className="text-center text-gray-400 dark:text-gray-500 m-auto">
                         <BookOpenIcon />
-                        <p className="mt-2">Your generated story will appear here.</p>
+                        <p className="mt-2">{cancelNote ?? 'Your generated story will appear here.'}</p>
                     </div>
                 )}
             </div>
@@ -1,39 +1,57 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { StoryPromptData, StoryPlotPoint } from '../types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { StoryPromptData, StoryPlotPoint, LibraryCharacter } from '../types';
 import { STORYBOOK_AGES, STORYBOOK_ART_STYLES, STORYBOOK_CHARACTER_SPECIES, STORYBOOK_CHARACTER_PERSONALITIES, STORYBOOK_LOCATIONS, STORYBOOK_ATMOSPHERES } from '../constants';
+import { createStoryPromptData } from '../lib/promptData';
 import InputGroup from './InputGroup';
 import OutputBlock from './OutputBlock';
 import { PlusIcon, TrashIcon, QuillIcon } from './icons';
 import { trackEvent } from '../analytics';
+import { toStoryCharacter } from '../lib/characterLibrary';
+import CharacterLibraryPanel from './CharacterLibraryPanel';
+import LintPanel from './LintPanel';
+import LocalePicker from './LocalePicker';
+import HistoryPanel from './HistoryPanel';
+import { LintConfig, LintFix, LintIssue, lintPrompt, loadLintConfig, saveLintConfig } from '../lib/promptLint';
+import { STORY_LINT_DEFAULTS, STORY_LINT_RULES, STORY_LINT_STORAGE_KEY } from '../lib/lintRules';
+import { renderStoryPrompt } from '../lib/promptRenderer';
+import { HistoryAction, useUndoHistory, useUndoShortcuts } from '../lib/useUndoHistory';
+import { PROMPT_LOCALES, loadLocaleSelection, saveLocaleSelection, selectedLocales } from '../lib/locales';
+import { registerShareSource, takePendingShare } from '../lib/shareLink';
+
+const STORY_LOCALE_STORAGE_KEY = 'story_prompt_locales';
+
+const STORY_FIELD_LABELS: Record<string, string> = {
+    idea: 'story idea',
+    ageGroup: 'age group',
+    artStyle: 'art style',
+    moral: 'moral',
+    name: 'character name',
+    species: 'species',
+    customSpecies: 'custom species',
+    appearance: 'appearance',
+    personality: 'personality',
+    customPersonality: 'custom personality',
+    goal: 'goal',
+    location: 'location',
+    atmosphere: 'atmosphere',
+};
+
+const editAction = (field: string): HistoryAction => ({ label: `Edited ${STORY_FIELD_LABELS[field] ?? field}`, coalesceKey: field });
 
 const StorybookPromptGenerator: React.FC = () => {
-    const [promptData, setPromptData] = useState<StoryPromptData>({
-        idea: '',
-        ageGroup: STORYBOOK_AGES[0],
-        artStyle: STORYBOOK_ART_STYLES[0],
-        moral: '',
-        character: { 
-            name: '', 
-            species: STORYBOOK_CHARACTER_SPECIES[0], 
-            customSpecies: '',
-            appearance: '', 
-            personality: STORYBOOK_CHARACTER_PERSONALITIES[0], 
-            customPersonality: '',
-            goal: '' 
-        },
-        setting: { 
-            location: STORYBOOK_LOCATIONS[0], 
-            atmosphere: STORYBOOK_ATMOSPHERES[0] 
-        },
-        plotPoints: []
-    });
-    const [generatedPrompts, setGeneratedPrompts] = useState({
-        english: '',
-        indonesian: ''
-    });
+    const history = useUndoHistory<StoryPromptData>(createStoryPromptData);
+    const promptData = history.state;
+    const setPromptData = history.set;
+    useUndoShortcuts(history.undo, history.redo);
+    // Rendered prompt per locale id
+    const [generatedPrompts, setGeneratedPrompts] = useState<Record<string, string>>({});
+    const [outputLocaleIds, setOutputLocaleIds] = useState<string[]>(() => loadLocaleSelection(STORY_LOCALE_STORAGE_KEY));
     const debounceRef = useRef<number | undefined>(undefined);
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+    const [lintConfig, setLintConfig] = useState<LintConfig>(() => loadLintConfig(STORY_LINT_STORAGE_KEY, STORY_LINT_DEFAULTS));
 
-    const updateField = (section: keyof StoryPromptData, field: string, value: string) => {
+    // Pass `null` as the action for a follow-up reset so it undoes together with the change that caused it
+    const updateField = (section: keyof StoryPromptData, field: string, value: string, action: HistoryAction | null = editAction(field)) => {
         setPromptData(prev => ({
             ...prev,
             [section]: {
@@ -41,107 +59,66 @@ const StorybookPromptGenerator: React.FC = () => {
                 ...prev[section],
                 [field]: value
             }
-        }));
+        }), action);
     };
     
     const updateRootField = (field: keyof StoryPromptData, value: string) => {
-        setPromptData(prev => ({ ...prev, [field]: value }));
+        setPromptData(prev => ({ ...prev, [field]: value }), editAction(field));
     }
 
+    const insertLibraryCharacter = (entry: LibraryCharacter) => {
+        setPromptData(prev => ({ ...prev, character: toStoryCharacter(entry, prev.character) }), { label: `Used ${entry.name || 'library character'} as main character` });
+    };
+
     const addPlotPoint = () => {
         const newPoint: StoryPlotPoint = { id: crypto.randomUUID(), text: '' };
-        setPromptData(prev => ({ ...prev, plotPoints: [...prev.plotPoints, newPoint] }));
+        setPromptData(prev => ({ ...prev, plotPoints: [...prev.plotPoints, newPoint] }), { label: `Added plot point ${promptData.plotPoints.length + 1}` });
     };
 
+    const plotPointNumber = (id: string) => promptData.plotPoints.findIndex(p => p.id === id) + 1;
+
     const updatePlotPoint = (id: string, text: string) => {
         setPromptData(prev => ({
             ...prev,
             plotPoints: prev.plotPoints.map(p => p.id === id ? { ...p, text } : p)
-        }));
+        }), { label: `Edited plot point ${plotPointNumber(id)}`, coalesceKey: `plot:${id}` });
     };
 
     const deletePlotPoint = (id: string) => {
         setPromptData(prev => ({
             ...prev,
             plotPoints: prev.plotPoints.filter(p => p.id !== id)
-        }));
+        }), { label: `Deleted plot point ${plotPointNumber(id)}` });
     };
 
     const generatePrompt = useCallback(() => {
-        const { idea, ageGroup, artStyle, moral, character, setting, plotPoints } = promptData;
-        
-        const species = character.species === 'Other (Custom)' ? character.customSpecies : character.species;
-        const personality = character.personality === 'Other (Custom)' ? character.customPersonality : character.personality;
-        const location = setting.location === 'Other (Custom)' ? (promptData.setting as any).customLocation : setting.location;
-        const atmosphere = setting.atmosphere === 'Other (Custom)' ? (promptData.setting as any).customAtmosphere : setting.atmosphere;
-        
-        // English prompt
-        let promptEn = `Create a children's storybook for ${ageGroup} in a ${artStyle} art style.`;
-        if (moral) {
-            promptEn += ` The story should teach a lesson about ${moral}.`;
-        }
-        promptEn += `\n\n**Story Idea:**\n${idea || 'A central theme or concept for the story.'}`;
-
-        promptEn += `\n\n**Main Character:**`;
-        promptEn += `\n- Name: ${character.name || 'Not specified'}`;
-        promptEn += `\n- Species/Type: ${species || 'Not specified'}`;
-        promptEn += `\n- Appearance: ${character.appearance || 'Not specified'}`;
-        promptEn += `\n- Personality: ${personality || 'Not specified'}`;
-        promptEn += `\n- Goal/Desire: ${character.goal || 'Not specified'}`;
-
-        promptEn += `\n\n**Setting:**`;
-        promptEn += `\n- Location: ${location || 'Not specified'}`;
-        promptEn += `\n- Atmosphere: ${atmosphere || 'Not specified'}`;
-
-        if (plotPoints.length > 0) {
-            promptEn += `\n\n**Plot Outline:**`;
-            plotPoints.forEach((p, i) => {
-                if (p.text) promptEn += `\n${i + 1}. ${p.text}`;
-            });
-        }
-
-        promptEn += `\n\nPlease generate the story text broken down into multiple pages, and for each page, provide a detailed illustration prompt that matches the text and the overall art style.`;
-
-        // Indonesian prompt
-        let promptId = `Buat buku cerita anak untuk ${ageGroup} dengan gaya seni ${artStyle}.`;
-        if (moral) {
-            promptId += ` Cerita harus menyampaikan pelajaran tentang ${moral}.`;
-        }
-        promptId += `\n\n**Ide Cerita:**\n${idea || 'Tema atau gagasan utama cerita.'}`;
-
-        promptId += `\n\n**Tokoh Utama:**`;
-        promptId += `\n- Nama: ${character.name || 'Tidak disebutkan'}`;
-        promptId += `\n- Spesies/Tipe: ${species || 'Tidak disebutkan'}`;
-        promptId += `\n- Penampilan: ${character.appearance || 'Tidak disebutkan'}`;
-        promptId += `\n- Kepribadian: ${personality || 'Tidak disebutkan'}`;
-        promptId += `\n- Tujuan/Keinginan: ${character.goal || 'Tidak disebutkan'}`;
-
-        promptId += `\n\n**Latar:**`;
-        promptId += `\n- Lokasi: ${location || 'Tidak disebutkan'}`;
-        promptId += `\n- Suasana: ${atmosphere || 'Tidak disebutkan'}`;
-
-        if (plotPoints.length > 0) {
-            promptId += `\n\n**Alur Cerita:**`;
-            plotPoints.forEach((p, i) => {
-                if (p.text) promptId += `\n${i + 1}. ${p.text}`;
-            });
-        }
-
-        promptId += `\n\nMohon hasilkan teks cerita yang dibagi menjadi beberapa halaman, dan untuk setiap halaman, berikan prompt ilustrasi yang detail yang sesuai dengan teks dan gaya seni keseluruhan.`;
-
-        setGeneratedPrompts({ english: promptEn, indonesian: promptId });
+        setGeneratedPrompts(Object.fromEntries(PROMPT_LOCALES.map(locale => [locale.id, renderStoryPrompt(locale, promptData)])));
     }, [promptData]);
 
     useEffect(() => {
         generatePrompt();
     }, [promptData, generatePrompt]);
 
+    // This tab mounts on demand, so a link opened from elsewhere may be waiting for it
+    const historyRef = useRef(history);
+    historyRef.current = history;
+
+    useEffect(() => {
+        const shared = takePendingShare('storybook_prompt');
+        if (shared) setPromptData(shared, { label: 'Opened shared link' });
+        return registerShareSource('storybook_prompt', {
+            capture: () => historyRef.current.state,
+            restore: state => setPromptData(state, { label: 'Opened shared link' }),
+            hasLocalWork: () => historyRef.current.canUndo,
+        });
+    }, [setPromptData]);
+
     // Debounced tracking to avoid spamming GA on every keystroke
     useEffect(() => {
         if (debounceRef.current) window.clearTimeout(debounceRef.current);
         debounceRef.current = window.setTimeout(() => {
             try {
-                if (generatedPrompts.english || generatedPrompts.indonesian) {
+                if (Object.values(generatedPrompts).some(Boolean)) {
                     trackEvent('generate_story_prompt', {
                         age_group: promptData.ageGroup,
                         art_style: promptData.artStyle,
@@ -154,6 +131,26 @@ const StorybookPromptGenerator: React.FC = () => {
         return () => { if (debounceRef.current) window.clearTimeout(debounceRef.current); };
     }, [generatedPrompts, promptData.ageGroup, promptData.artStyle, promptData.moral, promptData.plotPoints.length]);
 
+    const lintIssues = useMemo(() => lintPrompt(STORY_LINT_RULES, promptData, {
+        config: lintConfig,
+        prompts: selectedLocales(outputLocaleIds).map(locale => ({ label: `${locale.label} prompt`, text: generatedPrompts[locale.id] ?? '' })),
+    }), [promptData, generatedPrompts, lintConfig, outputLocaleIds]);
+
+    const updateLintConfig = (config: LintConfig) => {
+        setLintConfig(config);
+        saveLintConfig(STORY_LINT_STORAGE_KEY, config);
+    };
+
+    const updateOutputLocales = (ids: string[]) => {
+        setOutputLocaleIds(ids);
+        saveLocaleSelection(STORY_LOCALE_STORAGE_KEY, ids);
+    };
+
+    const applyLintFix = (fix: LintFix<StoryPromptData>, issue: LintIssue<StoryPromptData>) => {
+        setPromptData(prev => fix.apply(prev), { label: `Fixed: ${fix.label}` });
+        try { trackEvent('story_prompt_lint_fix', { rule: issue.ruleId }); } catch {}
+    };
+
     const renderInput = (label: string, value: string, onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void, type = 'text', placeholder = '') => (
         <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
@@ -195,6 +192,7 @@ const StorybookPromptGenerator: React.FC = () => {
          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* INPUTS COLUMN */}
             <div>
+                <HistoryPanel items={history.items} canUndo={history.canUndo} canRedo={history.canRedo} onUndo={history.undo} onRedo={history.redo} onJump={history.jumpTo} />
                 <InputGroup title="Core Concept">
                     {renderInput('Story Idea', promptData.idea, e => updateRootField('idea', e.target.value), 'textarea', 'e.g., A shy firefly who is afraid of the dark')}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -204,13 +202,15 @@ const StorybookPromptGenerator: React.FC = () => {
                     {renderInput('Moral or Lesson (Optional)', promptData.moral, e => updateRootField('moral', e.target.value), 'text', 'e.g., The importance of being brave')}
                 </InputGroup>
 
-                <InputGroup title="Main Character">
+                <InputGroup title="Main Character" actionButton={
+                    <button onClick={() => setIsLibraryOpen(true)} className="flex items-center text-sm bg-gray-600 text-white px-3 py-1.5 rounded-md hover:bg-gray-500 transition-colors">From Library</button>
+                }>
                      {renderInput('Name', promptData.character.name, e => updateField('character', 'name', e.target.value), 'text', 'e.g., Flicker')}
                      
                      {renderSelect('Species/Type', promptData.character.species, e => {
                          const val = e.target.value;
                          updateField('character', 'species', val);
-                         if (val !== 'Other (Custom)') updateField('character', 'customSpecies', '');
+                         if (val !== 'Other (Custom)') updateField('character', 'customSpecies', '', null);
                      }, STORYBOOK_CHARACTER_SPECIES)}
                      {promptData.character.species === 'Other (Custom)' && renderInput('Custom Species', promptData.character.customSpecies, e => updateField('character', 'customSpecies', e.target.value), 'text', 'e.g., Glimmering Nymph')}
                      
@@ -219,7 +219,7 @@ const StorybookPromptGenerator: React.FC = () => {
                      {renderSelect('Personality', promptData.character.personality, e => {
                          const val = e.target.value;
                          updateField('character', 'personality', val);
-                         if (val !== 'Other (Custom)') updateField('character', 'customPersonality', '');
+                         if (val !== 'Other (Custom)') updateField('character', 'customPersonality', '', null);
                      }, STORYBOOK_CHARACTER_PERSONALITIES)}
                      {promptData.character.personality === 'Other (Custom)' && renderInput('Custom Personality', promptData.character.customPersonality, e => updateField('character', 'customPersonality', e.target.value), 'text', 'e.g., Cautiously optimistic')}
 
@@ -250,12 +250,16 @@ const StorybookPromptGenerator: React.FC = () => {
                 </InputGroup>
             </div>
 
+            <CharacterLibraryPanel open={isLibraryOpen} onClose={() => setIsLibraryOpen(false)} onInsert={insertLibraryCharacter} insertLabel="Use as Main Character" />
             {/* OUTPUT COLUMN */}
             <div className="sticky top-[150px] h-fit">
-                {generatedPrompts.english || generatedPrompts.indonesian ? (
+                {Object.values(generatedPrompts).some(Boolean) ? (
                      <div className="flex flex-col gap-6">
-                        <div className="h-[300px]"><OutputBlock title="Storybook Prompt (Indonesian)" content={generatedPrompts.indonesian} /></div>
-                        <div className="h-[300px]"><OutputBlock title="Storybook Prompt (English)" content={generatedPrompts.english} /></div>
+                        <LintPanel issues={lintIssues} rules={STORY_LINT_RULES} config={lintConfig} onConfigChange={updateLintConfig} onFix={applyLintFix} />
+                        <LocalePicker selected={outputLocaleIds} onChange={updateOutputLocales} />
+                        {selectedLocales(outputLocaleIds).map(locale => (
+                            <div key={locale.id} className="h-[300px]"><OutputBlock title={`Storybook Prompt (${locale.label})`} content={generatedPrompts[locale.id] ?? ''} /></div>
+                        ))}
                     </div>
                 ) : (
                      <div className="text-center text-gray-400 dark:text-gray-500 m-auto p-8 bg-white/50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg">
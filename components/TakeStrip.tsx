@@ -0,0 +1,47 @@
+import React from 'react';
+
+export interface VideoTake {
+    url: string;
+    /** Last frame, used as the take's thumbnail. */
+    thumbDataUrl: string | null;
+}
+
+interface TakeStripProps {
+    takes: VideoTake[];
+    /** URL of the take in use. */
+    activeUrl: string | null | undefined;
+    onSelect: (take: VideoTake) => void;
+    label?: string;
+}
+
+/** Thumbnails of every take of one generation; picking one makes it the active video. */
+const TakeStrip: React.FC<TakeStripProps> = ({ takes, activeUrl, onSelect, label = 'Takes' }) => (
+    <div className="mt-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">{label} — pick the one to use</p>
+        <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={label}>
+            {takes.map((take, idx) => {
+                const active = take.url === activeUrl;
+                return (
+                    <button
+                        key={take.url}
+                        type="button"
+                        role="radio"
+                        aria-checked={active}
+                        onClick={() => onSelect(take)}
+                        title={`Take ${idx + 1}${active ? ' (in use)' : ''}`}
+                        className={`relative rounded border-2 overflow-hidden ${active ? 'border-indigo-500' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                    >
+                        {take.thumbDataUrl ? (
+                            <img src={take.thumbDataUrl} alt={`Take ${idx + 1}`} className="w-20 h-12 object-cover" />
+                        ) : (
+                            <div className="w-20 h-12 bg-gray-200 dark:bg-gray-700" />
+                        )}
+                        <span className="absolute bottom-0 left-0 px-1 text-[10px] text-white bg-black/60">{idx + 1}</span>
+                    </button>
+                );
+            })}
+        </div>
+    </div>
+);
+
+export default TakeStrip;
@@ -0,0 +1,84 @@
+import React from 'react';
+import {
+    AUDIO_TRANSITIONS,
+    AudioTransition,
+    BoundaryTransition,
+    MAX_TRANSITION_SECONDS,
+    MIN_TRANSITION_SECONDS,
+    VIDEO_TRANSITIONS,
+    VideoTransition,
+    clampTransitionSeconds,
+} from '../lib/transitions';
+
+export interface TransitionBoundary {
+    /** Segment after the boundary; the transition is stored on it. */
+    id: string;
+    transition: BoundaryTransition;
+}
+
+interface TransitionListProps {
+    /** One entry per boundary, in timeline order; entry `i` sits between segments `i + 1` and `i + 2`. */
+    boundaries: TransitionBoundary[];
+    onChange: (id: string, transition: BoundaryTransition) => void;
+    onApplyToAll: (transition: BoundaryTransition) => void;
+    disabled?: boolean;
+}
+
+const fieldClass = 'bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md p-1 text-xs disabled:opacity-50';
+
+/** Transition, length and audio handling for every boundary between merged segments. */
+const TransitionList: React.FC<TransitionListProps> = ({ boundaries, onChange, onApplyToAll, disabled = false }) => (
+    <div className="mb-3">
+        <div className="flex items-center justify-between mb-1">
+            <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200">Transitions</h4>
+            {boundaries.length > 1 && (
+                <button type="button" onClick={() => onApplyToAll(boundaries[0].transition)} disabled={disabled} className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50">
+                    Use the first for all
+                </button>
+            )}
+        </div>
+        <div className="grid grid-cols-1 gap-1">
+            {boundaries.map(({ id, transition }, idx) => {
+                const isCut = transition.video === 'cut';
+                return (
+                    <div key={id} className="flex flex-wrap items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                        <span className="w-14 font-medium">{idx + 1} → {idx + 2}</span>
+                        <select
+                            value={transition.video}
+                            onChange={e => onChange(id, { ...transition, video: e.target.value as VideoTransition })}
+                            disabled={disabled}
+                            className={fieldClass}
+                            aria-label={`Transition from segment ${idx + 1} to ${idx + 2}`}
+                        >
+                            {VIDEO_TRANSITIONS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                        </select>
+                        <input
+                            type="number"
+                            min={MIN_TRANSITION_SECONDS}
+                            max={MAX_TRANSITION_SECONDS}
+                            step={0.1}
+                            value={transition.duration}
+                            onChange={e => onChange(id, { ...transition, duration: clampTransitionSeconds(parseFloat(e.target.value)) })}
+                            disabled={disabled || isCut}
+                            className={`w-16 ${fieldClass}`}
+                            aria-label={`Transition length from segment ${idx + 1} to ${idx + 2}, in seconds`}
+                        />
+                        <span className="text-gray-500 dark:text-gray-400">sec</span>
+                        <select
+                            value={transition.audio}
+                            onChange={e => onChange(id, { ...transition, audio: e.target.value as AudioTransition })}
+                            disabled={disabled || isCut}
+                            className={fieldClass}
+                            aria-label={`Audio from segment ${idx + 1} to ${idx + 2}`}
+                            title={isCut ? 'A cut switches the audio with the picture' : undefined}
+                        >
+                            {AUDIO_TRANSITIONS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                        </select>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+);
+
+export default TransitionList;
@@ -1,14 +1,42 @@
 import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { Type } from '@google/genai';
-import { GoogleGenAI } from "@google/genai";
+import { GenerateVideosOperation, GenerateVideosParameters, GoogleGenAI } from "@google/genai";
 import InputGroup from './InputGroup';
 import { TrashIcon, LoaderIcon } from './icons';
 import { CHARACTER_STYLES } from '../constants';
 import { trackEvent } from '../analytics';
-import { RequestQueue, QueueSnapshot } from '../lib/requestQueue';
+import { RequestQueue, QueueSnapshot, isCancelledError, sleep } from '../lib/requestQueue';
+import { LibraryCharacter } from '../types';
+import { describeCharacter, referenceImageFile } from '../lib/characterLibrary';
+import CharacterLibraryPanel from './CharacterLibraryPanel';
+import HistoryPanel from './HistoryPanel';
+import QueueCancelButtons from './QueueCancelButtons';
+import { useUndoHistory, useUndoShortcuts } from '../lib/useUndoHistory';
+import { isVeoSequence, parseVeoPrompt, splitVeoSequence, veoNegativePrompt, withPromptAdditions } from '../lib/veoPrompt';
+import { mergeNegativePrompt, negativeTerms } from '../lib/negativePrompt';
+import NegativePromptInput from './NegativePromptInput';
+import { SharedSegmentPlan, registerShareSource } from '../lib/shareLink';
+import { VideoHandoff, handoffStore } from '../lib/handoff';
+import { VideoMediaSettings, reuseStore, saveToLibrary } from '../lib/mediaLibrary';
+import { DEFAULT_POLL_OPTIONS, PollProgress, RetryEvent, fetchWithRetry, formatDuration, pollUntil } from '../lib/polling';
+import { PendingOperation, addPendingOperation, isOperationExpired, loadPendingOperations, operationFromName, removePendingOperation } from '../lib/pendingOperations';
+import { PERSON_GENERATION_OPTIONS, PersonGeneration, VeoSettings, audioEnabled, fitDuration, personGenerationChoices, supportsResolution, takeBatches, toVeoConfig, veoCapabilities } from '../lib/veoModels';
+import TakeStrip, { VideoTake } from './TakeStrip';
+import SegmentTimeline from './SegmentTimeline';
+import TransitionList from './TransitionList';
+import MusicPanel from './MusicPanel';
+import Waveform from './Waveform';
+import { ClipWindow, MIN_CLIP_SECONDS, clipWindow, moveItem } from '../lib/segmentTimeline';
+import { MediaInput, MusicInput, ProcessingOptions, ProcessingProgress, mediaProcessor } from '../lib/mediaProcessing';
+import { BoundaryTransition, DEFAULT_TRANSITION, findTooShortClip, mergedSeconds, parseTransition } from '../lib/transitions';
+import { MusicSettings, loadMusicSettings, saveMusicSettings } from '../lib/musicMix';
+import { musicLibrary } from '../lib/musicLibrary';
+import { analyzeAudio } from '../lib/waveform';
 
 interface VideoGeneratorProps {
     apiKey: string;
+    /** Whether the tab is visible; the component stays mounted while hidden. */
+    active?: boolean;
 }
 
 type ContinuityMode = 'none' | 'last_frame' | 'upload';
@@ -18,18 +46,34 @@ interface SegmentItem {
     prompt: string;
     duration: number;
     continuity: ContinuityMode;
+    /** Replaces the main negative prompt for this segment when set. */
+    negativePrompt?: string;
+    /** Per-segment overrides of the main model, AI mode and audio; unset follows the main settings. */
+    modelId?: string;
+    aiMode?: string;
+    enableAudio?: boolean;
+    /** In and out points in seconds, applied when merging. */
+    trimIn?: number;
+    trimOut?: number;
+    /** Transition from the previous segment into this one when merging; unset uses the default fade. */
+    transitionIn?: BoundaryTransition;
     imageFile?: File | null;
     imagePreview?: string | null;
     status?: string;
     error?: string | null;
+    /** URL of the active take: the one continuity, Play All and merging use. */
     videoUrl?: string | null;
     thumbDataUrl?: string | null;
+    /** Every take generated for the segment, kept for swapping. */
+    takes?: VideoTake[];
 }
 
 const ASPECT_RATIOS = ["16:9", "9:16", "1:1", "4:3", "3:4"];
 const RESOLUTIONS = ["480p", "720p", "1080p", "2K"] as const;
 const AI_MODES = ['Cinematic', 'Realistic', 'Animated', 'Documentary', 'Vlog', 'Surreal'];
 const VIDEO_MODELS = ['veo-3.0-generate-001', 'veo-3.0-fast-generate-001', 'veo-2.0-generate-001'];
+const DURATIONS = [1, 2, 3, 4, 5, 6, 7, 8];
+const TAKE_COUNTS = [1, 2, 3, 4];
 
 type Resolution = typeof RESOLUTIONS[number];
 
@@ -39,24 +83,40 @@ interface SingleVideoJobInput {
     aspectRatio: string;
     resolution: Resolution;
     enableAudio: boolean;
+    personGeneration: PersonGeneration | '';
+    enhancePrompt: boolean;
     aiMode: string;
     characterStyle: string;
+    negativePrompt: string;
     imageFile: File | null;
     modelId: string;
     apiKey: string;
+    takes: number;
 }
 
+/** Which segments a segmented run generates. */
+type SegmentRun =
+    | { mode: 'all' }
+    | { mode: 'resume' }
+    | { mode: 'regenerate'; id: string; cascade: boolean };
+
 interface SegmentJobInput {
     segments: SegmentItem[];
+    /** Segments to generate; the rest keep their video and only anchor last-frame continuity. */
+    runIds: Set<string>;
     basePrompt: string;
+    negativePrompt: string;
     aiMode: string;
     characterStyle: string;
     aspectRatio: string;
     resolution: Resolution;
     enableAudio: boolean;
+    personGeneration: PersonGeneration | '';
+    enhancePrompt: boolean;
     modelId: string;
     apiKey: string;
     queueDelayMs: number;
+    takes: number;
 }
 
 
@@ -69,34 +129,150 @@ const fileToBase64 = (file: File): Promise<string> => {
     });
 };
 
-const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
+/**
+ * Ids a run generates. Resume picks every segment without a video; regenerating with `cascade`
+ * also takes the following segments that continue from it through `last_frame`.
+ */
+const segmentsToRun = (segments: SegmentItem[], run: SegmentRun): Set<string> => {
+    if (run.mode === 'all') return new Set(segments.map(s => s.id));
+    if (run.mode === 'resume') return new Set(segments.filter(s => !s.videoUrl).map(s => s.id));
+    const start = segments.findIndex(s => s.id === run.id);
+    if (start === -1) return new Set();
+    const ids = new Set([run.id]);
+    for (let i = start + 1; run.cascade && i < segments.length && segments[i].continuity === 'last_frame'; i++) {
+        ids.add(segments[i].id);
+    }
+    return ids;
+};
+
+type LibrarySettingsSource = Pick<SingleVideoJobInput, 'modelId' | 'aspectRatio' | 'resolution' | 'enableAudio' | 'personGeneration' | 'enhancePrompt' | 'aiMode' | 'characterStyle'>;
+
+/** Settings stored with a generated video so the media library can load them back. */
+const librarySettings = (source: LibrarySettingsSource, prompt: string, negativePrompt: string, duration: number): VideoMediaSettings => ({
+    prompt,
+    negativePrompt,
+    duration,
+    modelId: source.modelId,
+    aspectRatio: source.aspectRatio,
+    resolution: source.resolution,
+    enableAudio: source.enableAudio,
+    personGeneration: source.personGeneration,
+    enhancePrompt: source.enhancePrompt,
+    aiMode: source.aiMode,
+    characterStyle: source.characterStyle,
+});
+
+/** Veo renders usually finish within two minutes; the ETA counts down from that. */
+const VIDEO_POLL = { ...DEFAULT_POLL_OPTIONS, expectedMs: 2 * 60_000 };
+
+const pollProgressText = (event: PollProgress) =>
+    `${formatDuration(event.elapsedMs)} elapsed, ${event.etaMs !== null ? `about ${formatDuration(event.etaMs)} left` : 'taking longer than usual'}`;
+
+const retryText = (event: RetryEvent) =>
+    `connection problem, retrying in ${formatDuration(event.delayMs)} (${event.retriesLeft} ${event.retriesLeft === 1 ? 'retry' : 'retries'} left)...`;
+
+/** Polls a Veo operation until it finishes; `report` receives progress and retry notices. */
+const waitForVideo = (ai: GoogleGenAI, operation: GenerateVideosOperation, signal: AbortSignal, report: (text: string) => void, immediate = false) =>
+    pollUntil(
+        operation,
+        current => ai.operations.getVideosOperation({ operation: current, config: { abortSignal: signal } }),
+        current => !!current.done,
+        { ...VIDEO_POLL, immediate, signal, onProgress: event => report(pollProgressText(event)), onRetry: event => report(retryText(event)) },
+    );
+
+const downloadVideo = (uri: string, apiKey: string, signal: AbortSignal, report: (text: string) => void) =>
+    fetchWithRetry(`${uri}&key=${apiKey}`, {}, { ...VIDEO_POLL, signal, onRetry: event => report(retryText(event)) });
+
+/** Library label of one take, e.g. "Segment 2 of 4, take 3". */
+const takeLabel = (label: string, index: number, count: number) =>
+    count < 2 ? label : label ? `${label}, take ${index + 1}` : `Take ${index + 1}`;
+
+type TakeRequest = Pick<GenerateVideosParameters, 'model' | 'prompt' | 'image'>;
+
+/** Starts enough requests for `takes` videos and returns their operations. */
+const startTakes = async (ai: GoogleGenAI, request: TakeRequest, settings: Omit<VeoSettings, 'numberOfVideos'>, takes: number, signal: AbortSignal, onStarted: (name: string) => void): Promise<GenerateVideosOperation[]> => {
+    const caps = veoCapabilities(request.model);
+    const operations: GenerateVideosOperation[] = [];
+    for (const count of takeBatches(caps, takes)) {
+        signal.throwIfAborted();
+        const operation = await ai.models.generateVideos({
+            ...request,
+            config: { ...toVeoConfig(caps, { ...settings, numberOfVideos: count }), abortSignal: signal },
+        });
+        if (operation.name) onStarted(operation.name);
+        operations.push(operation);
+    }
+    return operations;
+};
+
+/** The field's negative prompt plus any `negative_prompt` carried by a Veo JSON prompt. */
+const resolveNegativePrompt = (prompt: string, negativePrompt: string) =>
+    mergeNegativePrompt(negativePrompt, negativeTerms(veoNegativePrompt(prompt)));
+
+const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey, active = true }) => {
     const [prompt, setPrompt] = useState('');
-    const [duration, setDuration] = useState(10);
+    const veoPrompt = useMemo(() => parseVeoPrompt(prompt), [prompt]);
+    const [duration, setDuration] = useState(8);
     const [aspectRatio, setAspectRatio] = useState(ASPECT_RATIOS[0]);
     const [resolution, setResolution] = useState<typeof RESOLUTIONS[number]>("1080p");
     const [enableAudio, setEnableAudio] = useState(true);
+    const [personGeneration, setPersonGeneration] = useState<PersonGeneration | ''>('');
+    const [enhancePrompt, setEnhancePrompt] = useState(true);
+    const [takeCount, setTakeCount] = useState(1);
     const [aiMode, setAiMode] = useState(AI_MODES[0]);
     const [videoModel, setVideoModel] = useState(VIDEO_MODELS[0]); // Default to the latest model
     const [useCustomModel, setUseCustomModel] = useState(false);
     const [customModelId, setCustomModelId] = useState('');
     const [characterStyle, setCharacterStyle] = useState(CHARACTER_STYLES[0]);
+    const [negativePrompt, setNegativePrompt] = useState('');
     const [segmentedMode, setSegmentedMode] = useState(false);
     const [mergedVideoUrl, setMergedVideoUrl] = useState<string | null>(null);
     const [isMerging, setIsMerging] = useState(false);
-    const [crossfadeSeconds, setCrossfadeSeconds] = useState(0.5);
+    const [mergeProgress, setMergeProgress] = useState<ProcessingProgress | null>(null);
+    const mergeAbortRef = useRef<AbortController | null>(null);
+    const [mergedIsPreview, setMergedIsPreview] = useState(false);
+    /** Waveform of the merged video's audio; null when it has none. */
+    const [mergedPeaks, setMergedPeaks] = useState<number[] | null>(null);
+    const [musicSettings, setMusicSettings] = useState<MusicSettings>(() => loadMusicSettings());
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [imagePreview, setImagePreview] = useState<string | null>(null);
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+    const currentModelId = useCustomModel && customModelId.trim() ? customModelId.trim() : videoModel;
+    const capabilities = useMemo(() => veoCapabilities(currentModelId), [currentModelId]);
+
+    // Move settings the selected model does not accept onto ones it does
+    React.useEffect(() => {
+        if (!capabilities.aspectRatios.includes(aspectRatio)) setAspectRatio(capabilities.aspectRatios[0]);
+        if (!capabilities.durations.includes(duration)) setDuration(fitDuration(capabilities, duration));
+        if (capabilities.resolutions.length && !supportsResolution(capabilities, resolution, aspectRatio)) {
+            const supported = RESOLUTIONS.filter(r => supportsResolution(capabilities, r, aspectRatio));
+            if (supported.length) setResolution(supported[supported.length - 1]);
+        }
+    }, [capabilities, aspectRatio, duration, resolution]);
+
     // Segmented generation state
-    const [segments, setSegments] = useState<SegmentItem[]>([
+    const segmentHistory = useUndoHistory<SegmentItem[]>(() => [
         { id: crypto.randomUUID(), prompt: '', duration: 8, continuity: 'none', imageFile: null, imagePreview: null }
     ]);
+    const segments = segmentHistory.state;
+    const setSegments = segmentHistory.set;
+    // Generation progress and results are not edits, so they bypass the undo stack
+    const patchSegments = segmentHistory.patchAll;
+    // Image-to-video requests accept fewer person generation settings
+    const withImage = segmentedMode ? segments.some(s => s.continuity !== 'none') : !!imageFile;
+    const personChoices = useMemo(() => personGenerationChoices(capabilities, withImage), [capabilities, withImage]);
+    React.useEffect(() => {
+        if (personGeneration && !personChoices.includes(personGeneration)) setPersonGeneration('');
+    }, [personGeneration, personChoices]);
     const playlistVideoRef = useRef<HTMLVideoElement | null>(null);
     const playlistUrls = useMemo(() => segments.map(s => s.videoUrl).filter(Boolean) as string[], [segments]);
+    const pendingSegmentCount = segments.filter(s => !s.videoUrl).length;
     
     const [isLoading, setIsLoading] = useState(false);
     const [statusMessage, setStatusMessage] = useState('');
     const [error, setError] = useState<string | null>(null);
     const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
+    const [generatedTakes, setGeneratedTakes] = useState<VideoTake[]>([]);
     const queueDelayMsRaw = Number(import.meta.env.VITE_VIDEO_QUEUE_DELAY_MS ?? '5000');
     const queueDelayMs = Number.isFinite(queueDelayMsRaw) && queueDelayMsRaw >= 0 ? queueDelayMsRaw : 5000;
     const videoQueue = React.useMemo(() => new RequestQueue(queueDelayMs), [queueDelayMs]);
@@ -148,6 +324,45 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
         }
     };
 
+    // Library characters become a prompt prefix plus, when stored, the reference image
+    const insertLibraryCharacter = (entry: LibraryCharacter) => {
+        const prefix = describeCharacter(entry);
+        // A Veo JSON prompt already describes its cast; prefixing text would break the document
+        setPrompt(prev => prev.includes(prefix) || parseVeoPrompt(prev) ? prev : (prev.trim() ? `${prefix}\n\n${prev}` : prefix));
+        const file = referenceImageFile(entry);
+        if (!file) return;
+        const preview = URL.createObjectURL(file);
+        if (segmentedMode) {
+            // The first segment has no previous frame, so the character image anchors it instead
+            setSegments(prev => prev.map((s, idx) => {
+                if (idx !== 0) return s;
+                return { ...s, continuity: 'upload', imageFile: file, imagePreview: preview };
+            }), { label: `Used ${entry.name || 'library character'} as segment 1 reference` });
+        } else {
+            if (imagePreview) URL.revokeObjectURL(imagePreview);
+            setImageFile(file);
+            setImagePreview(preview);
+        }
+    };
+
+    // A pasted Veo sequence becomes one segment per shot, each a standalone JSON prompt
+    const splitVeoPromptIntoSegments = () => {
+        if (!veoPrompt || !isVeoSequence(veoPrompt)) return;
+        const shots = splitVeoSequence(veoPrompt);
+        if (!shots.length) return;
+        setSegments(shots.map((shot, idx) => ({
+            id: crypto.randomUUID(),
+            prompt: JSON.stringify(shot, null, 2),
+            duration: 8,
+            continuity: idx === 0 ? 'none' : 'last_frame',
+            imageFile: null,
+            imagePreview: null,
+        })), { label: `Split Veo sequence into ${shots.length} segments` });
+        setSegmentedMode(true);
+        setStatusMessage(`Split into ${shots.length} segment${shots.length === 1 ? '' : 's'}.`);
+        try { trackEvent('veo_prompt_split', { shots: shots.length }); } catch {}
+    };
+
     // Persist segments (structure only) to localStorage
     React.useEffect(() => {
         try {
@@ -156,20 +371,30 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                 prompt: s.prompt,
                 duration: s.duration,
                 continuity: s.continuity,
+                negativePrompt: s.negativePrompt || undefined,
+                modelId: s.modelId,
+                aiMode: s.aiMode,
+                enableAudio: s.enableAudio,
+                trimIn: s.trimIn,
+                trimOut: s.trimOut,
+                transitionIn: s.transitionIn,
                 thumbDataUrl: s.thumbDataUrl || null,
             }));
             localStorage.setItem('veo_segments', JSON.stringify(clean));
             localStorage.setItem('veo_segmented_mode', JSON.stringify(segmentedMode));
             localStorage.setItem('veo_base_prompt', prompt || '');
+            localStorage.setItem('veo_negative_prompt', negativePrompt);
         } catch {}
-    }, [segments, segmentedMode, prompt]);
+    }, [segments, segmentedMode, prompt, negativePrompt]);
 
     React.useEffect(() => {
         try {
             const saved = localStorage.getItem('veo_segments');
             const savedMode = localStorage.getItem('veo_segmented_mode');
             const savedPrompt = localStorage.getItem('veo_base_prompt');
+            const savedNegative = localStorage.getItem('veo_negative_prompt');
             if (savedPrompt) setPrompt(savedPrompt);
+            if (savedNegative) setNegativePrompt(savedNegative);
             if (savedMode) setSegmentedMode(JSON.parse(savedMode));
             if (saved) {
                 const arr = JSON.parse(saved) as Array<Partial<SegmentItem>>;
@@ -179,13 +404,20 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                         prompt: s.prompt || '',
                         duration: Math.max(1, Math.min(8, Number(s.duration) || 8)),
                         continuity: (s.continuity as any) || 'none',
+                        negativePrompt: typeof s.negativePrompt === 'string' ? s.negativePrompt : undefined,
+                        modelId: typeof s.modelId === 'string' && s.modelId ? s.modelId : undefined,
+                        aiMode: typeof s.aiMode === 'string' && s.aiMode ? s.aiMode : undefined,
+                        enableAudio: typeof s.enableAudio === 'boolean' ? s.enableAudio : undefined,
+                        trimIn: typeof s.trimIn === 'number' ? s.trimIn : undefined,
+                        trimOut: typeof s.trimOut === 'number' ? s.trimOut : undefined,
+                        transitionIn: parseTransition(s.transitionIn),
                         imageFile: null,
                         imagePreview: null,
                         status: undefined,
                         error: null,
                         videoUrl: null,
                         thumbDataUrl: s.thumbDataUrl || null,
-                    })));
+                    })), null);
                 }
             }
         } catch {}
@@ -193,6 +425,103 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    useUndoShortcuts(segmentHistory.undo, segmentHistory.redo, active && segmentedMode);
+
+    // Share links carry the prompt and segment plan; uploaded images and results stay local
+    const shareStateRef = useRef({ prompt, negativePrompt, segmentedMode, segments });
+    shareStateRef.current = { prompt, negativePrompt, segmentedMode, segments };
+
+    React.useEffect(() => registerShareSource('video', {
+        capture: (): SharedSegmentPlan => {
+            const current = shareStateRef.current;
+            return {
+                segmentedMode: current.segmentedMode,
+                prompt: current.prompt,
+                negativePrompt: current.negativePrompt,
+                segments: current.segments.map(s => ({
+                    prompt: s.prompt,
+                    duration: s.duration,
+                    continuity: s.continuity === 'upload' ? 'none' : s.continuity,
+                    negativePrompt: s.negativePrompt || '',
+                })),
+            };
+        },
+        restore: (plan) => {
+            setPrompt(plan.prompt);
+            setNegativePrompt(plan.negativePrompt);
+            setSegmentedMode(plan.segmentedMode);
+            if (plan.segments.length) {
+                setSegments(plan.segments.map(s => ({
+                    id: crypto.randomUUID(),
+                    ...s,
+                    negativePrompt: s.negativePrompt || undefined,
+                    imageFile: null,
+                    imagePreview: null,
+                })), { label: 'Opened shared link' });
+            }
+        },
+        hasLocalWork: () => {
+            const current = shareStateRef.current;
+            return !!current.prompt.trim() || !!current.negativePrompt.trim() || current.segments.some(s => s.prompt.trim());
+        },
+    }), [setSegments]);
+
+    // Prompts sent from the prompt builder replace the form; segments stay undoable
+    React.useEffect(() => handoffStore.subscribe('video', (handoff: VideoHandoff) => {
+        const [reference] = handoff.referenceImages;
+        setPrompt(handoff.prompt);
+        setAspectRatio(handoff.aspectRatio);
+        setCharacterStyle(handoff.characterStyle);
+        setAiMode(handoff.aiMode);
+        setNegativePrompt(handoff.negativePrompt);
+        setError(null);
+        if (handoff.segments.length) {
+            // The first segment has no previous frame, so a character image anchors it instead
+            setSegments(handoff.segments.map((s, idx) => ({
+                id: crypto.randomUUID(),
+                prompt: s.prompt,
+                duration: s.duration,
+                continuity: idx > 0 ? 'last_frame' : (reference ? 'upload' : 'none'),
+                imageFile: idx === 0 ? reference ?? null : null,
+                imagePreview: idx === 0 && reference ? URL.createObjectURL(reference) : null,
+            })), { label: `Received ${handoff.segments.length} segments from the prompt builder` });
+            setSegmentedMode(true);
+        } else {
+            setSegmentedMode(false);
+            setDuration(handoff.duration);
+            setImageFile(reference ?? null);
+            setImagePreview(reference ? URL.createObjectURL(reference) : null);
+        }
+        setStatusMessage('Prompt received from the prompt builder.');
+    }), [setSegments]);
+
+    React.useEffect(() => reuseStore.subscribe('video', (settings: VideoMediaSettings) => {
+        setSegmentedMode(false);
+        setPrompt(settings.prompt);
+        setNegativePrompt(settings.negativePrompt);
+        if (VIDEO_MODELS.includes(settings.modelId)) {
+            setUseCustomModel(false);
+            setVideoModel(settings.modelId);
+        } else {
+            setUseCustomModel(true);
+            setCustomModelId(settings.modelId);
+        }
+        setAspectRatio(settings.aspectRatio);
+        if ((RESOLUTIONS as readonly string[]).includes(settings.resolution)) setResolution(settings.resolution as Resolution);
+        setDuration(settings.duration);
+        setEnableAudio(settings.enableAudio);
+        setPersonGeneration(settings.personGeneration as PersonGeneration | '');
+        setEnhancePrompt(settings.enhancePrompt);
+        setAiMode(settings.aiMode);
+        setCharacterStyle(settings.characterStyle);
+        setGeneratedVideoUrl(null);
+        setGeneratedTakes([]);
+        setError(null);
+        setStatusMessage('Settings loaded from the media library.');
+    }), []);
+
+    const segmentLabel = (id: string) => `segment ${segments.findIndex(s => s.id === id) + 1}`;
+
     const handleSegmentImageChange = (segmentId: string, e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
@@ -201,29 +530,42 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                 return;
             }
             const preview = URL.createObjectURL(file);
-            setSegments(prev => prev.map(s => s.id === segmentId ? { ...s, imageFile: file, imagePreview: preview } : s));
+            setSegments(prev => prev.map(s => s.id === segmentId ? { ...s, imageFile: file, imagePreview: preview } : s), { label: `Set reference image for ${segmentLabel(segmentId)}` });
         }
         e.target.value = '';
     };
 
+    // Preview URLs are not revoked here: undo may bring the image back
     const clearSegmentImage = (segmentId: string) => {
-        setSegments(prev => prev.map(s => {
-            if (s.id !== segmentId) return s;
-            if (s.imagePreview) URL.revokeObjectURL(s.imagePreview);
-            return { ...s, imageFile: null, imagePreview: null };
-        }));
+        setSegments(prev => prev.map(s => s.id === segmentId ? { ...s, imageFile: null, imagePreview: null } : s), { label: `Removed reference image from ${segmentLabel(segmentId)}` });
     };
 
     const addSegment = () => {
-        setSegments(prev => [...prev, { id: crypto.randomUUID(), prompt: '', duration: 8, continuity: 'last_frame', imageFile: null, imagePreview: null }]);
+        setSegments(prev => [...prev, { id: crypto.randomUUID(), prompt: '', duration: 8, continuity: 'last_frame', imageFile: null, imagePreview: null }], { label: `Added segment ${segments.length + 1}` });
     };
     const removeSegment = (id: string) => {
-        setSegments(prev => prev.filter(s => s.id !== id));
+        setSegments(prev => prev.filter(s => s.id !== id), { label: `Deleted ${segmentLabel(id)}` });
     };
     const updateSegment = (id: string, field: keyof SegmentItem, value: any) => {
-        setSegments(prev => prev.map(s => s.id === id ? { ...s, [field]: value } : s));
+        setSegments(prev => prev.map(s => s.id === id ? { ...s, [field]: value } : s), { label: `Edited ${segmentLabel(id)} ${field}`, coalesceKey: `segment:${id}:${field}` });
+    };
+    const moveSegment = (from: number, to: number) => {
+        if (to < 0 || to >= segments.length || from === to) return;
+        setSegments(prev => moveItem(prev, from, to), { label: `Moved segment ${from + 1} to position ${to + 1}` });
+        try { trackEvent('segment_reordered', { count: segments.length }); } catch {}
+    };
+    // The copy keeps the video and takes, so a good shot can be reused with other trims
+    const duplicateSegment = (id: string) => {
+        setSegments(prev => prev.flatMap(s => s.id === id ? [s, { ...s, id: crypto.randomUUID(), status: undefined, error: null }] : [s]), { label: `Duplicated ${segmentLabel(id)}` });
+    };
+    const focusSegmentCard = (id: string) => {
+        document.getElementById(`segment-card-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
     };
 
+    /** The part of a segment's clip that survives its trim points; the clip length follows its model. */
+    const segmentWindow = (seg: SegmentItem): ClipWindow =>
+        clipWindow(fitDuration(veoCapabilities(seg.modelId || currentModelId), seg.duration), seg);
+
     const extractLastFrameBase64 = useCallback(async (videoUrl: string): Promise<{ imageBytes: string; mimeType: string }> => {
         return new Promise((resolve, reject) => {
             const video = document.createElement('video');
@@ -253,24 +595,70 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
         });
     }, []);
 
-    const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
-
-    const countdownDelay = async (ms: number, onTick: (remainingSeconds: number) => void) => {
+    const countdownDelay = async (ms: number, signal: AbortSignal, onTick: (remainingSeconds: number) => void) => {
         if (ms <= 0) return;
         let remaining = ms;
         onTick(Math.ceil(remaining / 1000));
         while (remaining > 0) {
             const step = Math.min(1000, remaining);
-            await wait(step);
+            await sleep(step, signal);
             remaining -= step;
             onTick(Math.max(0, Math.ceil(remaining / 1000)));
         }
     };
 
-    const performSingleVideoGeneration = async (context: SingleVideoJobInput) => {
-        const { apiKey: ctxApiKey, prompt: ctxPrompt, duration: ctxDuration, aspectRatio: ctxAspect, resolution: ctxResolution, enableAudio: ctxEnableAudio, aiMode: ctxAiMode, characterStyle: ctxCharacterStyle, imageFile: ctxImageFile, modelId: ctxModelId } = context;
+    /**
+     * Polls each operation and downloads every video it returned, with a last-frame thumbnail per
+     * take. A failed request only loses its own takes; the error surfaces when none came back.
+     */
+    const finishTakes = async (ai: GoogleGenAI, operations: GenerateVideosOperation[], ctxApiKey: string, signal: AbortSignal, report: (text: string) => void, immediate = false): Promise<{ blobs: Blob[]; takes: VideoTake[] }> => {
+        const blobs: Blob[] = [];
+        let firstError: unknown = null;
+        for (let k = 0; k < operations.length; k++) {
+            const prefix = operations.length > 1 ? `request ${k + 1}/${operations.length}, ` : '';
+            try {
+                const operation = await waitForVideo(ai, operations[k], signal, text => report(prefix + text), immediate);
+                if (operation.error) {
+                    throw new Error(String(operation.error.message) || 'An error occurred during video processing on the server.');
+                }
+                const uris = (operation.response?.generatedVideos ?? []).map(v => v.video?.uri).filter(Boolean) as string[];
+                if (!uris.length) {
+                    throw new Error('Video generation finished, but no video URL was returned.');
+                }
+                for (const uri of uris) {
+                    report(`${prefix}fetching take ${blobs.length + 1}...`);
+                    const videoResponse = await downloadVideo(uri, ctxApiKey, signal, text => report(prefix + text));
+                    if (!videoResponse.ok) {
+                        throw new Error(`Failed to download video: ${videoResponse.statusText}`);
+                    }
+                    blobs.push(await videoResponse.blob());
+                }
+            } catch (err) {
+                if (isCancelledError(err)) throw err;
+                console.error(err);
+                firstError = firstError ?? err;
+            }
+        }
+        if (!blobs.length) throw firstError;
+        const takes = await Promise.all(blobs.map(async (blob): Promise<VideoTake> => {
+            const url = URL.createObjectURL(blob);
+            try {
+                const frame = await extractLastFrameBase64(url);
+                return { url, thumbDataUrl: `data:${frame.mimeType};base64,${frame.imageBytes}` };
+            } catch {
+                return { url, thumbDataUrl: null };
+            }
+        }));
+        return { blobs, takes };
+    };
+
+    const performSingleVideoGeneration = async (context: SingleVideoJobInput, signal: AbortSignal) => {
+        const { apiKey: ctxApiKey, prompt: ctxPrompt, duration: ctxDuration, aspectRatio: ctxAspect, resolution: ctxResolution, enableAudio: ctxEnableAudio, personGeneration: ctxPersonGeneration, enhancePrompt: ctxEnhancePrompt, aiMode: ctxAiMode, characterStyle: ctxCharacterStyle, negativePrompt: ctxNegativePrompt, imageFile: ctxImageFile, modelId: ctxModelId, takes: ctxTakes } = context;
         setError(null);
         setStatusMessage('Initializing video generation...');
+        const jobId = crypto.randomUUID();
+        const settings = librarySettings(context, ctxPrompt, ctxNegativePrompt, ctxDuration);
+        const pendingNames: string[] = [];
         try {
             const ai = new GoogleGenAI({ apiKey: ctxApiKey });
 
@@ -278,6 +666,7 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
             if (ctxImageFile) {
                 setStatusMessage('Processing reference image...');
                 const base64Data = await fileToBase64(ctxImageFile);
+                signal.throwIfAborted();
                 imagePayload = {
                     imageBytes: base64Data,
                     mimeType: ctxImageFile.type,
@@ -287,65 +676,62 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
             const promptAdditions = [
                 `${ctxAiMode} style`,
                 `with ${ctxCharacterStyle} characters`,
-                `aspect ratio ${ctxAspect}`,
-                `${ctxDuration} seconds long`,
-                `${ctxResolution} resolution`,
-                ctxEnableAudio ? 'with cinematic audio and sound effects' : 'silent',
             ];
 
-            const fullPrompt = `${ctxPrompt}. ${promptAdditions.join(', ')}.`;
+            const fullPrompt = withPromptAdditions(ctxPrompt, promptAdditions);
+            const negative = resolveNegativePrompt(ctxPrompt, ctxNegativePrompt);
 
             setStatusMessage('Sending request to VEO model...');
-            let operation = await ai.models.generateVideos({
-                model: ctxModelId,
-                prompt: fullPrompt,
-                image: imagePayload,
-                config: { numberOfVideos: 1 }
+            const operations = await startTakes(ai, { model: ctxModelId, prompt: fullPrompt, image: imagePayload }, {
+                aspectRatio: ctxAspect,
+                durationSeconds: ctxDuration,
+                resolution: ctxResolution,
+                generateAudio: ctxEnableAudio,
+                personGeneration: ctxPersonGeneration,
+                enhancePrompt: ctxEnhancePrompt,
+                negativePrompt: negative,
+                withImage: !!imagePayload,
+            }, ctxTakes, signal, name => {
+                pendingNames.push(name);
+                addPendingOperation({ name, startedAt: Date.now(), label: '', jobId, settings });
             });
 
             setStatusMessage('Video generation started. This can take a few minutes...');
-            let pollCount = 0;
-            while (!operation.done) {
-                pollCount++;
-                setStatusMessage(`Polling for results (Attempt ${pollCount})... Please be patient.`);
-                await wait(10000);
-                operation = await ai.operations.getVideosOperation({ operation });
-            }
-
-            if (operation.error) {
-                throw new Error(String(operation.error.message) || 'An error occurred during video processing on the server.');
-            }
-
-            const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
-            if (!uri) {
-                throw new Error('Video generation finished, but no video URL was returned.');
-            }
-
-            setStatusMessage('Video generated! Fetching video data...');
-            const videoResponse = await fetch(`${uri}&key=${ctxApiKey}`);
-            if (!videoResponse.ok) {
-                throw new Error(`Failed to download video: ${videoResponse.statusText}`);
-            }
-
-            const videoBlob = await videoResponse.blob();
-            const videoUrl = URL.createObjectURL(videoBlob);
-            setGeneratedVideoUrl(videoUrl);
-            setStatusMessage('Done!');
+            const { blobs, takes } = await finishTakes(ai, operations, ctxApiKey, signal, text => setStatusMessage(`Rendering video: ${text}`));
+            setGeneratedTakes(takes);
+            setGeneratedVideoUrl(takes[0].url);
+            blobs.forEach((blob, k) => saveToLibrary({
+                kind: 'video',
+                generator: 'video',
+                blob,
+                label: takeLabel('', k, blobs.length),
+                jobId,
+                settings,
+            }));
+            setStatusMessage(blobs.length < ctxTakes ? `Done — ${blobs.length} of ${ctxTakes} takes came back.` : 'Done!');
             try { trackEvent('generate_video_success', { duration_sec: ctxDuration, segmented: false }); } catch {}
         } catch (err: any) {
+            if (isCancelledError(err)) {
+                try { trackEvent('generate_video_cancelled', { segmented: false }); } catch {}
+                throw err;
+            }
             console.error(err);
             setError(err?.message || 'An unknown error occurred during video generation.');
             try { trackEvent('generate_video_error', { message: String(err?.message || '').slice(0, 120) }); } catch {}
             throw err;
+        } finally {
+            // Only a reload leaves entries behind for the next page load to resume
+            pendingNames.forEach(removePendingOperation);
         }
     };
 
-    const performSegmentGeneration = async (context: SegmentJobInput) => {
-        const { segments: ctxSegments, basePrompt: ctxBasePrompt, aiMode: ctxAiMode, characterStyle: ctxCharacterStyle, aspectRatio: ctxAspectRatio, resolution: ctxResolution, enableAudio: ctxEnableAudio, modelId: ctxModelId, apiKey: ctxApiKey, queueDelayMs: ctxQueueDelayMs } = context;
+    const performSegmentGeneration = async (context: SegmentJobInput, signal: AbortSignal) => {
+        const { segments: ctxSegments, runIds: ctxRunIds, basePrompt: ctxBasePrompt, negativePrompt: ctxNegativePrompt, aiMode: ctxAiMode, characterStyle: ctxCharacterStyle, aspectRatio: ctxAspectRatio, resolution: ctxResolution, enableAudio: ctxEnableAudio, personGeneration: ctxPersonGeneration, enhancePrompt: ctxEnhancePrompt, modelId: ctxModelId, apiKey: ctxApiKey, queueDelayMs: ctxQueueDelayMs, takes: ctxTakes } = context;
         setError(null);
         try {
             trackEvent('generate_segments_start', {
-                count: ctxSegments.length,
+                count: ctxRunIds.size,
+                total: ctxSegments.length,
                 aspect_ratio: ctxAspectRatio,
                 resolution: ctxResolution,
                 enable_audio: ctxEnableAudio,
@@ -354,13 +740,23 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
             });
         } catch {}
 
+        let currentId: string | null = null;
+        let pendingNames: string[] = [];
+        const jobId = crypto.randomUUID();
         try {
             const ai = new GoogleGenAI({ apiKey: ctxApiKey });
             let previousUrl: string | null = null;
+            let generated = 0;
             for (let i = 0; i < ctxSegments.length; i++) {
                 const seg = ctxSegments[i];
+                if (!ctxRunIds.has(seg.id)) {
+                    // Kept segments still hand their last frame to the next generated one
+                    if (seg.videoUrl) previousUrl = seg.videoUrl;
+                    continue;
+                }
+                currentId = seg.id;
                 setStatusMessage(`Segment ${i + 1}/${ctxSegments.length}: preparing...`);
-                setSegments(prev => prev.map(s => s.id === seg.id ? { ...s, status: 'Processing...' } : s));
+                patchSegments(prev => prev.map(s => s.id === seg.id ? { ...s, status: 'Processing...' } : s));
 
                 let imagePayload: { imageBytes: string; mimeType: string } | undefined;
                 if (seg.continuity === 'last_frame' && previousUrl) {
@@ -371,61 +767,60 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                     const base64Data = await fileToBase64(seg.imageFile);
                     imagePayload = { imageBytes: base64Data, mimeType: seg.imageFile.type };
                 }
+                signal.throwIfAborted();
 
+                const segModelId = seg.modelId || ctxModelId;
+                const segAiMode = seg.aiMode || ctxAiMode;
+                const segEnableAudio = seg.enableAudio ?? ctxEnableAudio;
                 const additions = [
-                    `${ctxAiMode} style`,
+                    `${segAiMode} style`,
                     `with ${ctxCharacterStyle} characters`,
-                    `aspect ratio ${ctxAspectRatio}`,
-                    `${seg.duration} seconds long`,
-                    `${ctxResolution} resolution`,
-                    ctxEnableAudio ? 'with cinematic audio and sound effects' : 'silent',
                 ];
-                const fullPrompt = `${seg.prompt || ctxBasePrompt}. ${additions.join(', ')}.`;
+                const segmentPrompt = seg.prompt || ctxBasePrompt;
+                const fullPrompt = withPromptAdditions(segmentPrompt, additions);
+                const segmentNegative = seg.negativePrompt?.trim() || ctxNegativePrompt;
+                const negative = resolveNegativePrompt(segmentPrompt, segmentNegative);
+                const label = `Segment ${i + 1} of ${ctxSegments.length}`;
+                const settings = librarySettings({ ...context, modelId: segModelId, aiMode: segAiMode, enableAudio: segEnableAudio }, segmentPrompt, segmentNegative, seg.duration);
 
                 setStatusMessage('Sending request to VEO model...');
-                let operation = await ai.models.generateVideos({
-                    model: ctxModelId,
-                    prompt: fullPrompt,
-                    image: imagePayload,
-                    config: { numberOfVideos: 1 }
+                const operations = await startTakes(ai, { model: segModelId, prompt: fullPrompt, image: imagePayload }, {
+                    aspectRatio: ctxAspectRatio,
+                    durationSeconds: seg.duration,
+                    resolution: ctxResolution,
+                    generateAudio: segEnableAudio,
+                    personGeneration: ctxPersonGeneration,
+                    enhancePrompt: ctxEnhancePrompt,
+                    negativePrompt: negative,
+                    withImage: !!imagePayload,
+                }, ctxTakes, signal, name => {
+                    pendingNames.push(name);
+                    addPendingOperation({ name, startedAt: Date.now(), segmentId: seg.id, label, jobId, settings });
                 });
 
                 setStatusMessage('Video generation started...');
-                let pollCount = 0;
-                while (!operation.done) {
-                    pollCount++;
-                    setSegments(prev => prev.map(s => s.id === seg.id ? { ...s, status: `Polling (${pollCount})...` } : s));
-                    await wait(10000);
-                    operation = await ai.operations.getVideosOperation({ operation });
-                }
-
-                if (operation.error) {
-                    throw new Error(String(operation.error.message) || 'An error occurred during segment processing.');
-                }
-
-                const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
-                if (!uri) {
-                    throw new Error('Video generation finished, but no URL was returned.');
-                }
-
-                setStatusMessage('Fetching generated video segment...');
-                const videoResponse = await fetch(`${uri}&key=${ctxApiKey}`);
-                if (!videoResponse.ok) {
-                    throw new Error(`Failed to download segment: ${videoResponse.statusText}`);
-                }
-                const blob = await videoResponse.blob();
-                const url = URL.createObjectURL(blob);
-                previousUrl = url;
-
-                let thumb: string | null = null;
-                try {
-                    const frame = await extractLastFrameBase64(url);
-                    thumb = `data:${frame.mimeType};base64,${frame.imageBytes}`;
-                } catch {}
-                setSegments(prev => prev.map(s => s.id === seg.id ? { ...s, videoUrl: url, status: 'Done', thumbDataUrl: thumb } : s));
-
-                if (i < ctxSegments.length - 1 && ctxQueueDelayMs > 0) {
-                    await countdownDelay(ctxQueueDelayMs, (remaining) => {
+                patchSegments(prev => prev.map(s => s.id === seg.id ? { ...s, status: 'Rendering...' } : s));
+                const { blobs, takes } = await finishTakes(ai, operations, ctxApiKey, signal, text => setStatusMessage(`Segment ${i + 1}/${ctxSegments.length}: ${text}`));
+                blobs.forEach((blob, k) => saveToLibrary({
+                    kind: 'video',
+                    generator: 'video',
+                    blob,
+                    label: takeLabel(label, k, blobs.length),
+                    jobId,
+                    settings,
+                }));
+                pendingNames.forEach(removePendingOperation);
+                pendingNames = [];
+
+                // The first new take becomes active; earlier takes stay available in the strip
+                const [first] = takes;
+                previousUrl = first.url;
+                patchSegments(prev => prev.map(s => s.id === seg.id ? { ...s, takes: [...(s.takes ?? []), ...takes], videoUrl: first.url, status: 'Done', error: null, thumbDataUrl: first.thumbDataUrl } : s));
+                currentId = null;
+                generated++;
+
+                if (generated < ctxRunIds.size && ctxQueueDelayMs > 0) {
+                    await countdownDelay(ctxQueueDelayMs, signal, (remaining) => {
                         if (remaining > 0) {
                             setStatusMessage(`Waiting ${remaining}s before the next segment...`);
                         } else {
@@ -435,25 +830,37 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                 }
             }
             setStatusMessage('All segments generated! You can Play All or download each.');
-            try { trackEvent('generate_segments_complete', { count: ctxSegments.length }); } catch {}
+            try { trackEvent('generate_segments_complete', { count: generated }); } catch {}
         } catch (err: any) {
+            if (isCancelledError(err)) {
+                try { trackEvent('generate_video_cancelled', { segmented: true }); } catch {}
+                throw err;
+            }
             console.error(err);
+            const failedId = currentId;
+            if (failedId) {
+                patchSegments(prev => prev.map(s => s.id === failedId ? { ...s, status: 'Failed', error: err?.message || 'Generation failed.' } : s));
+            }
             setError(err?.message || 'An error occurred during segmented generation.');
             try { trackEvent('generate_segments_error', { message: String(err?.message || '').slice(0, 120) }); } catch {}
             throw err;
+        } finally {
+            pendingNames.forEach(removePendingOperation);
         }
     };
 
-    const handleGenerateVideo = async () => {
+    const handleGenerateVideo = async (run: SegmentRun = { mode: 'all' }) => {
         try {
             trackEvent('generate_video_start', {
                 segmented: segmentedMode,
+                run: segmentedMode ? run.mode : undefined,
                 model: (useCustomModel && customModelId.trim()) ? 'custom' : videoModel,
                 aspect_ratio: aspectRatio,
                 resolution,
                 enable_audio: enableAudio,
                 ai_mode: aiMode,
                 character_style: characterStyle,
+                negative_prompt: !!negativePrompt.trim(),
             });
         } catch {}
 
@@ -467,8 +874,11 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
             return;
         }
 
-        const modelId = useCustomModel && customModelId.trim() ? customModelId.trim() : videoModel;
-        const jobDescription = segmentedMode ? `Segmented video (${segments.length})` : 'Single video';
+        const modelId = currentModelId;
+        const jobDescription = !segmentedMode ? 'Single video'
+            : run.mode === 'resume' ? `Resume segments (${segments.filter(s => !s.videoUrl).length})`
+            : run.mode === 'regenerate' ? `Regenerate ${segmentLabel(run.id)}`
+            : `Segmented video (${segments.length})`;
 
         if (segmentedMode) {
             if (segments.length === 0) {
@@ -476,32 +886,41 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                 return;
             }
 
-            const initialSegments = segments.map(seg => ({
-                ...seg,
-                videoUrl: null,
-                error: null,
-                status: 'Queued...'
-            }));
+            const runIds = segmentsToRun(segments, run);
+            if (!runIds.size) {
+                setError('Every segment already has a video. Regenerate a segment or generate them all again.');
+                return;
+            }
 
-            setSegments(initialSegments);
+            // A full run starts over; resume and regenerate keep existing videos until they are replaced
+            const queued = (seg: SegmentItem): SegmentItem => run.mode === 'all'
+                ? { ...seg, videoUrl: null, takes: [], error: null, status: 'Queued...' }
+                : { ...seg, error: null, status: 'Queued...' };
+            patchSegments(prev => prev.map(s => runIds.has(s.id) ? queued(s) : s));
             setGeneratedVideoUrl(null);
+            setGeneratedTakes([]);
             setError(null);
 
-            const jobSegments = initialSegments.map(seg => ({ ...seg }));
+            const jobSegments = segments.map(seg => runIds.has(seg.id) ? queued(seg) : { ...seg });
 
             const job = videoQueue.enqueue(
-                () => performSegmentGeneration({
+                (signal) => performSegmentGeneration({
                     segments: jobSegments,
+                    runIds,
                     basePrompt: prompt,
+                    negativePrompt,
                     aiMode,
                     characterStyle,
                     aspectRatio,
                     resolution,
                     enableAudio,
+                    personGeneration,
+                    enhancePrompt,
                     modelId,
                     apiKey,
                     queueDelayMs,
-                }),
+                    takes: takeCount,
+                }, signal),
                 { description: jobDescription }
             );
 
@@ -511,8 +930,16 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
 
             try {
                 await job.promise;
-            } catch (_) {
-                // Errors handled inside performSegmentGeneration.
+            } catch (err) {
+                // Errors are handled inside performSegmentGeneration; a cancel only needs the statuses settled.
+                if (isCancelledError(err)) {
+                    patchSegments(prev => prev.map(s => {
+                        if (!runIds.has(s.id) || s.status === 'Done') return s;
+                        // A cancelled regeneration keeps the previous video
+                        if (s.videoUrl) return { ...s, status: 'Done' };
+                        return { ...s, status: s.status === 'Queued...' ? 'Not started (cancelled)' : 'Cancelled' };
+                    }));
+                }
             } finally {
                 setIsLoading(false);
                 setActiveQueueJobId(null);
@@ -526,6 +953,7 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
         }
 
         setGeneratedVideoUrl(null);
+        setGeneratedTakes([]);
         setError(null);
 
         const singleContext: SingleVideoJobInput = {
@@ -534,15 +962,19 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
             aspectRatio,
             resolution,
             enableAudio,
+            personGeneration,
+            enhancePrompt,
             aiMode,
             characterStyle,
+            negativePrompt,
             imageFile,
             modelId,
             apiKey,
+            takes: takeCount,
         };
 
         const job = videoQueue.enqueue(
-            () => performSingleVideoGeneration(singleContext),
+            (signal) => performSingleVideoGeneration(singleContext, signal),
             { description: jobDescription }
         );
 
@@ -560,6 +992,121 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
         }
     };
 
+    const selectGeneratedTake = (take: VideoTake) => {
+        setGeneratedVideoUrl(take.url);
+        try { trackEvent('video_take_selected', { takes: generatedTakes.length }); } catch {}
+    };
+
+    // Swapping takes changes which video later continuity, Play All and merges use
+    const selectSegmentTake = (id: string, take: VideoTake) => {
+        patchSegments(prev => prev.map(s => s.id === id ? { ...s, videoUrl: take.url, thumbDataUrl: take.thumbDataUrl } : s));
+        try { trackEvent('video_take_selected', { takes: segments.find(s => s.id === id)?.takes?.length ?? 0 }); } catch {}
+    };
+
+    const cancelActiveJob = () => {
+        if (!activeQueueJobId) return;
+        if (videoQueue.cancel(activeQueueJobId)) setStatusMessage('Cancelling...');
+    };
+
+    const cancelAllJobs = () => {
+        videoQueue.cancelAll();
+        setStatusMessage('Cancelling...');
+    };
+
+    // Finishes operations a reload interrupted: poll them from their stored names, then download
+    const performOperationResume = async (entries: PendingOperation[], ctxApiKey: string, signal: AbortSignal) => {
+        const ai = new GoogleGenAI({ apiKey: ctxApiKey });
+        let failed = 0;
+        for (let i = 0; i < entries.length; i++) {
+            const entry = entries[i];
+            const markSegment = (patch: Partial<SegmentItem>) => {
+                if (entry.segmentId) patchSegments(prev => prev.map(s => s.id === entry.segmentId ? { ...s, ...patch } : s));
+            };
+            try {
+                markSegment({ status: 'Resuming...', error: null });
+                const name = entry.label || 'video';
+                const { blobs, takes } = await finishTakes(ai, [operationFromName(entry.name)], ctxApiKey, signal, text => setStatusMessage(`Resuming ${name} (${i + 1}/${entries.length}): ${text}`), true);
+                // Resumed takes join the segment; whatever is active now stays active
+                const [first] = takes;
+                if (entry.segmentId) {
+                    patchSegments(prev => prev.map(s => s.id !== entry.segmentId ? s : {
+                        ...s,
+                        takes: [...(s.takes ?? []), ...takes],
+                        videoUrl: s.videoUrl ?? first.url,
+                        thumbDataUrl: s.videoUrl ? s.thumbDataUrl : first.thumbDataUrl,
+                        status: 'Done',
+                        error: null,
+                    }));
+                } else {
+                    setGeneratedTakes(prev => [...prev, ...takes]);
+                    setGeneratedVideoUrl(prev => prev ?? first.url);
+                }
+                blobs.forEach((blob, k) => saveToLibrary({
+                    kind: 'video',
+                    generator: 'video',
+                    blob,
+                    label: takeLabel(entry.label, k, blobs.length),
+                    jobId: entry.jobId,
+                    settings: entry.settings,
+                }));
+            } catch (err: any) {
+                if (isCancelledError(err)) throw err;
+                console.error(err);
+                failed++;
+                markSegment({ status: 'Failed', error: err?.message || 'Could not resume generation.' });
+                if (!entry.segmentId) setError(err?.message || 'Could not resume the video generation.');
+            } finally {
+                removePendingOperation(entry.name);
+            }
+        }
+        setStatusMessage(failed ? `Resumed ${entries.length - failed} of ${entries.length} generations.` : 'Generations started before the reload are done.');
+        try { trackEvent('resume_operations_complete', { count: entries.length, failed }); } catch {}
+    };
+
+    const resumePendingOperations = async (entries: PendingOperation[]) => {
+        const segmentIds = new Set(entries.map(e => e.segmentId).filter(Boolean) as string[]);
+        patchSegments(prev => prev.map(s => segmentIds.has(s.id) ? { ...s, status: 'Queued...', error: null } : s));
+        const job = videoQueue.enqueue(
+            (signal) => performOperationResume(entries, apiKey, signal),
+            { description: `Resume generations (${entries.length})` }
+        );
+        setIsLoading(true);
+        setActiveQueueJobId(job.id);
+        setStatusMessage('Resuming generations started before the reload...');
+        try {
+            await job.promise;
+        } catch (err) {
+            if (isCancelledError(err)) {
+                patchSegments(prev => prev.map(s => segmentIds.has(s.id) && !s.videoUrl ? { ...s, status: 'Cancelled' } : s));
+                // Entries still queued in a cancelled job are dropped like a cancelled generation
+                entries.forEach(e => removePendingOperation(e.name));
+            }
+        } finally {
+            setIsLoading(false);
+            setActiveQueueJobId(null);
+        }
+    };
+
+    // Once the API key has loaded, pick up operations that were still running at the last reload
+    const resumedRef = useRef(false);
+    React.useEffect(() => {
+        if (!apiKey || resumedRef.current) return;
+        resumedRef.current = true;
+        const now = Date.now();
+        const pending = loadPendingOperations();
+        const expired = pending.filter(e => isOperationExpired(e, now));
+        if (expired.length) {
+            expired.forEach(e => removePendingOperation(e.name));
+            const expiredIds = new Set(expired.map(e => e.segmentId).filter(Boolean) as string[]);
+            patchSegments(prev => prev.map(s => expiredIds.has(s.id) ? { ...s, status: 'Expired', error: 'The server no longer keeps this video. Generate it again.' } : s));
+            setError(`${expired.length} generation${expired.length === 1 ? '' : 's'} started before the reload expired on the server and cannot be downloaded.`);
+            try { trackEvent('resume_operations_expired', { count: expired.length }); } catch {}
+        }
+        const live = pending.filter(e => !isOperationExpired(e, now));
+        if (live.length) void resumePendingOperations(live);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [apiKey]);
+
     const autoGenerateSegmentPrompts = async (count: number) => {
         if (!apiKey) { setError('Please set your API key.'); return; }
         if (!prompt.trim()) { setError('Please enter a base prompt first.'); return; }
@@ -601,7 +1148,7 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                 imageFile: null,
                 imagePreview: null,
             }));
-            setSegments(newSegs.length ? newSegs : [ { id: crypto.randomUUID(), prompt: '', duration: 8, continuity: 'none', imageFile: null, imagePreview: null } ]);
+            setSegments(newSegs.length ? newSegs : [ { id: crypto.randomUUID(), prompt: '', duration: 8, continuity: 'none', imageFile: null, imagePreview: null } ], { label: 'Generated segment prompts' });
             setStatusMessage('Segment prompts generated.');
         } catch (e: any) {
             console.error(e);
@@ -611,108 +1158,113 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
         }
     };
 
-    const mergeSegmentsToMp4 = async () => {
-        const urls = segments.map(s => s.videoUrl).filter(Boolean) as string[];
-        if (urls.length < 2) { setError('Need at least two segments to merge.'); return; }
+    const saveMergedToLibrary = (blob: Blob, count: number) => {
+        const modelId = currentModelId;
+        const total = segments.reduce((sum, s) => sum + (s.videoUrl ? segmentWindow(s).kept : 0), 0);
+        saveToLibrary({
+            kind: 'video',
+            generator: 'video',
+            blob,
+            label: `Merged ${count} segments`,
+            jobId: crypto.randomUUID(),
+            settings: librarySettings(
+                { modelId, aspectRatio, resolution, enableAudio, personGeneration, enhancePrompt, aiMode, characterStyle },
+                prompt || segments.find(s => s.prompt)?.prompt || '',
+                negativePrompt,
+                total,
+            ),
+        });
+    };
+
+    /** Runs one merge on the shared FFmpeg worker with progress and a Cancel button. */
+    const runMerge = async (method: 'concat' | 'transitions' | 'preview', ready: SegmentItem[], merge: (inputs: MediaInput[], options: ProcessingOptions) => Promise<Blob>, doneMessage: string, failMessage: string) => {
+        const controller = new AbortController();
+        mergeAbortRef.current = controller;
         setIsMerging(true);
-        setStatusMessage('Preparing FFmpeg (this may take a while)...');
-        try { trackEvent('merge_segments', { method: 'concat', count: urls.length }); } catch {}
+        setMergeProgress({ ratio: 0, message: 'Loading FFmpeg...' });
         try {
-            const mod: any = await import('@ffmpeg/ffmpeg');
-            const ffmpeg = mod.createFFmpeg({ log: false });
-            await ffmpeg.load();
-            // Write segment files
-            const listLines: string[] = [];
-            for (let i = 0; i < urls.length; i++) {
-                const name = `seg${i}.mp4`;
-                ffmpeg.FS('writeFile', name, await mod.fetchFile(urls[i]));
-                listLines.push(`file ${name}`);
-            }
-            ffmpeg.FS('writeFile', 'list.txt', new TextEncoder().encode(listLines.join('\n')));
-            setStatusMessage('Merging segments...');
-            // Try stream copy concat (fast). If it fails in runtime, we can later fall back to re-encode.
-            await ffmpeg.run('-f','concat','-safe','0','-i','list.txt','-c','copy','output.mp4');
-            const data = ffmpeg.FS('readFile','output.mp4');
-            const blob = new Blob([data.buffer], { type: 'video/mp4' });
-            const url = URL.createObjectURL(blob);
-            setMergedVideoUrl(url);
-            setStatusMessage('Merged video ready.');
-            try { trackEvent('merge_segments_success', { method: 'concat' }); } catch {}
+            const inputs = ready.map(s => ({ url: s.videoUrl as string, clip: segmentWindow(s) }));
+            const blob = await merge(inputs, {
+                signal: controller.signal,
+                onProgress: progress => {
+                    setMergeProgress(progress);
+                    setStatusMessage(progress.message);
+                },
+            });
+            setMergedVideoUrl(URL.createObjectURL(blob));
+            setMergedIsPreview(method === 'preview');
+            setMergedPeaks(null);
+            analyzeAudio(blob).then(analysis => setMergedPeaks(analysis.peaks), () => setMergedPeaks(null));
+            // Previews are drafts; only full-quality merges go to the library
+            if (method !== 'preview') saveMergedToLibrary(blob, ready.length);
+            setStatusMessage(doneMessage);
+            try { trackEvent('merge_segments_success', { method }); } catch {}
         } catch (e: any) {
+            if (isCancelledError(e)) {
+                setStatusMessage('Merge cancelled.');
+                try { trackEvent('merge_segments_cancelled', { method }); } catch {}
+                return;
+            }
             console.error(e);
-            setError('Merging failed. The segments may have incompatible codecs. Try using same model/aspect/resolution for all.');
-            try { trackEvent('merge_segments_error', { method: 'concat' }); } catch {}
+            setError(e?.message ? `${failMessage} ${e.message}` : failMessage);
+            try { trackEvent('merge_segments_error', { method }); } catch {}
         } finally {
+            if (mergeAbortRef.current === controller) mergeAbortRef.current = null;
             setIsMerging(false);
+            setMergeProgress(null);
         }
     };
 
-    const mergeSegmentsWithCrossfade = async (fadeSeconds = 0.5) => {
-        const urls = segments.map(s => s.videoUrl).filter(Boolean) as string[];
-        if (urls.length < 2) { setError('Need at least two segments to merge.'); return; }
-        setIsMerging(true);
-        setStatusMessage('Loading FFmpeg (this may take a while)...');
-        try { trackEvent('merge_segments', { method: 'crossfade', count: urls.length, fade_seconds: fadeSeconds }); } catch {}
-        try {
-            const mod: any = await import('@ffmpeg/ffmpeg');
-            const ffmpeg = mod.createFFmpeg({ log: false });
-            await ffmpeg.load();
-
-            // Write all segments to FS
-            for (let i = 0; i < urls.length; i++) {
-                const name = `seg${i}.mp4`;
-                ffmpeg.FS('writeFile', name, await mod.fetchFile(urls[i]));
-            }
+    const cancelMerge = () => mergeAbortRef.current?.abort();
 
-            // Progressive merge pairwise with crossfade
-            let currentName = 'seg0.mp4';
-            for (let i = 1; i < urls.length; i++) {
-                const nextName = `seg${i}.mp4`;
-                const outName = `merge_${i}.mp4`;
-                const leftDur = Math.max(1, Number(segments[i - 1].duration) || 8);
-                const offset = Math.max(0.0, leftDur - fadeSeconds);
-                setStatusMessage(`Crossfading segment ${i} → ${i + 1} ...`);
-                try {
-                    await ffmpeg.run(
-                        '-i', currentName,
-                        '-i', nextName,
-                        '-filter_complex',
-                        `[0:v][1:v]xfade=transition=fade:duration=${fadeSeconds}:offset=${offset}[v];` +
-                        `[0:a][1:a]acrossfade=d=${fadeSeconds}[a]`,
-                        '-map', '[v]', '-map', '[a]',
-                        '-pix_fmt','yuv420p',
-                        '-movflags','+faststart',
-                        outName
-                    );
-                } catch (_err) {
-                    // Fallback: video-only crossfade
-                    await ffmpeg.run(
-                        '-i', currentName,
-                        '-i', nextName,
-                        '-filter_complex', `[0:v][1:v]xfade=transition=fade:duration=${fadeSeconds}:offset=${offset}[v]`,
-                        '-map', '[v]',
-                        '-pix_fmt','yuv420p',
-                        '-movflags','+faststart',
-                        outName
-                    );
-                }
-                // Prepare for next iteration
-                currentName = outName;
-            }
+    const mergeSegmentsToMp4 = async () => {
+        const ready = segments.filter(s => s.videoUrl);
+        if (ready.length < 2) { setError('Need at least two segments to merge.'); return; }
+        try { trackEvent('merge_segments', { method: 'concat', count: ready.length }); } catch {}
+        await runMerge('concat', ready, (inputs, options) => mediaProcessor.concat(inputs, options), 'Merged video ready.', 'Merging failed.');
+    };
 
-            const data = ffmpeg.FS('readFile', currentName);
-            const blob = new Blob([data.buffer], { type: 'video/mp4' });
-            const url = URL.createObjectURL(blob);
-            setMergedVideoUrl(url);
-            setStatusMessage('Crossfade merged video ready.');
-            try { trackEvent('merge_segments_success', { method: 'crossfade' }); } catch {}
-        } catch (e: any) {
-            console.error(e);
-            setError('Crossfade merge failed. This is CPU-intensive in the browser.');
-            try { trackEvent('merge_segments_error', { method: 'crossfade' }); } catch {}
-        } finally {
-            setIsMerging(false);
+    const setSegmentTransition = (id: string, transition: BoundaryTransition) => updateSegment(id, 'transitionIn', transition);
+
+    const applyTransitionToAll = (transition: BoundaryTransition) => {
+        setSegments(prev => prev.map((s, idx) => idx ? { ...s, transitionIn: transition } : s), { label: 'Used one transition for all boundaries' });
+    };
+
+    const updateMusicSettings = (patch: Partial<MusicSettings>) => setMusicSettings(prev => ({ ...prev, ...patch }));
+
+    React.useEffect(() => { saveMusicSettings(musicSettings); }, [musicSettings]);
+
+    /** Transition into each segment after the first, for the segments that have a video. */
+    const readyTransitions = (ready: SegmentItem[]) => ready.slice(1).map(s => s.transitionIn ?? DEFAULT_TRANSITION);
+
+    /** Length of the next transitions merge; before any video exists, of all segments. */
+    const plannedMergeSeconds = () => {
+        const ready = segments.filter(s => s.videoUrl);
+        const merged = ready.length > 1 ? ready : segments;
+        return mergedSeconds(merged.map(segmentWindow), readyTransitions(merged));
+    };
+
+    const mergeSegmentsWithTransitions = async (preview: boolean) => {
+        const ready = segments.filter(s => s.videoUrl);
+        if (ready.length < 2) { setError('Need at least two segments to merge.'); return; }
+        const transitions = readyTransitions(ready);
+        const tooShort = findTooShortClip(ready.map(segmentWindow), transitions);
+        if (tooShort >= 0) { setError(`Segment ${segments.indexOf(ready[tooShort]) + 1} is shorter than its transitions. Shorten the transitions or the trims.`); return; }
+        let music: MusicInput | undefined;
+        if (musicSettings.trackId) {
+            const track = await musicLibrary.get(musicSettings.trackId).catch(() => null);
+            if (!track) { setError('The selected music track is no longer in the music library. Pick another track or "No music".'); return; }
+            music = { blob: track.blob, seconds: track.seconds, settings: musicSettings };
         }
+        const method = preview ? 'preview' : 'transitions';
+        try { trackEvent('merge_segments', { method, count: ready.length, transitions: transitions.map(t => t.video).join(','), music: !!music, ducking: !!music && musicSettings.ducking, mute_video_audio: !!music && musicSettings.muteVideoAudio }); } catch {}
+        await runMerge(
+            method,
+            ready,
+            (inputs, options) => mediaProcessor.transitions(inputs, transitions, { ...options, preview, music }),
+            preview ? 'Preview ready. Merge with Transitions for the full-quality video.' : 'Merged video with transitions ready.',
+            preview ? 'Preview failed.' : 'Merge with transitions failed.',
+        );
     };
 
     const renderSelect = (label: string, value: string, onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void, options: readonly string[]) => {
@@ -747,6 +1299,27 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
         );
     };
 
+    /** A select whose unsupported options stay visible but disabled. */
+    const renderOptionSelect = (label: string, value: string, onChange: (value: string) => void, options: { value: string; label?: string; disabled?: boolean }[], note?: string) => (
+        <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+            <select
+                value={value}
+                onChange={e => onChange(e.target.value)}
+                disabled={!!note}
+                title={note}
+                className="appearance-none w-full bg-gray-200/50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50"
+                aria-label={label}
+            >
+                {options.map(opt => (
+                    <option key={opt.value} value={opt.value} disabled={opt.disabled}>
+                        {opt.label ?? opt.value}{opt.disabled ? ' (not supported)' : ''}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+
     return (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* INPUTS COLUMN */}
@@ -758,6 +1331,7 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                             <button type="button" onClick={() => setSegmentedMode(false)} className={`px-3 py-1 text-sm ${!segmentedMode ? 'bg-indigo-600 text-white' : 'bg-transparent text-gray-700 dark:text-gray-300'}`}>Single</button>
                             <button type="button" onClick={() => setSegmentedMode(true)} className={`px-3 py-1 text-sm ${segmentedMode ? 'bg-indigo-600 text-white' : 'bg-transparent text-gray-700 dark:text-gray-300'}`}>Segmented</button>
                         </div>
+                        <button type="button" onClick={() => setIsLibraryOpen(true)} className="ml-auto px-3 py-1 text-sm rounded-md bg-gray-600 text-white hover:bg-gray-500">Insert Character</button>
                     </div>
                     {/* Video Model at top for visibility */}
                     <div className="mb-4">
@@ -804,6 +1378,16 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                                 rows={12}
                                 aria-label="Video Prompt"
                             />
+                            {veoPrompt && (
+                                <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+                                    <span>Veo JSON prompt detected — it is sent as-is, with generation hints added to its <code>style</code> and its <code>negative_prompt</code> sent as the negative prompt.</span>
+                                    {isVeoSequence(veoPrompt) && (
+                                        <button type="button" onClick={splitVeoPromptIntoSegments} className="px-2 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors font-semibold">
+                                            Split into {veoPrompt.shots.length} segment{veoPrompt.shots.length === 1 ? '' : 's'}
+                                        </button>
+                                    )}
+                                </div>
+                            )}
                         </>
                     )}
                     {segmentedMode && (
@@ -837,19 +1421,60 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                     )}
                     {segmentedMode && (
                         <div className="mt-4 p-3 rounded-md border border-gray-300 dark:border-gray-700 bg-white/40 dark:bg-gray-900/40">
+                            <HistoryPanel items={segmentHistory.items} canUndo={segmentHistory.canUndo} canRedo={segmentHistory.canRedo} onUndo={segmentHistory.undo} onRedo={segmentHistory.redo} onJump={segmentHistory.jumpTo} />
                             <div className="flex items-center justify-between mb-2">
                                 <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200">Segments</h4>
                                 <button onClick={addSegment} className="text-sm px-2 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-700">Add Segment</button>
                             </div>
                             <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">Chain multiple 8s clips. Segment prompt overrides base prompt for that segment; leave empty to use the Base Prompt.</p>
+                            <SegmentTimeline
+                                clips={segments.map(s => {
+                                    const clip = segmentWindow(s);
+                                    return { id: s.id, thumbDataUrl: s.thumbDataUrl, seconds: clip.kept, trimmed: clip.trimmed, status: s.status };
+                                })}
+                                onMove={moveSegment}
+                                onDuplicate={duplicateSegment}
+                                onSelect={focusSegmentCard}
+                                disabled={isLoading}
+                            />
+                            {segments.length > 1 && (
+                                <TransitionList
+                                    boundaries={segments.slice(1).map(s => ({ id: s.id, transition: s.transitionIn ?? DEFAULT_TRANSITION }))}
+                                    onChange={setSegmentTransition}
+                                    onApplyToAll={applyTransitionToAll}
+                                    disabled={isMerging}
+                                />
+                            )}
+                            {segments.length > 1 && (
+                                <MusicPanel
+                                    settings={musicSettings}
+                                    onChange={updateMusicSettings}
+                                    videoSeconds={plannedMergeSeconds()}
+                                    disabled={isMerging}
+                                />
+                            )}
                             <div className="space-y-3 max-h-72 overflow-y-auto pr-1">
-                                {segments.map((s, idx) => (
-                                    <div key={s.id} className="p-3 rounded-md border border-gray-300 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-900/50">
+                                {segments.map((s, idx) => {
+                                    const segCaps = veoCapabilities(s.modelId || currentModelId);
+                                    const clip = segmentWindow(s);
+                                    return (
+                                    <div key={s.id} id={`segment-card-${s.id}`} className="p-3 rounded-md border border-gray-300 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-900/50">
                                         <div className="flex items-center justify-between mb-2">
-                                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Segment {idx + 1}</span>
-                                            {segments.length > 1 && (
-                                                <button onClick={() => removeSegment(s.id)} className="text-xs text-red-600 hover:text-red-700">Remove</button>
-                                            )}
+                                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                                                Segment {idx + 1}
+                                                {s.status && <span className={`ml-2 text-xs font-normal ${s.status === 'Failed' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`} title={s.error || undefined}>{s.status}</span>}
+                                            </span>
+                                            <div className="flex items-center gap-3">
+                                                {(s.videoUrl || s.status === 'Failed') && (
+                                                    <button type="button" onClick={() => handleGenerateVideo({ mode: 'regenerate', id: s.id, cascade: false })} disabled={isLoading} className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50">Regenerate</button>
+                                                )}
+                                                {(s.videoUrl || s.status === 'Failed') && segments[idx + 1]?.continuity === 'last_frame' && (
+                                                    <button type="button" onClick={() => handleGenerateVideo({ mode: 'regenerate', id: s.id, cascade: true })} disabled={isLoading} title="Also regenerate the following segments that continue from this one's last frame" className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50">Regenerate + following</button>
+                                                )}
+                                                {segments.length > 1 && (
+                                                    <button onClick={() => removeSegment(s.id)} className="text-xs text-red-600 hover:text-red-700">Remove</button>
+                                                )}
+                                            </div>
                                         </div>
                                         <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Prompt (optional)</label>
                                         <textarea
@@ -859,10 +1484,24 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                                             className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 mb-2"
                                             rows={2}
                                         />
+                                        <div className="mb-2">
+                                            <NegativePromptInput
+                                                compact
+                                                label="Negative prompt (optional)"
+                                                value={s.negativePrompt ?? ''}
+                                                onChange={value => updateSegment(s.id, 'negativePrompt', value)}
+                                                placeholder={negativePrompt.trim() ? `Uses: ${negativePrompt.trim()}` : 'Uses the main negative prompt'}
+                                            />
+                                        </div>
                                         <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                                             <div>
-                                                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Duration (1-8s)</label>
-                                                <input type="number" min={1} max={8} value={s.duration} onChange={e => updateSegment(s.id, 'duration', Math.max(1, Math.min(8, parseInt(e.target.value || '1', 10))))} className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2" />
+                                                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Duration (seconds)</label>
+                                                <select value={s.duration} onChange={e => updateSegment(s.id, 'duration', Number(e.target.value))} className="appearance-none w-full bg-gray-200/50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2">
+                                                    {DURATIONS.map(d => <option key={d} value={d} disabled={!segCaps.durations.includes(d)}>{d}s{segCaps.durations.includes(d) ? '' : ' (not supported)'}</option>)}
+                                                </select>
+                                                {!segCaps.durations.includes(s.duration) && (
+                                                    <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">Generated as {fitDuration(segCaps, s.duration)}s with this model.</p>
+                                                )}
                                             </div>
                                             <div>
                                                 <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Continuity</label>
@@ -890,40 +1529,121 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                                                 )}
                                             </div>
                                         </div>
+                                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-2">
+                                            <div>
+                                                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Model</label>
+                                                <select value={s.modelId ?? ''} onChange={e => updateSegment(s.id, 'modelId', e.target.value || undefined)} className="appearance-none w-full bg-gray-200/50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 text-xs">
+                                                    <option value="">Main ({currentModelId})</option>
+                                                    {VIDEO_MODELS.map(m => <option key={m} value={m}>{m}</option>)}
+                                                    {s.modelId && !VIDEO_MODELS.includes(s.modelId) && <option value={s.modelId}>{s.modelId}</option>}
+                                                </select>
+                                            </div>
+                                            <div>
+                                                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">AI Mode</label>
+                                                <select value={s.aiMode ?? ''} onChange={e => updateSegment(s.id, 'aiMode', e.target.value || undefined)} className="appearance-none w-full bg-gray-200/50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 text-xs">
+                                                    <option value="">Main ({aiMode})</option>
+                                                    {AI_MODES.map(m => <option key={m} value={m}>{m}</option>)}
+                                                </select>
+                                            </div>
+                                            <div>
+                                                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Audio</label>
+                                                <select
+                                                    value={s.enableAudio === undefined ? '' : s.enableAudio ? 'on' : 'off'}
+                                                    onChange={e => updateSegment(s.id, 'enableAudio', e.target.value === '' ? undefined : e.target.value === 'on')}
+                                                    disabled={segCaps.audio !== 'optional'}
+                                                    title={segCaps.audio === 'always' ? 'Always on for this model' : segCaps.audio === 'none' ? 'This model is silent' : undefined}
+                                                    className="appearance-none w-full bg-gray-200/50 dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 text-xs disabled:opacity-50"
+                                                >
+                                                    <option value="">Main</option>
+                                                    <option value="on">On</option>
+                                                    <option value="off">Off</option>
+                                                </select>
+                                            </div>
+                                            <div>
+                                                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Trim in (s)</label>
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={Math.max(0, clip.end - MIN_CLIP_SECONDS)}
+                                                    step={0.1}
+                                                    value={s.trimIn ?? 0}
+                                                    onChange={e => { const v = Number(e.target.value); updateSegment(s.id, 'trimIn', v > 0 ? v : undefined); }}
+                                                    className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md p-2 text-xs"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Trim out (s)</label>
+                                                <input
+                                                    type="number"
+                                                    min={clip.start + MIN_CLIP_SECONDS}
+                                                    max={clip.length}
+                                                    step={0.1}
+                                                    value={s.trimOut ?? ''}
+                                                    placeholder={`${clip.length} (end)`}
+                                                    onChange={e => { const v = e.target.value === '' ? NaN : Number(e.target.value); updateSegment(s.id, 'trimOut', Number.isFinite(v) && v < clip.length ? v : undefined); }}
+                                                    className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md p-2 text-xs"
+                                                />
+                                            </div>
+                                        </div>
+                                        {clip.trimmed && (
+                                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Merges keep {clip.start.toFixed(1)}s–{clip.end.toFixed(1)}s ({clip.kept.toFixed(1)}s).</p>
+                                        )}
                                     </div>
-                                ))}
+                                    );
+                                })}
                             </div>
                         </div>
                     )}
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
                         {renderSelect('AI Mode', aiMode, e => setAiMode(e.target.value), AI_MODES)}
                         {renderSelect('Character Style', characterStyle, e => setCharacterStyle(e.target.value), CHARACTER_STYLES)}
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Duration (seconds)</label>
-                            <input 
-                                type="number" 
-                                value={duration}
-                                min="1"
-                                max="60"
-                                onChange={e => setDuration(parseInt(e.target.value, 10))}
-                                className="w-full bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500"
-                                aria-label="Video Duration"
+                        {renderOptionSelect('Duration (seconds)', String(duration), v => setDuration(Number(v)), DURATIONS.map(d => ({ value: String(d), disabled: !capabilities.durations.includes(d) })))}
+                        {renderOptionSelect('Aspect Ratio', aspectRatio, setAspectRatio, ASPECT_RATIOS.map(r => ({ value: r, disabled: !capabilities.aspectRatios.includes(r) })))}
+                        {capabilities.resolutions.length
+                            ? renderOptionSelect('Resolution', resolution, v => setResolution(v as Resolution), RESOLUTIONS.map(r => ({ value: r, disabled: !supportsResolution(capabilities, r, aspectRatio) })))
+                            : renderOptionSelect('Resolution', '720p', () => {}, [{ value: '720p' }], 'This model renders at a fixed 720p.')}
+                        {renderOptionSelect('People', personGeneration, v => setPersonGeneration(v as PersonGeneration | ''), [
+                            { value: '', label: 'Model default' },
+                            ...PERSON_GENERATION_OPTIONS.map(o => ({ value: o.value, label: o.label, disabled: !personChoices.includes(o.value) })),
+                        ])}
+                        {renderOptionSelect(segmentedMode ? 'Takes per Segment' : 'Takes', String(takeCount), v => setTakeCount(Number(v)), TAKE_COUNTS.map(n => ({ value: String(n), label: n === 1 ? '1 take' : `${n} takes` })))}
+                    </div>
+                    <NegativePromptInput
+                        value={negativePrompt}
+                        onChange={setNegativePrompt}
+                        style={characterStyle}
+                        label={segmentedMode ? 'Negative Prompt (segments without their own)' : 'Negative Prompt'}
+                    />
+                     <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                        <div className="flex items-center">
+                            <input
+                                id="enable-audio"
+                                type="checkbox"
+                                checked={audioEnabled(capabilities, enableAudio)}
+                                onChange={(e) => setEnableAudio(e.target.checked)}
+                                disabled={capabilities.audio !== 'optional'}
+                                className="h-4 w-4 rounded border-gray-400 dark:border-gray-500 bg-gray-200 dark:bg-gray-700 text-indigo-600 focus:ring-indigo-600 disabled:opacity-50"
                             />
+                            <label htmlFor="enable-audio" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                                Enable Audio
+                                {capabilities.audio === 'always' && <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(always on for this model)</span>}
+                                {capabilities.audio === 'none' && <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(this model is silent)</span>}
+                            </label>
+                        </div>
+                        <div className="flex items-center">
+                            <input
+                                id="enhance-prompt"
+                                type="checkbox"
+                                checked={capabilities.enhancePrompt && enhancePrompt}
+                                onChange={(e) => setEnhancePrompt(e.target.checked)}
+                                disabled={!capabilities.enhancePrompt}
+                                className="h-4 w-4 rounded border-gray-400 dark:border-gray-500 bg-gray-200 dark:bg-gray-700 text-indigo-600 focus:ring-indigo-600 disabled:opacity-50"
+                            />
+                            <label htmlFor="enhance-prompt" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                                Enhance Prompt
+                                {!capabilities.enhancePrompt && <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(not configurable for this model)</span>}
+                            </label>
                         </div>
-                        {renderSelect('Aspect Ratio', aspectRatio, e => setAspectRatio(e.target.value), ASPECT_RATIOS)}
-                        {renderSelect('Resolution', resolution, e => setResolution(e.target.value), RESOLUTIONS as unknown as string[])}
-                    </div>
-                     <div className="flex items-center">
-                        <input
-                            id="enable-audio"
-                            type="checkbox"
-                            checked={enableAudio}
-                            onChange={(e) => setEnableAudio(e.target.checked)}
-                            className="h-4 w-4 rounded border-gray-400 dark:border-gray-500 bg-gray-200 dark:bg-gray-700 text-indigo-600 focus:ring-indigo-600"
-                        />
-                        <label htmlFor="enable-audio" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
-                            Enable Audio
-                        </label>
                     </div>
                 </InputGroup>
 
@@ -954,14 +1674,24 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                 </InputGroup>
                 )}
                 
+                {segmentedMode && !isLoading && pendingSegmentCount > 0 && pendingSegmentCount < segments.length && (
+                    <button
+                        type="button"
+                        onClick={() => handleGenerateVideo({ mode: 'resume' })}
+                        className="w-full flex justify-center items-center px-6 py-2 text-sm font-medium rounded-md text-indigo-700 dark:text-indigo-300 border border-indigo-300 dark:border-indigo-700 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                    >
+                        Resume — generate the {pendingSegmentCount} segment{pendingSegmentCount === 1 ? '' : 's'} without a video
+                    </button>
+                )}
                 <button
-                    onClick={handleGenerateVideo}
+                    onClick={() => handleGenerateVideo()}
                     disabled={isLoading}
                     className="w-full flex justify-center items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 dark:focus:ring-offset-gray-900 focus:ring-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed transition-colors"
                 >
                     {isLoading ? <><LoaderIcon /> <span className="ml-2">Generating...</span></> : (segmentedMode ? 'Generate Segments' : 'Generate Video')}
                 </button>
             </div>
+            <CharacterLibraryPanel open={isLibraryOpen} onClose={() => setIsLibraryOpen(false)} onInsert={insertLibraryCharacter} insertLabel="Use in Video" />
             {/* OUTPUT COLUMN (side-by-side on desktop, stacked on mobile) */}
             <div className="sticky top-[150px] h-fit flex flex-col justify-center items-center bg-white/50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg p-4 min-h-[400px] backdrop-blur-sm">
                 {isLoading ? (
@@ -971,6 +1701,13 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                         <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5 mt-2">
                            <div className="bg-indigo-600 h-2.5 rounded-full animate-pulse w-3/4 mx-auto"></div>
                         </div>
+                        {activeQueueJobId && (
+                            <QueueCancelButtons
+                                onCancel={cancelActiveJob}
+                                onCancelAll={cancelAllJobs}
+                                jobCount={queueSnapshot.queuedIds.length + (queueSnapshot.activeTaskId ? 1 : 0)}
+                            />
+                        )}
                     </div>
                 ) : error ? (
                     <div className="w-full p-4 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 rounded-lg break-words max-h-48 overflow-auto overflow-x-hidden" role="alert">
@@ -993,6 +1730,9 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                         <video controls src={generatedVideoUrl} className="w-full rounded-lg border border-gray-300 dark:border-gray-700 shadow-lg" onPlay={() => { try { trackEvent('video_play', { kind: 'single' }); } catch {} }}>
                             Your browser does not support the video tag.
                         </video>
+                        {generatedTakes.length > 1 && (
+                            <TakeStrip takes={generatedTakes} activeUrl={generatedVideoUrl} onSelect={selectGeneratedTake} />
+                        )}
                     </div>
                 ) : playlistUrls.length > 0 ? (
                     <div className="w-full">
@@ -1044,38 +1784,47 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                                     >
                                         {isMerging ? 'Merging…' : 'Merge (Fast)'}
                                     </button>
-                                    <div className="flex items-center gap-2">
-                                        <label className="text-xs text-gray-700 dark:text-gray-300">Crossfade</label>
-                                        <input
-                                            type="number"
-                                            min={0.1}
-                                            max={2}
-                                            step={0.1}
-                                            value={crossfadeSeconds}
-                                            onChange={(e) => setCrossfadeSeconds(Math.max(0.1, Math.min(2, parseFloat(e.target.value || '0.5'))))}
-                                            className="w-20 bg-gray-200/50 dark:bg-gray-700/50 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-md p-1"
-                                            aria-label="Crossfade seconds"
-                                        />
-                                        <span className="text-xs text-gray-500 dark:text-gray-400">sec</span>
-                                        <button
-                                            onClick={() => mergeSegmentsWithCrossfade(crossfadeSeconds)}
-                                            disabled={isMerging}
-                                            className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400"
-                                            title="Re-encode with crossfade transitions (slower)"
-                                        >
-                                            {isMerging ? 'Merging…' : 'Merge with Crossfade'}
-                                        </button>
-                                    </div>
+                                    <button
+                                        onClick={() => mergeSegmentsWithTransitions(true)}
+                                        disabled={isMerging}
+                                        className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-purple-700 dark:text-purple-300 border border-purple-600 hover:bg-purple-50 dark:hover:bg-purple-900/30 disabled:opacity-50"
+                                        title="Quick low-resolution render to check the transitions"
+                                    >
+                                        Preview Transitions
+                                    </button>
+                                    <button
+                                        onClick={() => mergeSegmentsWithTransitions(false)}
+                                        disabled={isMerging}
+                                        className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400"
+                                        title="Re-encode at full quality with each boundary's transition (slower)"
+                                    >
+                                        {isMerging ? 'Merging…' : 'Merge with Transitions'}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                        {mergeProgress && (
+                            <div className="mb-4">
+                                <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+                                    <span>{mergeProgress.message}</span>
+                                    <span className="inline-flex items-center gap-2">
+                                        {Math.round(mergeProgress.ratio * 100)}%
+                                        <button type="button" onClick={cancelMerge} className="text-red-600 dark:text-red-400 hover:underline">Cancel</button>
+                                    </span>
+                                </div>
+                                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5" role="progressbar" aria-label="Merge progress" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(mergeProgress.ratio * 100)}>
+                                    <div className="bg-indigo-600 h-1.5 rounded-full transition-all" style={{ width: `${Math.max(1, mergeProgress.ratio * 100)}%` }} />
                                 </div>
                             </div>
                         )}
                         {mergedVideoUrl && (
                             <div className="mt-2">
                                 <div className="flex items-center justify-between mb-2">
-                                    <h3 className="text-md font-semibold text-gray-900 dark:text-white">Merged Video</h3>
+                                    <h3 className="text-md font-semibold text-gray-900 dark:text-white">{mergedIsPreview ? 'Transition Preview (low resolution)' : 'Merged Video'}</h3>
                                     <a href={mergedVideoUrl} download={`veo-merged-${Date.now()}.mp4`} className="text-sm text-white bg-indigo-600 hover:bg-indigo-700 px-3 py-1.5 rounded-md" onClick={() => { try { trackEvent('video_download', { kind: 'merged' }); } catch {} }}>Download MP4</a>
                                 </div>
                                 <video controls src={mergedVideoUrl} className="w-full rounded-lg border border-gray-300 dark:border-gray-700 shadow" onPlay={() => { try { trackEvent('video_play', { kind: 'merged' }); } catch {} }} />
+                                {mergedPeaks && <Waveform peaks={mergedPeaks} label="Waveform of the merged audio" className="h-10 mt-2" />}
                             </div>
                         )}
                         <div className="grid grid-cols-1 gap-3">
@@ -1094,6 +1843,9 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ apiKey }) => {
                                             <a href={s.videoUrl} download={`veo-segment-${idx + 1}.mp4`} className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline" onClick={() => { try { trackEvent('video_download', { kind: 'segment', index: idx + 1 }); } catch {} }}>Download</a>
                                         )}
                                     </div>
+                                    {s.takes && s.takes.length > 1 && (
+                                        <TakeStrip takes={s.takes} activeUrl={s.videoUrl} onSelect={take => selectSegmentTake(s.id, take)} />
+                                    )}
                                 </div>
                             ))}
                         </div>
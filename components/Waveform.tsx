@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface WaveformProps {
+    peaks: number[];
+    /** Part of the audio that is used, as 0–1 fractions; the rest is dimmed. */
+    range?: { start: number; end: number };
+    label: string;
+    className?: string;
+}
+
+/** Bar waveform of an audio track's peaks. */
+const Waveform: React.FC<WaveformProps> = ({ peaks, range, label, className = 'h-12' }) => {
+    const count = Math.max(1, peaks.length);
+    return (
+        <svg viewBox={`0 0 ${count} 100`} preserveAspectRatio="none" className={`w-full rounded bg-gray-100 dark:bg-gray-900 ${className}`} role="img" aria-label={label}>
+            {peaks.map((peak, i) => {
+                const height = Math.max(2, peak * 100);
+                const used = !range || (i / count >= range.start && i / count < range.end);
+                return (
+                    <rect
+                        key={i}
+                        x={i + 0.15}
+                        y={(100 - height) / 2}
+                        width={0.7}
+                        height={height}
+                        className={used ? 'fill-indigo-500' : 'fill-gray-400 dark:fill-gray-600'}
+                    />
+                );
+            })}
+        </svg>
+    );
+};
+
+export default Waveform;
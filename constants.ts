@@ -26,6 +26,45 @@ export const SHOOTING_STYLES = [
   "Panning", "Tilting", "Crane Shot", "Drone Shot", "Found Footage"
 ];
 
+export const DIALOGUE_EMOTIONS = [
+  "Happy", "Sad", "Angry", "Excited", "Nervous", "Calm", "Fearful", "Surprised",
+  "Sarcastic", "Tender", "Determined", "Playful", "Bored", "Suspicious"
+];
+
+export const DIALOGUE_DELIVERIES = [
+  "Whisper", "Shout", "Mumble", "Sing-song", "Laughing", "Crying", "Fast-paced",
+  "Slow and deliberate", "Hesitant", "Breathless", "Deadpan"
+];
+
+export const DIALOGUE_LANGUAGES = ["Indonesian", "English", "Malay", "Javanese", "Sundanese", "Spanish", "Japanese"];
+
+/** Length of one generated clip; Veo 3 always renders 8 seconds. */
+export const TARGET_CLIP_SECONDS = 8;
+
+export const CAMERA_MOVES = [
+  "Static", "Slow push-in", "Pull back", "Pan left", "Pan right", "Tilt up", "Tilt down",
+  "Tracking", "Orbit", "Crane up", "Whip pan", "Rack focus", "Handheld shake"
+];
+
+export const AUDIO_MIX_MODES = [
+  { value: 'full', label: 'Full mix' },
+  { value: 'no_music', label: 'No music' },
+  { value: 'dialogue_only', label: 'Dialogue only' },
+] as const;
+
+export const AMBIENCE_PRESETS = [
+  "Busy city street", "Quiet forest with birdsong", "Rain on a tin roof", "Ocean waves", "Crowded market",
+  "Night crickets", "Office hum", "Wind through trees", "Distant traffic", "Thunderstorm"
+];
+
+export const MUSIC_GENRES = [
+  "Orchestral", "Lo-fi", "Gamelan", "Dangdut", "Jazz", "Electronic", "Acoustic guitar", "Piano", "Ambient", "Rock", "Hip-hop"
+];
+
+export const MUSIC_MOODS = ["Uplifting", "Melancholic", "Tense", "Romantic", "Playful", "Epic", "Mysterious", "Peaceful"];
+
+export const MUSIC_TEMPOS = ["Slow", "Moderate", "Fast", "Building"];
+
 export const CHARACTER_STYLES = ['Photorealistic', 'Claymation', 'Anime', 'Cartoon', 'Pixel Art', '3D Model'];
 
 export const STORYBOOK_AGES = ["3-5 years old", "6-8 years old", "9-12 years old"];
@@ -0,0 +1,20 @@
+import { AudioMixMode, ShotAudio } from '../types';
+
+/** Which parts of a shot's audio block a mix mode keeps. Narration is speech, so every mode keeps it. */
+export const audioParts = (mode: AudioMixMode) => ({
+  music: mode === 'full',
+  ambience: mode !== 'dialogue_only',
+  sfx: mode !== 'dialogue_only',
+});
+
+export const hasMusic = (audio: ShotAudio) => !!(audio.musicGenre.trim() || audio.musicMood.trim() || audio.musicTempo.trim());
+
+/** Fields that are filled in but dropped by the mix mode, e.g. music in "No music". */
+export const ignoredAudioParts = (audio: ShotAudio): string[] => {
+  const parts = audioParts(audio.mode);
+  return [
+    !parts.music && hasMusic(audio) && 'music',
+    !parts.ambience && audio.ambience.trim() && 'ambience',
+    !parts.sfx && audio.sfx.length > 0 && 'sound effects',
+  ].filter((part): part is string => !!part);
+};
@@ -0,0 +1,84 @@
+import { ActionBeat, Shot } from '../types';
+import { TARGET_CLIP_SECONDS } from '../constants';
+
+/**
+ * Timed action beats within one clip ("0–2s: …, 2–5s: …"). Validation is shared by the track
+ * editor and the prompt check so both report the same problems.
+ */
+
+/** Editor drags and new beats land on this grid. */
+export const BEAT_SNAP_SECONDS = 0.5;
+const DEFAULT_BEAT_SECONDS = 2;
+
+export const snapSeconds = (value: number) => Math.round(value / BEAT_SNAP_SECONDS) * BEAT_SNAP_SECONDS;
+
+export const sortBeats = (beats: ActionBeat[]) => [...beats].sort((a, b) => a.start - b.start || a.end - b.end);
+
+/** A new beat that continues after the last one, or fills the end of the clip when it is full. */
+export const createBeat = (beats: ActionBeat[], clipLength = TARGET_CLIP_SECONDS): ActionBeat => {
+  const lastEnd = beats.reduce((max, b) => Math.max(max, b.end), 0);
+  const start = Math.min(lastEnd, Math.max(0, clipLength - BEAT_SNAP_SECONDS));
+  return {
+    id: crypto.randomUUID(),
+    start,
+    end: Math.min(clipLength, start + DEFAULT_BEAT_SECONDS),
+    action: '',
+    camera: '',
+  };
+};
+
+/** Drops links to dialogue lines that no longer exist in the shot. */
+export const pruneBeatLinks = (shot: Shot): Shot => {
+  const lineIds = new Set(shot.dialogues.map(d => d.id));
+  if (shot.beats.every(b => !b.dialogueId || lineIds.has(b.dialogueId))) return shot;
+  return {
+    ...shot,
+    beats: shot.beats.map(b => (b.dialogueId && !lineIds.has(b.dialogueId) ? { ...b, dialogueId: undefined } : b)),
+  };
+};
+
+export interface BeatProblem {
+  beatId: string;
+  /** 1-based position in start order, as shown in the editor. */
+  number: number;
+  severity: 'error' | 'warning';
+  kind: 'order' | 'overrun' | 'overlap' | 'empty' | 'link' | 'line-timing';
+  message: string;
+}
+
+export const validateBeats = (shot: Shot, clipLength = TARGET_CLIP_SECONDS): BeatProblem[] => {
+  const problems: BeatProblem[] = [];
+  const sorted = sortBeats(shot.beats);
+  sorted.forEach((beat, i) => {
+    const base = { beatId: beat.id, number: i + 1 };
+    if (beat.end <= beat.start) {
+      problems.push({ ...base, severity: 'error', kind: 'order', message: `ends at ${beat.end}s, before it starts at ${beat.start}s.` });
+    }
+    if (beat.start < 0 || beat.end > clipLength) {
+      problems.push({ ...base, severity: 'error', kind: 'overrun', message: `runs outside the ${clipLength}s clip (${beat.start}–${beat.end}s).` });
+    }
+    const previous = sorted[i - 1];
+    if (previous && beat.start < previous.end) {
+      problems.push({ ...base, severity: 'warning', kind: 'overlap', message: `overlaps beat ${i} by ${previous.end - beat.start}s.` });
+    }
+    if (!beat.action.trim() && !beat.camera.trim() && !beat.dialogueId) {
+      problems.push({ ...base, severity: 'warning', kind: 'empty', message: 'has no action, camera move or line, so it is left out of the prompt.' });
+    }
+    if (beat.dialogueId) {
+      const line = shot.dialogues.find(d => d.id === beat.dialogueId);
+      if (!line) {
+        problems.push({ ...base, severity: 'warning', kind: 'link', message: 'refers to a dialogue line that was deleted.' });
+      } else if (line.startTime !== undefined && (line.startTime < beat.start || line.startTime >= beat.end)) {
+        problems.push({ ...base, severity: 'warning', kind: 'line-timing', message: `links a line that starts at ${line.startTime}s, outside the beat.` });
+      }
+    }
+  });
+  return problems;
+};
+
+/** Moves an overrunning beat back inside the clip, keeping its length where possible. */
+export const fitBeatToClip = (beat: ActionBeat, clipLength = TARGET_CLIP_SECONDS): ActionBeat => {
+  const length = Math.min(Math.max(beat.end - beat.start, BEAT_SNAP_SECONDS), clipLength);
+  const start = Math.min(Math.max(0, beat.start), clipLength - length);
+  return { ...beat, start, end: start + length };
+};
@@ -0,0 +1,142 @@
+import { Character, LibraryCharacter, StoryCharacter } from '../types';
+import { CHARACTER_STYLES, GENDERS, RACES, VOICES } from '../constants';
+import { RecordStore } from './idb';
+
+const DB_NAME = 'veo_character_library';
+const DB_VERSION = 1;
+const STORE = 'characters';
+
+const byUpdatedDesc = (a: LibraryCharacter, b: LibraryCharacter) => b.updatedAt - a.updatedAt;
+
+export class CharacterLibrary extends RecordStore<LibraryCharacter> {
+  constructor() {
+    super(DB_NAME, DB_VERSION, STORE, byUpdatedDesc);
+  }
+
+  save(entry: LibraryCharacter): Promise<LibraryCharacter> {
+    return this.putRecord({ ...entry, tags: normalizeTags(entry.tags), updatedAt: Date.now() });
+  }
+
+  async duplicate(id: string): Promise<LibraryCharacter | null> {
+    const source = await this.get(id);
+    if (!source) return null;
+    const now = Date.now();
+    return this.save({
+      ...source,
+      id: crypto.randomUUID(),
+      name: source.name ? `${source.name} (copy)` : '',
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  remove(id: string): Promise<void> {
+    return this.deleteRecords([id]);
+  }
+}
+
+export const characterLibrary = new CharacterLibrary();
+
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean)));
+
+export const createLibraryCharacter = (fields: Partial<LibraryCharacter> = {}): LibraryCharacter => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    characterStyle: CHARACTER_STYLES[0],
+    race: RACES[0],
+    customRace: '',
+    gender: GENDERS[0],
+    age: '25',
+    outfit: '',
+    hairstyle: '',
+    voice: VOICES[0],
+    description: '',
+    tags: [],
+    referenceImage: null,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  };
+};
+
+/** Library entry built from a prompt-builder character; keeps the library id when it was inserted from one. */
+export const fromPromptCharacter = (character: Character, existing?: LibraryCharacter | null): LibraryCharacter => {
+  const { id: _id, libraryId, ...fields } = character;
+  return createLibraryCharacter({
+    ...(existing ?? {}),
+    ...fields,
+    id: existing?.id ?? libraryId ?? crypto.randomUUID(),
+  });
+};
+
+/** Prompt-builder copy of a library entry. A fresh id lets the same entry appear more than once. */
+export const toPromptCharacter = (entry: LibraryCharacter): Character => ({
+  id: crypto.randomUUID(),
+  libraryId: entry.id,
+  name: entry.name,
+  characterStyle: entry.characterStyle,
+  race: entry.race,
+  customRace: entry.customRace,
+  gender: entry.gender,
+  age: entry.age,
+  outfit: entry.outfit,
+  hairstyle: entry.hairstyle,
+  voice: entry.voice,
+  description: entry.description,
+});
+
+const resolveRace = (c: Pick<Character, 'race' | 'customRace'>) => (c.race === 'Other (Custom)' ? c.customRace : c.race);
+
+/**
+ * Canonical English description of a character. Every tab uses this same sentence so a recurring
+ * character is described identically wherever it is inserted.
+ */
+export const describeCharacter = (c: Omit<Character, 'id'>): string => {
+  const parts = [
+    `${c.name || 'The character'} is a ${c.age}-year-old ${resolveRace(c)} ${c.gender}, rendered in a ${c.characterStyle} style`,
+  ];
+  if (c.outfit) parts.push(`wearing ${c.outfit}`);
+  if (c.hairstyle) parts.push(`with ${c.hairstyle} hair`);
+  let text = `${parts.join(', ')}.`;
+  if (c.voice) text += ` Their voice is ${c.voice}.`;
+  return text;
+};
+
+export const toStoryCharacter = (entry: LibraryCharacter, current: StoryCharacter): StoryCharacter => {
+  const appearance = [
+    `${entry.characterStyle} style`,
+    entry.outfit && `wearing ${entry.outfit}`,
+    entry.hairstyle && `${entry.hairstyle} hair`,
+    entry.voice && `${entry.voice} voice`,
+  ].filter(Boolean).join(', ');
+  return {
+    ...current,
+    name: entry.name,
+    species: 'Other (Custom)',
+    customSpecies: `${entry.age}-year-old ${resolveRace(entry)} ${entry.gender}`.trim(),
+    appearance,
+  };
+};
+
+export const referenceImageFile = (entry: LibraryCharacter): File | null => {
+  if (!entry.referenceImage) return null;
+  const type = entry.referenceImage.type || 'image/png';
+  const ext = type.split('/')[1] || 'png';
+  const base = (entry.name || 'character').replace(/[^\w-]+/g, '_');
+  return new File([entry.referenceImage], `${base}.${ext}`, { type });
+};
+
+export const filterLibrary = (items: LibraryCharacter[], query: string, tag: string | null): LibraryCharacter[] => {
+  const q = query.trim().toLowerCase();
+  return items.filter((item) => {
+    if (tag && !item.tags.includes(tag)) return false;
+    if (!q) return true;
+    const haystack = [item.name, item.race, item.customRace, item.outfit, item.hairstyle, item.description, ...item.tags]
+      .join(' ')
+      .toLowerCase();
+    return haystack.includes(q);
+  });
+};
@@ -0,0 +1,141 @@
+import { Character, PromptData, Shot } from '../types';
+import { CHARACTER_STYLES, TARGET_CLIP_SECONDS } from '../constants';
+import { characterLibrary, referenceImageFile } from './characterLibrary';
+
+/**
+ * Hands a finished prompt from the prompt builder to the Video and Image generators. Each
+ * generator owns its form state, so the builder posts a payload here and the generator applies it
+ * when it subscribes. Payloads sent to a tab that is not listening wait until it does.
+ */
+
+export interface HandoffSegment {
+  prompt: string;
+  duration: number;
+}
+
+export interface VideoHandoff {
+  prompt: string;
+  /** Seconds for a single prompt; segments carry their own. */
+  duration: number;
+  /** One segment per shot; empty sends a single prompt. */
+  segments: HandoffSegment[];
+  aspectRatio: string;
+  characterStyle: string;
+  aiMode: string;
+  negativePrompt: string;
+  /** Library reference images of the cast, in cast order. */
+  referenceImages: File[];
+}
+
+export interface ImageHandoff {
+  prompt: string;
+  aspectRatio: string;
+  stylePreset: string;
+  referenceImages: File[];
+}
+
+export interface Handoffs {
+  video: VideoHandoff;
+  image: ImageHandoff;
+}
+
+export type HandoffTarget = keyof Handoffs;
+
+/** Delivers payloads keyed by target; `M` maps each target to its payload type. */
+export class HandoffStore<M> {
+  private readonly pending = new Map<keyof M, M[keyof M]>();
+  private readonly listeners = new Map<keyof M, (payload: any) => void>();
+
+  send<K extends keyof M>(target: K, payload: M[K]) {
+    const listener = this.listeners.get(target);
+    if (listener) listener(payload);
+    else this.pending.set(target, payload);
+  }
+
+  /** One listener per target; a payload that arrived before it subscribed is delivered right away. */
+  subscribe<K extends keyof M>(target: K, listener: (payload: M[K]) => void): () => void {
+    this.listeners.set(target, listener);
+    const waiting = this.pending.get(target) as M[K] | undefined;
+    if (waiting) {
+      this.pending.delete(target);
+      listener(waiting);
+    }
+    return () => {
+      if (this.listeners.get(target) === listener) this.listeners.delete(target);
+    };
+  }
+}
+
+export const handoffStore = new HandoffStore<Handoffs>();
+
+// --- Derived settings ---
+
+const ASPECT_PATTERN = /\b(16:9|9:16|1:1|4:3|3:4)\b/;
+
+/** An aspect ratio named in a shot's other options ("9:16", "vertical", "square"), else landscape. */
+export const deriveAspectRatio = (shots: Shot[]): string => {
+  for (const shot of shots) {
+    const options = shot.environment.otherOptions.toLowerCase();
+    const explicit = options.match(ASPECT_PATTERN);
+    if (explicit) return explicit[1];
+    if (/\b(vertical|portrait)\b/.test(options)) return '9:16';
+    if (/\bsquare\b/.test(options)) return '1:1';
+  }
+  return '16:9';
+};
+
+const castOf = (data: PromptData, shots: Shot[]): Character[] => {
+  const ids = new Set(shots.flatMap(shot => shot.characterIds));
+  return data.characters.filter(c => ids.has(c.id));
+};
+
+/** The character style most of the cast shares. */
+export const deriveCharacterStyle = (data: PromptData, shots: Shot[]): string => {
+  const counts = new Map<string, number>();
+  castOf(data, shots).forEach(c => counts.set(c.characterStyle, (counts.get(c.characterStyle) ?? 0) + 1));
+  let best = CHARACTER_STYLES[0];
+  let bestCount = 0;
+  counts.forEach((count, style) => {
+    if (count > bestCount) {
+      best = style;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/** Video generator AI mode for a character style. */
+export const videoModeFor = (characterStyle: string) => (characterStyle === 'Photorealistic' ? 'Cinematic' : 'Animated');
+
+const IMAGE_STYLE_PRESETS: Record<string, string> = {
+  Photorealistic: 'Photorealistic',
+  Claymation: '3D',
+  Anime: 'Anime',
+  Cartoon: 'Illustration',
+  'Pixel Art': 'Pixel',
+  '3D Model': '3D',
+};
+
+/** Image generator style preset for a character style. */
+export const imageStyleFor = (characterStyle: string) => IMAGE_STYLE_PRESETS[characterStyle] ?? 'Default';
+
+/** Time left after a timed line or cue starts, so it is not cut off. */
+const TAIL_SECONDS = 2;
+
+/** Seconds the shot needs to fit its timed beats, lines and cues; a full clip when nothing is timed. */
+export const shotDuration = (shot: Shot): number => {
+  const ends = [
+    ...shot.beats.map(b => b.end),
+    ...shot.dialogues.map(d => (d.startTime === undefined ? 0 : d.startTime + TAIL_SECONDS)),
+    ...shot.audio.sfx.map(c => c.time + TAIL_SECONDS),
+  ];
+  const last = Math.ceil(Math.max(0, ...ends));
+  return last > 0 ? Math.min(TARGET_CLIP_SECONDS, Math.max(1, last)) : TARGET_CLIP_SECONDS;
+};
+
+/** Reference images stored in the library for the cast of these shots. */
+export const castReferenceImages = async (data: PromptData, shots: Shot[]): Promise<File[]> => {
+  const libraryIds = Array.from(new Set(castOf(data, shots).map(c => c.libraryId).filter((id): id is string => !!id)));
+  const entries = await Promise.all(libraryIds.map(id => characterLibrary.get(id).catch(() => null)));
+  return entries.map(entry => (entry ? referenceImageFile(entry) : null)).filter((file): file is File => !!file);
+};
@@ -0,0 +1,122 @@
+export type UpgradeHandler = (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+export function openDatabase(name: string, version: number, upgrade: UpgradeHandler): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction as IDBTransaction);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`IndexedDB "${name}" is blocked by another open tab.`));
+  });
+}
+
+type RecordListener<T> = (records: T[]) => void;
+
+/**
+ * One object store of records keyed by `id`, in a database of its own that is opened on first
+ * use. Subscribers get the whole sorted list after every change; libraries extend this with their
+ * record-specific methods.
+ */
+export class RecordStore<T extends { id: string }> {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private readonly listeners = new Set<RecordListener<T>>();
+
+  constructor(
+    private readonly dbName: string,
+    private readonly dbVersion: number,
+    private readonly storeName: string,
+    private readonly compare: (a: T, b: T) => number,
+  ) {}
+
+  async list(): Promise<T[]> {
+    const db = await this.db();
+    const records = await requestToPromise(db.transaction(this.storeName, 'readonly').objectStore(this.storeName).getAll() as IDBRequest<T[]>);
+    return records.sort(this.compare);
+  }
+
+  async get(id: string): Promise<T | null> {
+    const db = await this.db();
+    const record = await requestToPromise(db.transaction(this.storeName, 'readonly').objectStore(this.storeName).get(id) as IDBRequest<T | undefined>);
+    return record ?? null;
+  }
+
+  subscribe(listener: RecordListener<T>): () => void {
+    this.listeners.add(listener);
+    this.list().then(listener).catch((err) => console.error(err));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected async putRecord(record: T): Promise<T> {
+    const db = await this.db();
+    const tx = db.transaction(this.storeName, 'readwrite');
+    tx.objectStore(this.storeName).put(record);
+    await transactionDone(tx);
+    void this.notify();
+    return record;
+  }
+
+  /** Reads and rewrites one record in a single transaction; a missing record is left alone. */
+  protected async updateRecord(id: string, change: (record: T) => T): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction(this.storeName, 'readwrite');
+    const store = tx.objectStore(this.storeName);
+    const record = await requestToPromise(store.get(id) as IDBRequest<T | undefined>);
+    if (record) store.put(change(record));
+    await transactionDone(tx);
+    void this.notify();
+  }
+
+  protected async deleteRecords(ids: string[]): Promise<void> {
+    if (!ids.length) return;
+    const db = await this.db();
+    const tx = db.transaction(this.storeName, 'readwrite');
+    const store = tx.objectStore(this.storeName);
+    ids.forEach((id) => store.delete(id));
+    await transactionDone(tx);
+    void this.notify();
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(this.dbName, this.dbVersion, (db) => {
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          db.createObjectStore(this.storeName, { keyPath: 'id' });
+        }
+      });
+      // Allow a later call to retry if opening failed (e.g. blocked by another tab)
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  private async notify() {
+    if (!this.listeners.size) return;
+    try {
+      const records = await this.list();
+      this.listeners.forEach((listener) => listener(records));
+    } catch (err) {
+      console.error(err);
+    }
+  }
+}
@@ -0,0 +1,423 @@
+import { ActionBeat, Character, PromptData, Shot, StoryPromptData } from '../types';
+import { STORYBOOK_ATMOSPHERES, STORYBOOK_LOCATIONS, TARGET_CLIP_SECONDS } from '../constants';
+import { LintConfig, LintIssue, LintRule, isBlank } from './promptLint';
+import { BeatProblem, fitBeatToClip, pruneBeatLinks, validateBeats } from './beats';
+import { audioParts, ignoredAudioParts } from './audio';
+
+export const VIDEO_LINT_STORAGE_KEY = 'veo_prompt_lint';
+export const STORY_LINT_STORAGE_KEY = 'story_prompt_lint';
+
+export const VIDEO_LINT_DEFAULTS: LintConfig = { disabled: [], maxPromptLength: 1500 };
+export const STORY_LINT_DEFAULTS: LintConfig = { disabled: [], maxPromptLength: 3000 };
+
+const overlongPromptRule = <T>(): LintRule<T> => ({
+  id: 'overlong-prompt',
+  label: 'Overlong prompts',
+  description: 'Long prompts get truncated or lose focus; the limit is configurable.',
+  check: (_data, { config, prompts }) =>
+    prompts
+      .filter((p) => p.text.length > config.maxPromptLength)
+      .map((p) => ({
+        ruleId: 'overlong-prompt',
+        severity: 'warning',
+        location: p.label,
+        message: `Prompt is ${p.text.length} characters, over the ${config.maxPromptLength} limit.`,
+        suggestion: 'Shorten action and scene descriptions, or split the content across more shots.',
+      })),
+});
+
+// --- Video prompt builder ---
+
+const shotLabel = (data: PromptData, shot: Shot) => {
+  const index = data.shots.findIndex((s) => s.id === shot.id);
+  return `Shot ${index + 1}${shot.title ? ` (${shot.title})` : ''}`;
+};
+
+const characterLabel = (data: PromptData, char: Character) => {
+  const index = data.characters.findIndex((c) => c.id === char.id);
+  return `Character ${index + 1}${char.name ? ` (${char.name})` : ''}`;
+};
+
+const mapShot = (data: PromptData, shotId: string, updater: (shot: Shot) => Shot): PromptData => ({
+  ...data,
+  shots: data.shots.map((s) => (s.id === shotId ? updater(s) : s)),
+});
+
+const removeDialogue = (shotId: string, dialogueId: string) => (data: PromptData) =>
+  mapShot(data, shotId, (shot) => pruneBeatLinks({ ...shot, dialogues: shot.dialogues.filter((d) => d.id !== dialogueId) }));
+
+const mapBeat = (shotId: string, beatId: string, updater: (beat: ActionBeat) => ActionBeat) => (data: PromptData) =>
+  mapShot(data, shotId, (shot) => ({ ...shot, beats: shot.beats.map((b) => (b.id === beatId ? updater(b) : b)) }));
+
+const beatFix = (shotId: string, problem: BeatProblem) => {
+  switch (problem.kind) {
+    case 'overrun':
+      return { label: `Fit inside ${TARGET_CLIP_SECONDS}s`, apply: mapBeat(shotId, problem.beatId, (b) => fitBeatToClip(b)) };
+    case 'order':
+      return { label: 'Swap start and end', apply: mapBeat(shotId, problem.beatId, (b) => ({ ...b, start: b.end, end: b.start })) };
+    case 'link':
+      return { label: 'Unlink line', apply: mapBeat(shotId, problem.beatId, (b) => ({ ...b, dialogueId: undefined })) };
+    default:
+      return undefined;
+  }
+};
+
+const CHARACTER_FIELDS: Array<{ field: keyof Character; name: string; renders: string }> = [
+  { field: 'age', name: 'Age', renders: 'a -year-old' },
+  { field: 'outfit', name: 'Outfit', renders: 'wearing  with' },
+  { field: 'hairstyle', name: 'Hairstyle', renders: 'with  hair' },
+  { field: 'voice', name: 'Voice', renders: 'Their voice is .' },
+  { field: 'description', name: 'Action', renders: 'Action: .' },
+];
+
+const SHOT_FIELDS: Array<{ field: 'lighting' | 'cameraAngle' | 'shootingStyle'; name: string; renders: string }> = [
+  { field: 'lighting', name: 'Lighting', renders: 'Lighting is .' },
+  { field: 'cameraAngle', name: 'Camera angle', renders: 'Camera angle is .' },
+  { field: 'shootingStyle', name: 'Shooting style', renders: 'Shooting style is .' },
+];
+
+interface OptionTerm {
+  label: string;
+  pattern: RegExp;
+}
+
+const term = (label: string, pattern: RegExp): OptionTerm => ({ label, pattern });
+
+const STATIC = term('Static Shot', /\bstatic( shot| camera)?\b/i);
+const HANDHELD = term('Handheld', /\bhand-?held( camera)?\b/i);
+const HIGH_KEY = term('High-Key', /\bhigh[- ]key\b/i);
+
+/** Option pairs that ask Veo for mutually exclusive camera or lighting behaviour. */
+const CONTRADICTIONS: Array<[OptionTerm, OptionTerm]> = [
+  [STATIC, term('Tracking Shot', /\btracking( shot)?\b/i)],
+  [STATIC, HANDHELD],
+  [STATIC, term('Panning', /\bpann?ing\b/i)],
+  [STATIC, term('Tilting', /\btilting\b/i)],
+  [STATIC, term('Dolly Zoom', /\bdolly( zoom)?\b/i)],
+  [STATIC, term('Crane Shot', /\bcrane( shot)?\b/i)],
+  [STATIC, term('Drone Shot', /\bdrone( shot)?\b/i)],
+  [HANDHELD, term('Steadicam', /\bstead[iy]cam\b/i)],
+  [term('Time-Lapse', /\btime[- ]?lapse\b/i), term('Slow Motion', /\bslow[- ]?motion\b/i)],
+  [HIGH_KEY, term('Low-Key', /\blow[- ]key\b/i)],
+  [HIGH_KEY, term('Film Noir', /\bfilm noir\b/i)],
+];
+
+type OptionField = 'shootingStyle' | 'lighting' | 'cameraAngle' | 'otherOptions';
+const OPTION_FIELDS: OptionField[] = ['shootingStyle', 'lighting', 'cameraAngle', 'otherOptions'];
+
+/** Drops every comma-separated part of `otherOptions` that mentions the term. */
+const withoutTerm = (otherOptions: string, t: OptionTerm) =>
+  otherOptions
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part && !t.pattern.test(part))
+    .join(', ');
+
+export const VIDEO_LINT_RULES: LintRule<PromptData>[] = [
+  {
+    id: 'empty-scene',
+    label: 'Empty scene description',
+    description: 'A shot without a scene description renders as "Scene: .".',
+    check: (data) =>
+      data.shots
+        .filter((shot) => isBlank(shot.environment.description))
+        .map((shot) => ({
+          ruleId: 'empty-scene',
+          severity: 'warning',
+          location: shotLabel(data, shot),
+          message: 'Scene description is empty, so the prompt reads "Scene: .".',
+          suggestion: 'Describe where the shot takes place and what is happening.',
+        })),
+  },
+  {
+    id: 'empty-character-field',
+    label: 'Empty character details',
+    description: 'Empty outfit, hairstyle, age, voice or action leave gaps like "wearing  with  hair".',
+    check: (data) =>
+      data.characters.flatMap((char) => {
+        const location = characterLabel(data, char);
+        const issues: LintIssue<PromptData>[] = CHARACTER_FIELDS
+          .filter(({ field }) => isBlank(char[field] as string))
+          .map(({ name, renders }) => ({
+            ruleId: 'empty-character-field',
+            severity: 'warning',
+            location,
+            message: `${name} is empty, so the prompt reads "${renders}".`,
+            suggestion: `Fill in ${name.toLowerCase()} or pick one of the presets.`,
+          }));
+        if (char.race === 'Other (Custom)' && isBlank(char.customRace)) {
+          issues.push({
+            ruleId: 'empty-character-field',
+            severity: 'warning',
+            location,
+            message: 'Custom race/ethnicity is selected but empty.',
+            suggestion: 'Type the ethnicity or choose one from the list.',
+          });
+        }
+        return issues;
+      }),
+  },
+  {
+    id: 'empty-shot-details',
+    label: 'Empty shot details',
+    description: 'A custom lighting, camera angle or shooting style left blank.',
+    check: (data) =>
+      data.shots.flatMap((shot) =>
+        SHOT_FIELDS
+          .filter(({ field }) => isBlank(shot.environment[field]))
+          .map(({ name, renders }) => ({
+            ruleId: 'empty-shot-details',
+            severity: 'warning' as const,
+            location: shotLabel(data, shot),
+            message: `${name} is empty, so the prompt reads "${renders}".`,
+            suggestion: `Type a custom ${name.toLowerCase()} or pick one from the list.`,
+          }))),
+  },
+  {
+    id: 'orphan-dialogue',
+    label: 'Dialogue speaker problems',
+    description: 'Lines spoken by a deleted character, or by someone not in the shot who is not off-screen.',
+    check: (data) =>
+      data.shots.flatMap((shot) =>
+        shot.dialogues.flatMap((d, i): LintIssue<PromptData>[] => {
+          const location = `${shotLabel(data, shot)} · Line ${i + 1}`;
+          const speaker = data.characters.find((c) => c.id === d.characterId);
+          if (!speaker) {
+            return [{
+              ruleId: 'orphan-dialogue',
+              severity: 'error',
+              location,
+              message: 'The speaker was deleted, so the line is attributed to "Unknown Character".',
+              suggestion: 'Remove the line or pick another speaker.',
+              fix: { label: 'Remove line', apply: removeDialogue(shot.id, d.id) },
+            }];
+          }
+          if (!shot.characterIds.includes(speaker.id) && !d.offScreen) {
+            const name = speaker.name || characterLabel(data, speaker);
+            return [{
+              ruleId: 'orphan-dialogue',
+              severity: 'warning',
+              location,
+              message: `${name} speaks but is not in this shot's cast, so they are never described.`,
+              suggestion: 'Add them to the cast, or mark the line as off-screen if they are only heard.',
+              fix: {
+                label: `Add ${name} to cast`,
+                apply: (current) => mapShot(current, shot.id, (s) => ({ ...s, characterIds: [...s.characterIds, speaker.id] })),
+              },
+            }];
+          }
+          return [];
+        })),
+  },
+  {
+    id: 'empty-dialogue',
+    label: 'Empty dialogue lines',
+    description: 'Dialogue lines without text render as an empty quote.',
+    check: (data) =>
+      data.shots.flatMap((shot) =>
+        shot.dialogues
+          .map((d, i) => ({ d, i }))
+          .filter(({ d }) => isBlank(d.text))
+          .map(({ d, i }) => ({
+            ruleId: 'empty-dialogue',
+            severity: 'warning' as const,
+            location: `${shotLabel(data, shot)} · Line ${i + 1}`,
+            message: 'Dialogue line is empty.',
+            fix: { label: 'Remove line', apply: removeDialogue(shot.id, d.id) },
+          }))),
+  },
+  {
+    id: 'contradictory-options',
+    label: 'Contradictory options',
+    description: 'Camera or lighting options that cancel each other out, e.g. Static Shot with Tracking Shot.',
+    check: (data) =>
+      data.shots.flatMap((shot) => {
+        const env = shot.environment;
+        const fieldsWith = (t: OptionTerm) => OPTION_FIELDS.filter((f) => t.pattern.test(env[f]));
+        return CONTRADICTIONS.flatMap(([a, b]): LintIssue<PromptData>[] => {
+          const inA = fieldsWith(a);
+          const inB = fieldsWith(b);
+          if (!inA.length || !inB.length) return [];
+          // Prefer removing from the free-form notes; the dropdown fields are the deliberate choice
+          const drop = inB.includes('otherOptions') ? b : inA.includes('otherOptions') ? a : null;
+          const keep = drop === b ? a : b;
+          return [{
+            ruleId: 'contradictory-options',
+            severity: 'warning',
+            location: shotLabel(data, shot),
+            message: `"${a.label}" contradicts "${b.label}".`,
+            suggestion: drop ? undefined : `Change the shooting style or lighting so only one of them applies.`,
+            fix: drop
+              ? {
+                  label: `Keep ${keep.label}`,
+                  apply: (current) => mapShot(current, shot.id, (s) => ({
+                    ...s,
+                    environment: { ...s.environment, otherOptions: withoutTerm(s.environment.otherOptions, drop) },
+                  })),
+                }
+              : undefined,
+          }];
+        });
+      }),
+  },
+  {
+    id: 'clip-timing',
+    label: 'Beat and line timing',
+    description: `Beats, timed lines or sound effects outside the ${TARGET_CLIP_SECONDS}s clip, overlapping beats and broken line links.`,
+    check: (data) =>
+      data.shots.flatMap((shot): LintIssue<PromptData>[] => [
+        ...validateBeats(shot).map((problem) => ({
+          ruleId: 'clip-timing',
+          severity: problem.severity,
+          location: `${shotLabel(data, shot)} · Beat ${problem.number}`,
+          message: `Beat ${problem.message}`,
+          fix: beatFix(shot.id, problem),
+        })),
+        ...shot.dialogues.flatMap((d, i): LintIssue<PromptData>[] =>
+          d.startTime !== undefined && d.startTime >= TARGET_CLIP_SECONDS
+            ? [{
+                ruleId: 'clip-timing',
+                severity: 'error',
+                location: `${shotLabel(data, shot)} · Line ${i + 1}`,
+                message: `Line starts at ${d.startTime}s, after the ${TARGET_CLIP_SECONDS}s clip ends.`,
+                suggestion: 'Move the line earlier or into the next shot.',
+              }]
+            : []),
+        ...shot.audio.sfx.flatMap((cue, i): LintIssue<PromptData>[] =>
+          cue.time >= TARGET_CLIP_SECONDS
+            ? [{
+                ruleId: 'clip-timing',
+                severity: 'error',
+                location: `${shotLabel(data, shot)} · Sound effect ${i + 1}`,
+                message: `Sound effect at ${cue.time}s plays after the ${TARGET_CLIP_SECONDS}s clip ends.`,
+                suggestion: 'Move the cue earlier or into the next shot.',
+              }]
+            : []),
+      ]),
+  },
+  {
+    id: 'ignored-audio',
+    label: 'Audio dropped by the mix mode',
+    description: 'Music, ambience or sound effects that are filled in but left out by "No music" or "Dialogue only".',
+    check: (data) =>
+      data.shots.flatMap((shot): LintIssue<PromptData>[] => {
+        const ignored = ignoredAudioParts(shot.audio);
+        if (!ignored.length) return [];
+        return [{
+          ruleId: 'ignored-audio',
+          severity: 'info',
+          location: shotLabel(data, shot),
+          message: `The ${ignored.join(' and ')} ${ignored.length === 1 ? 'is' : 'are'} left out because the mix is "${shot.audio.mode === 'no_music' ? 'No music' : 'Dialogue only'}".`,
+          fix: {
+            label: 'Clear them',
+            apply: (current) => mapShot(current, shot.id, (s) => {
+              const parts = audioParts(s.audio.mode);
+              return {
+                ...s,
+                audio: {
+                  ...s.audio,
+                  ...(parts.music ? {} : { musicGenre: '', musicMood: '', musicTempo: '' }),
+                  ...(parts.ambience ? {} : { ambience: '' }),
+                  ...(parts.sfx ? {} : { sfx: [] }),
+                },
+              };
+            }),
+          },
+        }];
+      }),
+  },
+  {
+    id: 'unused-character',
+    label: 'Unused characters',
+    description: 'Characters that are not in any shot are left out of every prompt.',
+    check: (data) =>
+      data.characters
+        .filter((char) => !data.shots.some((shot) => shot.characterIds.includes(char.id)))
+        .map((char) => ({
+          ruleId: 'unused-character',
+          severity: 'info' as const,
+          location: characterLabel(data, char),
+          message: 'This character is not in any shot.',
+          suggestion: 'Tick the character in a shot\'s cast, or remove it.',
+        })),
+  },
+  overlongPromptRule<PromptData>(),
+];
+
+// --- Storybook prompt builder ---
+
+type StoryIssue = LintIssue<StoryPromptData>;
+
+const storyIssue = (location: string, message: string, extra: Partial<StoryIssue> = {}): StoryIssue => ({
+  ruleId: 'empty-story-field',
+  severity: 'warning',
+  location,
+  message,
+  ...extra,
+});
+
+export const STORY_LINT_RULES: LintRule<StoryPromptData>[] = [
+  {
+    id: 'empty-story-field',
+    label: 'Empty story fields',
+    description: 'Empty fields render as placeholder text like "Not specified".',
+    check: (data) => {
+      const issues: StoryIssue[] = [];
+      if (isBlank(data.idea)) {
+        issues.push(storyIssue('Core Concept', 'Story idea is empty, so a generic placeholder is sent instead.', {
+          suggestion: 'Describe the central idea in a sentence or two.',
+        }));
+      }
+      const { character } = data;
+      if (character.species === 'Other (Custom)' && isBlank(character.customSpecies)) {
+        issues.push(storyIssue('Main Character', 'Custom species is selected but empty.'));
+      }
+      if (character.personality === 'Other (Custom)' && isBlank(character.customPersonality)) {
+        issues.push(storyIssue('Main Character', 'Custom personality is selected but empty.'));
+      }
+      ([['name', 'Name'], ['appearance', 'Appearance'], ['goal', 'Goal or desire']] as const)
+        .filter(([field]) => isBlank(character[field]))
+        .forEach(([, name]) => issues.push(storyIssue('Main Character', `${name} is empty and renders as "Not specified".`, { severity: 'info' })));
+      return issues;
+    },
+  },
+  {
+    id: 'unset-setting',
+    label: 'Unset setting',
+    description: 'A setting left on "Other (Custom)" or blank renders as "Not specified".',
+    check: (data) =>
+      ([['location', 'Location', STORYBOOK_LOCATIONS[0]], ['atmosphere', 'Atmosphere', STORYBOOK_ATMOSPHERES[0]]] as const)
+        .filter(([field]) => isBlank(data.setting[field]) || data.setting[field] === 'Other (Custom)')
+        .map(([field, name, fallback]) => ({
+          ruleId: 'unset-setting',
+          severity: 'warning' as const,
+          location: 'Setting',
+          message: `${name} has no value and renders as "Not specified".`,
+          suggestion: `Choose "Custom…" and type a ${name.toLowerCase()}, or pick one from the list.`,
+          fix: {
+            label: `Use ${fallback}`,
+            apply: (current: StoryPromptData) => ({ ...current, setting: { ...current.setting, [field]: fallback } }),
+          },
+        })),
+  },
+  {
+    id: 'empty-plot-point',
+    label: 'Empty plot points',
+    description: 'Empty plot points are skipped, leaving gaps in the outline numbering.',
+    check: (data) => {
+      const empty = data.plotPoints.filter((p) => isBlank(p.text));
+      if (!empty.length) return [];
+      return [{
+        ruleId: 'empty-plot-point',
+        severity: 'warning',
+        location: 'Plot Outline',
+        message: `${empty.length} empty plot point${empty.length === 1 ? '' : 's'} leave gaps in the numbered outline.`,
+        fix: {
+          label: 'Remove empty points',
+          apply: (current) => ({ ...current, plotPoints: current.plotPoints.filter((p) => !isBlank(p.text)) }),
+        },
+      }];
+    },
+  },
+  overlongPromptRule<StoryPromptData>(),
+];
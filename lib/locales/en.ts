@@ -0,0 +1,66 @@
+import { PromptLocale } from '../promptRenderer';
+
+const en: PromptLocale = {
+  id: 'en',
+  label: 'English',
+  grammar: {
+    gender: (value) => value,
+    age: (value) => `${value}-year-old`,
+    shots: (count) => `${count} shot${count === 1 ? '' : 's'}`,
+    language: (value) => value,
+  },
+  video: {
+    scene: 'Scene: {description}.',
+    character: 'Character {number} ({name}) is a {age} {race} {gender}, rendered in a {style} style. They are wearing {outfit} with {hairstyle} hair. Their voice is {voice}. Action: {action}.',
+    unnamed: 'Unnamed',
+    characterFallback: 'Character {number}',
+    unknownCharacter: 'Unknown Character',
+    dialogueHeading: 'Dialogue:',
+    dialogueLine: '{speaker}: "{text}"',
+    offScreenSpeaker: '{speaker} (off-screen)',
+    dialogueTimed: '[{time}s] {line}',
+    dialogueDirection: '({direction})',
+    emotion: 'tone: {emotion}',
+    delivery: 'delivery: {delivery}',
+    spokenLanguage: 'spoken in {language}',
+    beatsHeading: 'Timeline:',
+    beatTime: '{start}–{end}s:',
+    beatAction: '{action}.',
+    beatCamera: 'Camera: {camera}.',
+    audioHeading: 'Audio:',
+    ambience: 'Ambience: {ambience}.',
+    music: 'Music: {music}.',
+    musicMood: '{mood} mood',
+    musicTempo: '{tempo} tempo',
+    sfx: 'Sound effects: {cues}.',
+    sfxCue: '{sound} at {time}s',
+    narration: 'Narration (voice-over): "{text}"',
+    noMusic: 'No music.',
+    dialogueOnly: 'Dialogue only: no music, ambience or sound effects.',
+    shotDetails: 'Shot details: Lighting is {lighting}. Camera angle is {cameraAngle}. Shooting style is {shootingStyle}.',
+    notes: 'Additional notes: {notes}.',
+    shotHeading: 'Shot {number}',
+    shotHeadingTitled: 'Shot {number} — {title}',
+    sequenceIntro: "Sequence of {shots}. Keep every character's appearance and voice consistent across shots.",
+  },
+  story: {
+    intro: "Create a children's storybook for {ageGroup} in a {artStyle} art style.",
+    moral: 'The story should teach a lesson about {moral}.',
+    ideaHeading: 'Story Idea',
+    ideaPlaceholder: 'A central theme or concept for the story.',
+    characterHeading: 'Main Character',
+    name: 'Name',
+    species: 'Species/Type',
+    appearance: 'Appearance',
+    personality: 'Personality',
+    goal: 'Goal/Desire',
+    settingHeading: 'Setting',
+    location: 'Location',
+    atmosphere: 'Atmosphere',
+    notSpecified: 'Not specified',
+    plotHeading: 'Plot Outline',
+    closing: 'Please generate the story text broken down into multiple pages, and for each page, provide a detailed illustration prompt that matches the text and the overall art style.',
+  },
+};
+
+export default en;
@@ -0,0 +1,66 @@
+import { PromptLocale, lookup } from '../promptRenderer';
+
+const es: PromptLocale = {
+  id: 'es',
+  label: 'Spanish',
+  grammar: {
+    gender: lookup({ Male: 'un hombre', Female: 'una mujer', 'Non-binary': 'una persona no binaria' }),
+    age: (value) => `${value} años`,
+    shots: (count) => `${count} plano${count === 1 ? '' : 's'}`,
+    language: lookup({ Indonesian: 'indonesio', English: 'inglés', Malay: 'malayo', Javanese: 'javanés', Sundanese: 'sundanés', Spanish: 'español', Japanese: 'japonés' }),
+  },
+  video: {
+    scene: 'Escena: {description}.',
+    character: 'Personaje {number} ({name}) es {gender} de origen {race}, de {age}, con un estilo {style}. Lleva {outfit} y peinado {hairstyle}. Su voz es {voice}. Acción: {action}.',
+    unnamed: 'Sin nombre',
+    characterFallback: 'Personaje {number}',
+    unknownCharacter: 'Personaje desconocido',
+    dialogueHeading: 'Diálogo:',
+    dialogueLine: '{speaker}: «{text}»',
+    offScreenSpeaker: '{speaker} (fuera de cámara)',
+    dialogueTimed: '[{time} s] {line}',
+    dialogueDirection: '({direction})',
+    emotion: 'tono: {emotion}',
+    delivery: 'forma de hablar: {delivery}',
+    spokenLanguage: 'dicho en {language}',
+    beatsHeading: 'Cronología:',
+    beatTime: '{start}–{end} s:',
+    beatAction: '{action}.',
+    beatCamera: 'Cámara: {camera}.',
+    audioHeading: 'Audio:',
+    ambience: 'Ambiente sonoro: {ambience}.',
+    music: 'Música: {music}.',
+    musicMood: 'ambiente {mood}',
+    musicTempo: 'tempo {tempo}',
+    sfx: 'Efectos de sonido: {cues}.',
+    sfxCue: '{sound} en el segundo {time}',
+    narration: 'Narración (voz en off): «{text}»',
+    noMusic: 'Sin música.',
+    dialogueOnly: 'Solo diálogo: sin música, ambiente ni efectos de sonido.',
+    shotDetails: 'Detalles del plano: Iluminación {lighting}. Ángulo de cámara {cameraAngle}. Estilo de rodaje {shootingStyle}.',
+    notes: 'Notas adicionales: {notes}.',
+    shotHeading: 'Plano {number}',
+    shotHeadingTitled: 'Plano {number} — {title}',
+    sequenceIntro: 'Secuencia de {shots}. Mantén la apariencia y la voz de cada personaje coherentes en todos los planos.',
+  },
+  story: {
+    intro: 'Crea un libro de cuentos infantil para {ageGroup} con un estilo artístico {artStyle}.',
+    moral: 'La historia debe enseñar una lección sobre {moral}.',
+    ideaHeading: 'Idea de la historia',
+    ideaPlaceholder: 'Un tema o concepto central para la historia.',
+    characterHeading: 'Personaje principal',
+    name: 'Nombre',
+    species: 'Especie/Tipo',
+    appearance: 'Apariencia',
+    personality: 'Personalidad',
+    goal: 'Meta/Deseo',
+    settingHeading: 'Ambientación',
+    location: 'Lugar',
+    atmosphere: 'Atmósfera',
+    notSpecified: 'No especificado',
+    plotHeading: 'Esquema de la trama',
+    closing: 'Genera el texto de la historia dividido en varias páginas y, para cada página, proporciona un prompt de ilustración detallado que coincida con el texto y con el estilo artístico general.',
+  },
+};
+
+export default es;
@@ -0,0 +1,66 @@
+import { PromptLocale, lookup } from '../promptRenderer';
+
+const id: PromptLocale = {
+  id: 'id',
+  label: 'Indonesian',
+  grammar: {
+    gender: lookup({ Male: 'pria', Female: 'wanita' }),
+    age: (value) => `berusia ${value} tahun`,
+    shots: (count) => `${count} shot`,
+    language: lookup({ Indonesian: 'bahasa Indonesia', English: 'bahasa Inggris', Malay: 'bahasa Melayu', Javanese: 'bahasa Jawa', Sundanese: 'bahasa Sunda', Spanish: 'bahasa Spanyol', Japanese: 'bahasa Jepang' }),
+  },
+  video: {
+    scene: 'Adegan: {description}.',
+    character: 'Karakter {number} ({name}) adalah seorang {gender} ras {race} {age} dengan gaya {style}. Ia mengenakan {outfit} dengan gaya rambut {hairstyle}. Suaranya {voice}. Aksi: {action}.',
+    unnamed: 'Tanpa Nama',
+    characterFallback: 'Karakter {number}',
+    unknownCharacter: 'Karakter Tidak Dikenal',
+    dialogueHeading: 'Dialog:',
+    dialogueLine: '{speaker}: "{text}"',
+    offScreenSpeaker: '{speaker} (di luar layar)',
+    dialogueTimed: '[{time} dtk] {line}',
+    dialogueDirection: '({direction})',
+    emotion: 'nada: {emotion}',
+    delivery: 'cara bicara: {delivery}',
+    spokenLanguage: 'diucapkan dalam {language}',
+    beatsHeading: 'Linimasa:',
+    beatTime: '{start}–{end} dtk:',
+    beatAction: '{action}.',
+    beatCamera: 'Kamera: {camera}.',
+    audioHeading: 'Audio:',
+    ambience: 'Suara latar: {ambience}.',
+    music: 'Musik: {music}.',
+    musicMood: 'nuansa {mood}',
+    musicTempo: 'tempo {tempo}',
+    sfx: 'Efek suara: {cues}.',
+    sfxCue: '{sound} pada detik {time}',
+    narration: 'Narasi (sulih suara): "{text}"',
+    noMusic: 'Tanpa musik.',
+    dialogueOnly: 'Hanya dialog: tanpa musik, suara latar, atau efek suara.',
+    shotDetails: 'Detail pengambilan gambar: Pencahayaan {lighting}. Sudut kamera {cameraAngle}. Gaya pengambilan gambar {shootingStyle}.',
+    notes: 'Catatan tambahan: {notes}.',
+    shotHeading: 'Shot {number}',
+    shotHeadingTitled: 'Shot {number} — {title}',
+    sequenceIntro: 'Rangkaian {shots}. Jaga penampilan dan suara setiap karakter tetap konsisten di semua shot.',
+  },
+  story: {
+    intro: 'Buat buku cerita anak untuk {ageGroup} dengan gaya seni {artStyle}.',
+    moral: 'Cerita harus menyampaikan pelajaran tentang {moral}.',
+    ideaHeading: 'Ide Cerita',
+    ideaPlaceholder: 'Tema atau gagasan utama cerita.',
+    characterHeading: 'Tokoh Utama',
+    name: 'Nama',
+    species: 'Spesies/Tipe',
+    appearance: 'Penampilan',
+    personality: 'Kepribadian',
+    goal: 'Tujuan/Keinginan',
+    settingHeading: 'Latar',
+    location: 'Lokasi',
+    atmosphere: 'Suasana',
+    notSpecified: 'Tidak disebutkan',
+    plotHeading: 'Alur Cerita',
+    closing: 'Mohon hasilkan teks cerita yang dibagi menjadi beberapa halaman, dan untuk setiap halaman, berikan prompt ilustrasi yang detail yang sesuai dengan teks dan gaya seni keseluruhan.',
+  },
+};
+
+export default id;
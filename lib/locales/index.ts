@@ -0,0 +1,36 @@
+import { PromptLocale } from '../promptRenderer';
+import en from './en';
+import id from './id';
+import ms from './ms';
+import jv from './jv';
+import es from './es';
+import ja from './ja';
+
+/** Every locale the prompt builders can render, in display order. Register new languages here. */
+export const PROMPT_LOCALES: PromptLocale[] = [id, en, ms, jv, es, ja];
+
+export const DEFAULT_LOCALE_IDS = ['id', 'en'];
+
+export const getPromptLocale = (localeId: string): PromptLocale | undefined =>
+  PROMPT_LOCALES.find((locale) => locale.id === localeId);
+
+/** Selected locales in registry order; unknown ids from older saves are dropped. */
+export const selectedLocales = (ids: string[]): PromptLocale[] =>
+  PROMPT_LOCALES.filter((locale) => ids.includes(locale.id));
+
+export const loadLocaleSelection = (storageKey: string): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey) || 'null');
+    if (Array.isArray(saved)) {
+      const ids = saved.filter((localeId): localeId is string => typeof localeId === 'string' && !!getPromptLocale(localeId));
+      if (ids.length) return ids;
+    }
+  } catch {}
+  return DEFAULT_LOCALE_IDS;
+};
+
+export const saveLocaleSelection = (storageKey: string, ids: string[]) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(ids));
+  } catch {}
+};
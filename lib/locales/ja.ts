@@ -0,0 +1,68 @@
+import { PromptLocale, lookup } from '../promptRenderer';
+
+const ja: PromptLocale = {
+  id: 'ja',
+  label: 'Japanese',
+  grammar: {
+    gender: lookup({ Male: '男性', Female: '女性', 'Non-binary': 'ノンバイナリーの人物' }),
+    age: (value) => `${value}歳`,
+    shots: (count) => `${count}ショット`,
+    language: lookup({ Indonesian: 'インドネシア語', English: '英語', Malay: 'マレー語', Javanese: 'ジャワ語', Sundanese: 'スンダ語', Spanish: 'スペイン語', Japanese: '日本語' }),
+    listSeparator: '、',
+    sentenceGap: '',
+  },
+  video: {
+    scene: 'シーン：{description}。',
+    character: 'キャラクター{number}（{name}）は{age}の{race}の{gender}で、{style}スタイルで描かれる。服装は{outfit}、髪型は{hairstyle}。声は{voice}。アクション：{action}。',
+    unnamed: '名前なし',
+    characterFallback: 'キャラクター{number}',
+    unknownCharacter: '不明なキャラクター',
+    dialogueHeading: 'セリフ：',
+    dialogueLine: '{speaker}：「{text}」',
+    offScreenSpeaker: '{speaker}（画面外）',
+    dialogueTimed: '[{time}秒] {line}',
+    dialogueDirection: '（{direction}）',
+    emotion: '感情：{emotion}',
+    delivery: '話し方：{delivery}',
+    spokenLanguage: '{language}で話す',
+    beatsHeading: 'タイムライン：',
+    beatTime: '{start}〜{end}秒：',
+    beatAction: '{action}。',
+    beatCamera: 'カメラ：{camera}。',
+    audioHeading: 'オーディオ：',
+    ambience: '環境音：{ambience}。',
+    music: '音楽：{music}。',
+    musicMood: '{mood}な雰囲気',
+    musicTempo: 'テンポは{tempo}',
+    sfx: '効果音：{cues}。',
+    sfxCue: '{time}秒に{sound}',
+    narration: 'ナレーション（ボイスオーバー）：「{text}」',
+    noMusic: '音楽なし。',
+    dialogueOnly: 'セリフのみ：音楽、環境音、効果音なし。',
+    shotDetails: '撮影の詳細：照明は{lighting}。カメラアングルは{cameraAngle}。撮影スタイルは{shootingStyle}。',
+    notes: '補足：{notes}。',
+    shotHeading: 'ショット{number}',
+    shotHeadingTitled: 'ショット{number} — {title}',
+    sequenceIntro: '{shots}で構成されるシーケンス。すべてのショットで各キャラクターの外見と声を一貫させること。',
+  },
+  story: {
+    intro: '{ageGroup}向けの子ども向け絵本を{artStyle}の画風で作成してください。',
+    moral: '物語を通して{moral}について学べるようにしてください。',
+    ideaHeading: '物語のアイデア',
+    ideaPlaceholder: '物語の中心となるテーマやコンセプト。',
+    characterHeading: '主人公',
+    name: '名前',
+    species: '種族/タイプ',
+    appearance: '外見',
+    personality: '性格',
+    goal: '目標/願い',
+    settingHeading: '舞台',
+    location: '場所',
+    atmosphere: '雰囲気',
+    notSpecified: '指定なし',
+    plotHeading: 'あらすじ',
+    closing: '物語の本文を複数のページに分け、各ページについて本文と全体の画風に合った詳細なイラスト用プロンプトを作成してください。',
+  },
+};
+
+export default ja;
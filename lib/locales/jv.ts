@@ -0,0 +1,66 @@
+import { PromptLocale, lookup } from '../promptRenderer';
+
+const jv: PromptLocale = {
+  id: 'jv',
+  label: 'Javanese',
+  grammar: {
+    gender: lookup({ Male: 'wong lanang', Female: 'wong wadon', 'Non-binary': 'wong non-biner' }),
+    age: (value) => `umure ${value} taun`,
+    shots: (count) => `${count} shot`,
+    language: lookup({ Indonesian: 'basa Indonesia', English: 'basa Inggris', Malay: 'basa Melayu', Javanese: 'basa Jawa', Sundanese: 'basa Sunda', Spanish: 'basa Spanyol', Japanese: 'basa Jepang' }),
+  },
+  video: {
+    scene: 'Adegan: {description}.',
+    character: 'Paraga {number} ({name}) yaiku {gender} saka bangsa {race} {age} kanthi gaya {style}. Dheweke nganggo {outfit} lan gaya rambut {hairstyle}. Swarane {voice}. Aksi: {action}.',
+    unnamed: 'Tanpa Jeneng',
+    characterFallback: 'Paraga {number}',
+    unknownCharacter: 'Paraga Ora Dikenal',
+    dialogueHeading: 'Dialog:',
+    dialogueLine: '{speaker}: "{text}"',
+    offScreenSpeaker: '{speaker} (ing njaba layar)',
+    dialogueTimed: '[{time} dtk] {line}',
+    dialogueDirection: '({direction})',
+    emotion: 'nada: {emotion}',
+    delivery: 'cara ngomong: {delivery}',
+    spokenLanguage: 'diucapake nganggo {language}',
+    beatsHeading: 'Urutan wektu:',
+    beatTime: '{start}–{end} dtk:',
+    beatAction: '{action}.',
+    beatCamera: 'Kamera: {camera}.',
+    audioHeading: 'Swara:',
+    ambience: 'Swara sakiwa-tengen: {ambience}.',
+    music: 'Musik: {music}.',
+    musicMood: 'swasana {mood}',
+    musicTempo: 'tempo {tempo}',
+    sfx: 'Efek swara: {cues}.',
+    sfxCue: '{sound} ing detik {time}',
+    narration: 'Narasi (swara latar): "{text}"',
+    noMusic: 'Tanpa musik.',
+    dialogueOnly: 'Mung dialog: tanpa musik, swara sakiwa-tengen, utawa efek swara.',
+    shotDetails: 'Rincian njupuk gambar: Pencahayaan {lighting}. Sudut kamera {cameraAngle}. Gaya njupuk gambar {shootingStyle}.',
+    notes: 'Cathetan tambahan: {notes}.',
+    shotHeading: 'Shot {number}',
+    shotHeadingTitled: 'Shot {number} — {title}',
+    sequenceIntro: 'Rangkéan {shots}. Jaga rupa lan swara saben paraga tetep padha ing kabeh shot.',
+  },
+  story: {
+    intro: 'Gawea buku crita bocah kanggo {ageGroup} kanthi gaya seni {artStyle}.',
+    moral: 'Crita iki kudu menehi piwulang babagan {moral}.',
+    ideaHeading: 'Gagasan Crita',
+    ideaPlaceholder: 'Téma utawa gagasan utama crita.',
+    characterHeading: 'Paraga Utama',
+    name: 'Jeneng',
+    species: 'Spésies/Jinis',
+    appearance: 'Rupa',
+    personality: 'Watak',
+    goal: 'Tujuan/Kekarepan',
+    settingHeading: 'Latar',
+    location: 'Panggonan',
+    atmosphere: 'Swasana',
+    notSpecified: 'Ora disebutaké',
+    plotHeading: 'Alur Crita',
+    closing: 'Mangga gawéa teks crita sing dipérang dadi pirang-pirang kaca, lan saben kaca wènèhana prompt ilustrasi sing rinci lan cocog karo teks lan gaya seni sakabèhé.',
+  },
+};
+
+export default jv;
@@ -0,0 +1,66 @@
+import { PromptLocale, lookup } from '../promptRenderer';
+
+const ms: PromptLocale = {
+  id: 'ms',
+  label: 'Malay',
+  grammar: {
+    gender: lookup({ Male: 'lelaki', Female: 'perempuan', 'Non-binary': 'bukan binari' }),
+    age: (value) => `berumur ${value} tahun`,
+    shots: (count) => `${count} syot`,
+    language: lookup({ Indonesian: 'bahasa Indonesia', English: 'bahasa Inggeris', Malay: 'bahasa Melayu', Javanese: 'bahasa Jawa', Sundanese: 'bahasa Sunda', Spanish: 'bahasa Sepanyol', Japanese: 'bahasa Jepun' }),
+  },
+  video: {
+    scene: 'Babak: {description}.',
+    character: 'Watak {number} ({name}) ialah seorang {gender} berbangsa {race} {age} dengan gaya {style}. Dia memakai {outfit} dengan gaya rambut {hairstyle}. Suaranya {voice}. Aksi: {action}.',
+    unnamed: 'Tanpa Nama',
+    characterFallback: 'Watak {number}',
+    unknownCharacter: 'Watak Tidak Dikenali',
+    dialogueHeading: 'Dialog:',
+    dialogueLine: '{speaker}: "{text}"',
+    offScreenSpeaker: '{speaker} (luar skrin)',
+    dialogueTimed: '[{time} saat] {line}',
+    dialogueDirection: '({direction})',
+    emotion: 'nada: {emotion}',
+    delivery: 'cara bertutur: {delivery}',
+    spokenLanguage: 'dituturkan dalam {language}',
+    beatsHeading: 'Garis masa:',
+    beatTime: '{start}–{end} saat:',
+    beatAction: '{action}.',
+    beatCamera: 'Kamera: {camera}.',
+    audioHeading: 'Audio:',
+    ambience: 'Bunyi latar: {ambience}.',
+    music: 'Muzik: {music}.',
+    musicMood: 'suasana {mood}',
+    musicTempo: 'tempo {tempo}',
+    sfx: 'Kesan bunyi: {cues}.',
+    sfxCue: '{sound} pada saat ke-{time}',
+    narration: 'Narasi (suara latar): "{text}"',
+    noMusic: 'Tiada muzik.',
+    dialogueOnly: 'Dialog sahaja: tiada muzik, bunyi latar atau kesan bunyi.',
+    shotDetails: 'Butiran syot: Pencahayaan {lighting}. Sudut kamera {cameraAngle}. Gaya penggambaran {shootingStyle}.',
+    notes: 'Nota tambahan: {notes}.',
+    shotHeading: 'Syot {number}',
+    shotHeadingTitled: 'Syot {number} — {title}',
+    sequenceIntro: 'Rangkaian {shots}. Pastikan penampilan dan suara setiap watak kekal konsisten dalam semua syot.',
+  },
+  story: {
+    intro: 'Hasilkan buku cerita kanak-kanak untuk {ageGroup} dengan gaya seni {artStyle}.',
+    moral: 'Cerita ini harus menyampaikan pengajaran tentang {moral}.',
+    ideaHeading: 'Idea Cerita',
+    ideaPlaceholder: 'Tema atau idea utama cerita.',
+    characterHeading: 'Watak Utama',
+    name: 'Nama',
+    species: 'Spesies/Jenis',
+    appearance: 'Rupa',
+    personality: 'Personaliti',
+    goal: 'Matlamat/Keinginan',
+    settingHeading: 'Latar',
+    location: 'Lokasi',
+    atmosphere: 'Suasana',
+    notSpecified: 'Tidak dinyatakan',
+    plotHeading: 'Jalan Cerita',
+    closing: 'Sila hasilkan teks cerita yang dibahagikan kepada beberapa halaman, dan bagi setiap halaman, berikan prompt ilustrasi terperinci yang sepadan dengan teks dan gaya seni keseluruhan.',
+  },
+};
+
+export default ms;
@@ -0,0 +1,167 @@
+import { RecordStore } from './idb';
+import { HandoffStore } from './handoff';
+
+/**
+ * Every generated video, image and story illustration, kept in IndexedDB with the settings that
+ * produced it. Object URLs and data URLs in component state die with the page; these survive
+ * reloads, and "reuse settings" loads an item's settings back into its generator.
+ */
+
+const DB_NAME = 'veo_media_library';
+const DB_VERSION = 1;
+const STORE = 'media';
+
+export type MediaKind = 'video' | 'image' | 'story_page';
+
+export interface VideoMediaSettings {
+  prompt: string;
+  negativePrompt: string;
+  modelId: string;
+  aspectRatio: string;
+  resolution: string;
+  duration: number;
+  enableAudio: boolean;
+  personGeneration: string;
+  enhancePrompt: boolean;
+  aiMode: string;
+  characterStyle: string;
+}
+
+export interface ImageMediaSettings {
+  prompt: string;
+  technique: string;
+  modelId: string;
+  stylePreset: string;
+  customStyle: string;
+  size: string;
+  count: number;
+  aspectRatio: string;
+  outputMimeType: string;
+  includeRaiReason: boolean;
+  personGen: string;
+}
+
+export interface StoryMediaSettings {
+  prompt: string;
+  ageGroup: string;
+  artStyle: string;
+  pageText: string;
+  imagePrompt: string;
+}
+
+/** Settings per generator, which is also the reuse target. */
+export interface MediaSettingsByGenerator {
+  video: VideoMediaSettings;
+  image: ImageMediaSettings;
+  storybook: StoryMediaSettings;
+}
+
+export type MediaGenerator = keyof MediaSettingsByGenerator;
+
+interface MediaItemBase {
+  id: string;
+  blob: Blob;
+  /** Where the item sits in its job, e.g. "Segment 2 of 4" or "Page 3". */
+  label: string;
+  /** Shared by every output of one generation run. */
+  jobId: string;
+  favorite: boolean;
+  createdAt: number;
+}
+
+export type MediaItem =
+  | (MediaItemBase & { kind: 'video'; generator: 'video'; settings: VideoMediaSettings })
+  | (MediaItemBase & { kind: 'image'; generator: 'image'; settings: ImageMediaSettings })
+  | (MediaItemBase & { kind: 'story_page'; generator: 'storybook'; settings: StoryMediaSettings });
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type NewMediaItem = DistributiveOmit<MediaItem, 'id' | 'favorite' | 'createdAt'>;
+
+const byCreatedDesc = (a: MediaItem, b: MediaItem) => b.createdAt - a.createdAt;
+
+export class MediaLibrary extends RecordStore<MediaItem> {
+  constructor() {
+    super(DB_NAME, DB_VERSION, STORE, byCreatedDesc);
+  }
+
+  add(entry: NewMediaItem): Promise<MediaItem> {
+    return this.putRecord({ ...entry, id: crypto.randomUUID(), favorite: false, createdAt: Date.now() } as MediaItem);
+  }
+
+  setFavorite(id: string, favorite: boolean): Promise<void> {
+    return this.updateRecord(id, (item) => ({ ...item, favorite }));
+  }
+
+  remove(ids: string[]): Promise<void> {
+    return this.deleteRecords(ids);
+  }
+}
+
+export const mediaLibrary = new MediaLibrary();
+
+/** Generators subscribe here to load a library item's settings back into their form. */
+export const reuseStore = new HandoffStore<MediaSettingsByGenerator>();
+
+/**
+ * Saves an output without blocking the generator; a full or unavailable IndexedDB only costs the
+ * library copy.
+ */
+export const saveToLibrary = (entry: NewMediaItem) => {
+  mediaLibrary.add(entry).catch((err) => console.error('Could not save to the media library', err));
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export interface StorageUsage {
+  /** Bytes held by library items. */
+  libraryBytes: number;
+  /** Origin-wide usage and quota from the browser, when it reports them. */
+  usage: number | null;
+  quota: number | null;
+}
+
+export const storageUsage = async (items: MediaItem[]): Promise<StorageUsage> => {
+  const libraryBytes = items.reduce((sum, item) => sum + item.blob.size, 0);
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    return { libraryBytes, usage: estimate?.usage ?? null, quota: estimate?.quota ?? null };
+  } catch {
+    return { libraryBytes, usage: null, quota: null };
+  }
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+export interface MediaFilter {
+  kind: MediaKind | 'all';
+  favoritesOnly: boolean;
+  query: string;
+}
+
+export const filterMedia = (items: MediaItem[], filter: MediaFilter): MediaItem[] => {
+  const q = filter.query.trim().toLowerCase();
+  return items.filter((item) => {
+    if (filter.kind !== 'all' && item.kind !== filter.kind) return false;
+    if (filter.favoritesOnly && !item.favorite) return false;
+    if (!q) return true;
+    const model = 'modelId' in item.settings ? item.settings.modelId : '';
+    return [item.settings.prompt, item.label, model].join(' ').toLowerCase().includes(q);
+  });
+};
+
+export const mediaFileName = (item: MediaItem): string => {
+  const ext = item.blob.type.split('/')[1]?.replace('jpeg', 'jpg') || (item.kind === 'video' ? 'mp4' : 'png');
+  const label = item.label.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '');
+  return `veo-${item.kind}${label ? `-${label}` : ''}-${item.createdAt}.${ext}`;
+};
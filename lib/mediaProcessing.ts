@@ -0,0 +1,306 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+// Served from this app's own build, so merging needs no CDN and works offline or under a strict CSP
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+import { ClipWindow, concatFilter, concatList } from './segmentTimeline';
+import { BoundaryTransition, mergedSeconds, transitionFilter } from './transitions';
+import { MusicSettings, musicFilter } from './musicMix';
+import { cancelledError, isCancelledError } from './requestQueue';
+
+/**
+ * Video processing on ffmpeg.wasm 0.12. The `FFmpeg` class runs the core in its own Web Worker,
+ * so encoding never blocks the page. One instance is shared and its core is loaded once; a
+ * cancelled job terminates the worker (the only way to stop a running command), and the next job
+ * loads the core again.
+ */
+
+export interface MediaInput {
+  /** Object or remote URL of the clip. */
+  url: string;
+  /** Part of the clip to keep. */
+  clip: ClipWindow;
+}
+
+export interface ProcessingProgress {
+  /** 0–1 across the whole job. */
+  ratio: number;
+  message: string;
+}
+
+export interface ProcessingOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+export interface RenderOptions extends ProcessingOptions {
+  /** Low resolution and a fast preset, to check an edit before the full-quality export. */
+  preview?: boolean;
+  /** Music mixed under the segment audio. */
+  music?: MusicInput;
+}
+
+export interface MusicInput {
+  blob: Blob;
+  /** Length of the track, when known. */
+  seconds: number | null;
+  settings: MusicSettings;
+}
+
+interface StreamInfo {
+  videoCodec: string | null;
+  width: number;
+  height: number;
+  audioCodec: string | null;
+}
+
+// Share of the progress bar each phase takes
+const LOAD_END = 0.1;
+const WRITE_END = 0.2;
+const ENCODE_END = 0.95;
+
+const PREVIEW_HEIGHT = 360;
+
+const TIME_PATTERN = /time=\s*(\d+):(\d+):(\d+(?:\.\d+)?)/;
+
+/** Work within one job: files, commands and progress for its phases. */
+class ProcessingJob {
+  private readonly files = new Set<string>();
+
+  constructor(
+    readonly ffmpeg: FFmpeg,
+    private readonly options: ProcessingOptions,
+  ) {}
+
+  report(ratio: number, message: string) {
+    this.options.onProgress?.({ ratio: Math.max(0, Math.min(1, ratio)), message });
+  }
+
+  async writeInputs(inputs: MediaInput[]): Promise<string[]> {
+    const names: string[] = [];
+    for (let i = 0; i < inputs.length; i++) {
+      this.report(LOAD_END + ((WRITE_END - LOAD_END) * i) / inputs.length, `Reading clip ${i + 1} of ${inputs.length}...`);
+      const response = await fetch(inputs[i].url, { signal: this.options.signal });
+      if (!response.ok) throw new Error(`Could not read clip ${i + 1}: ${response.statusText}`);
+      const name = `in${i}.mp4`;
+      await this.write(name, new Uint8Array(await response.arrayBuffer()));
+      names.push(name);
+    }
+    return names;
+  }
+
+  async write(name: string, data: Uint8Array | string) {
+    await this.ffmpeg.writeFile(name, data, { signal: this.options.signal });
+    this.files.add(name);
+  }
+
+  /** Codecs and size of a written input, or null when ffprobe cannot read it. */
+  async probe(name: string): Promise<StreamInfo | null> {
+    const out = `${name}.probe.json`;
+    const code = await this.ffmpeg.ffprobe(['-v', 'error', '-show_entries', 'stream=codec_type,codec_name,width,height', '-of', 'json', name, '-o', out], -1, { signal: this.options.signal });
+    if (code !== 0) return null;
+    this.files.add(out);
+    try {
+      const streams: Array<Record<string, unknown>> = JSON.parse(String(await this.ffmpeg.readFile(out, 'utf8'))).streams ?? [];
+      const video = streams.find((s) => s.codec_type === 'video');
+      const audio = streams.find((s) => s.codec_type === 'audio');
+      return {
+        videoCodec: video ? String(video.codec_name) : null,
+        width: Number(video?.width) || 0,
+        height: Number(video?.height) || 0,
+        audioCodec: audio ? String(audio.codec_name) : null,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Runs one command as step `step` of `steps` in the encode phase. Progress comes from the
+   * `time=` FFmpeg logs against the output length, since the progress event is only accurate
+   * when input and output lengths match. Returns the exit code.
+   */
+  async exec(args: string[], output: string, outputSeconds: number, step: number, steps: number, message: string): Promise<number> {
+    const span = (ENCODE_END - WRITE_END) / steps;
+    const start = WRITE_END + span * step;
+    this.report(start, message);
+    const onLog = ({ message: line }: { message: string }) => {
+      const match = line.match(TIME_PATTERN);
+      if (!match || outputSeconds <= 0) return;
+      const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+      this.report(start + span * Math.min(1, seconds / outputSeconds), message);
+    };
+    this.ffmpeg.on('log', onLog);
+    try {
+      const code = await this.ffmpeg.exec(args, -1, { signal: this.options.signal });
+      this.files.add(output);
+      return code;
+    } finally {
+      this.ffmpeg.off('log', onLog);
+    }
+  }
+
+  async readVideo(name: string): Promise<Blob> {
+    this.report(ENCODE_END, 'Reading the merged video...');
+    const data = await this.ffmpeg.readFile(name, undefined, { signal: this.options.signal });
+    if (typeof data === 'string' || !data.length) throw new Error('FFmpeg produced an empty file.');
+    this.report(1, 'Done.');
+    return new Blob([data.slice().buffer], { type: 'video/mp4' });
+  }
+
+  /** Frees the worker's in-memory files; large clips would otherwise pile up between jobs. */
+  async cleanup() {
+    for (const name of this.files) {
+      await this.ffmpeg.deleteFile(name).catch(() => undefined);
+    }
+  }
+}
+
+const sameStreams = (infos: Array<StreamInfo | null>): boolean => {
+  const [first] = infos;
+  return !!first && infos.every((info) => !!info
+    && info.videoCodec === first.videoCodec
+    && info.width === first.width
+    && info.height === first.height
+    && info.audioCodec === first.audioCodec);
+};
+
+/** An input whose streams could not be probed is treated as silent; the filter gives it silence. */
+const hasAudio = (info: StreamInfo | null) => !!info?.audioCodec;
+
+/** The first probed clip's size, scaled down to `maxHeight` (kept even for libx264) when given. */
+const frameSize = (infos: Array<StreamInfo | null>, maxHeight?: number): { width: number; height: number } => {
+  const size = infos.find((info) => info && info.width && info.height);
+  const width = size?.width || 1280;
+  const height = size?.height || 720;
+  if (!maxHeight || height <= maxHeight) return { width, height };
+  return { width: Math.round((width * maxHeight) / height / 2) * 2, height: maxHeight };
+};
+
+const totalSeconds = (inputs: MediaInput[]) => inputs.reduce((sum, input) => sum + input.clip.kept, 0);
+
+export class MediaProcessor {
+  private instance: FFmpeg | null = null;
+  private loading: Promise<FFmpeg> | null = null;
+  private tail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Joins clips end to end. Clips with matching codecs and size are stream-copied (fast, cuts on
+   * keyframes); otherwise, or when copying fails, they are re-encoded to the first clip's size.
+   */
+  concat(inputs: MediaInput[], options: ProcessingOptions = {}): Promise<Blob> {
+    return this.run(options, async (job) => {
+      const names = await job.writeInputs(inputs);
+      const infos = await Promise.all(names.map((name) => job.probe(name)));
+      const seconds = totalSeconds(inputs);
+
+      if (sameStreams(infos)) {
+        await job.write('list.txt', concatList(names, inputs.map((input) => input.clip)));
+        const code = await job.exec(['-f', 'concat', '-safe', '0', '-i', 'list.txt', '-c', 'copy', '-movflags', '+faststart', 'copy.mp4'], 'copy.mp4', seconds, 0, 2, 'Joining clips...');
+        if (code === 0) return job.readVideo('copy.mp4');
+      }
+
+      const { width, height } = frameSize(infos);
+      const withAudio = infos.some(hasAudio);
+      const filter = concatFilter(
+        inputs.map((input, i) => ({ clip: input.clip, hasAudio: hasAudio(infos[i]) })),
+        width,
+        height,
+        withAudio,
+      );
+      const args = [...names.flatMap((name) => ['-i', name]), '-filter_complex', filter, '-map', '[v]', ...(withAudio ? ['-map', '[a]', '-c:a', 'aac'] : []), '-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p', '-movflags', '+faststart', 'encoded.mp4'];
+      const code = await job.exec(args, 'encoded.mp4', seconds, 1, 2, 'Re-encoding clips with different formats...');
+      if (code !== 0) throw new Error('FFmpeg could not merge these clips.');
+      return job.readVideo('encoded.mp4');
+    });
+  }
+
+  /**
+   * Joins clips with its own transition at each boundary (`transitions[i]` sits between clips `i`
+   * and `i + 1`) in a single encode. `preview` renders a small, fast draft of the same edit, and
+   * `music` is mixed in the same pass.
+   */
+  transitions(inputs: MediaInput[], transitions: BoundaryTransition[], options: RenderOptions = {}): Promise<Blob> {
+    return this.run(options, async (job) => {
+      const names = await job.writeInputs(inputs);
+      const infos = await Promise.all(names.map((name) => job.probe(name)));
+      const { width, height } = frameSize(infos, options.preview ? PREVIEW_HEIGHT : undefined);
+      const { music } = options;
+      const withAudio = !music?.settings.muteVideoAudio && infos.some(hasAudio);
+      const seconds = mergedSeconds(inputs.map((input) => input.clip), transitions);
+      let filter = transitionFilter(
+        inputs.map((input, i) => ({ clip: input.clip, hasAudio: hasAudio(infos[i]) })),
+        transitions,
+        width,
+        height,
+        withAudio,
+      );
+      const musicArgs: string[] = [];
+      let audioOut = withAudio ? '[a]' : null;
+      if (music) {
+        job.report(WRITE_END, 'Reading the music track...');
+        await job.write('music', new Uint8Array(await music.blob.arrayBuffer()));
+        musicArgs.push(...(music.settings.loop ? ['-stream_loop', '-1'] : []), '-i', 'music');
+        filter += `;${musicFilter({ input: names.length, settings: music.settings, videoSeconds: seconds, trackSeconds: music.seconds, voice: withAudio ? 'a' : null, out: 'mix' })}`;
+        audioOut = '[mix]';
+      }
+      const quality = options.preview ? ['-preset', 'ultrafast', '-crf', '32'] : ['-preset', 'veryfast'];
+      const output = options.preview ? 'preview.mp4' : 'transitions.mp4';
+      const args = [...names.flatMap((name) => ['-i', name]), ...musicArgs, '-filter_complex', filter, '-map', '[v]', ...(audioOut ? ['-map', audioOut, '-c:a', 'aac'] : []), '-c:v', 'libx264', ...quality, '-pix_fmt', 'yuv420p', '-movflags', '+faststart', output];
+      const code = await job.exec(args, output, seconds, 0, 1, options.preview ? 'Rendering preview...' : 'Rendering transitions...');
+      if (code !== 0) throw new Error('FFmpeg could not render these transitions.');
+      return job.readVideo(output);
+    });
+  }
+
+  /** Runs jobs one at a time on the shared instance. */
+  private run<T>(options: ProcessingOptions, work: (job: ProcessingJob) => Promise<T>): Promise<T> {
+    const result = this.tail.catch(() => undefined).then(async () => {
+      const { signal } = options;
+      signal?.throwIfAborted();
+      const onAbort = () => this.reset();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      let job: ProcessingJob | null = null;
+      try {
+        options.onProgress?.({ ratio: 0, message: 'Loading FFmpeg...' });
+        job = new ProcessingJob(await this.load(signal), options);
+        return await work(job);
+      } catch (error) {
+        if (signal?.aborted || isCancelledError(error)) throw cancelledError();
+        throw error;
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        if (job && !signal?.aborted) await job.cleanup();
+      }
+    });
+    this.tail = result;
+    return result;
+  }
+
+  private load(signal?: AbortSignal): Promise<FFmpeg> {
+    if (!this.loading) {
+      const ffmpeg = new FFmpeg();
+      const loading = ffmpeg.load({ coreURL, wasmURL }).then(() => ffmpeg);
+      this.instance = ffmpeg;
+      this.loading = loading;
+      // Allow a later job to retry if the core could not be fetched
+      loading.catch(() => {
+        if (this.loading === loading) this.reset();
+      });
+    }
+    const loading = this.loading;
+    if (!signal) return loading;
+    return new Promise<FFmpeg>((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(cancelledError()), { once: true });
+      loading.then(resolve, reject);
+    });
+  }
+
+  /** Stops whatever the worker is running; the next job loads a fresh core. */
+  private reset() {
+    this.instance?.terminate();
+    this.instance = null;
+    this.loading = null;
+  }
+}
+
+export const mediaProcessor = new MediaProcessor();
@@ -0,0 +1,40 @@
+import { RecordStore } from './idb';
+
+/**
+ * Music tracks uploaded for mixing under merged videos, kept in IndexedDB so a track is uploaded
+ * once and picked again later. Each track keeps its length and waveform peaks, which are worked
+ * out once when it is added.
+ */
+
+const DB_NAME = 'veo_music_library';
+const DB_VERSION = 1;
+const STORE = 'tracks';
+
+export interface MusicTrack {
+  id: string;
+  /** File name it was uploaded as. */
+  name: string;
+  blob: Blob;
+  /** Null when the browser could not decode the track. */
+  seconds: number | null;
+  peaks: number[];
+  createdAt: number;
+}
+
+export type NewMusicTrack = Omit<MusicTrack, 'id' | 'createdAt'>;
+
+export class MusicLibrary extends RecordStore<MusicTrack> {
+  constructor() {
+    super(DB_NAME, DB_VERSION, STORE, (a, b) => b.createdAt - a.createdAt);
+  }
+
+  add(entry: NewMusicTrack): Promise<MusicTrack> {
+    return this.putRecord({ ...entry, id: crypto.randomUUID(), createdAt: Date.now() });
+  }
+
+  remove(id: string): Promise<void> {
+    return this.deleteRecords([id]);
+  }
+}
+
+export const musicLibrary = new MusicLibrary();
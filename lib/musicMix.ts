@@ -0,0 +1,123 @@
+import { roundSeconds } from './segmentTimeline';
+
+/**
+ * Background music under a merged video: which part of the track plays, how loud, and how it
+ * sits against the Veo audio. The mix is added to the same FFmpeg filter graph as the
+ * transitions, so music costs no extra encode.
+ */
+
+export interface MusicSettings {
+  /** Music library track; null mixes no music. */
+  trackId: string | null;
+  /** Gain on the music, 0–1. */
+  volume: number;
+  fadeIn: number;
+  fadeOut: number;
+  /** Seconds skipped at the start of the track. */
+  start: number;
+  /** Repeats a track shorter than the video; otherwise the music ends with the track. */
+  loop: boolean;
+  /** Lowers the music while the segment audio has speech. */
+  ducking: boolean;
+  /** Drops the Veo audio so only the music plays. */
+  muteVideoAudio: boolean;
+}
+
+export const DEFAULT_MUSIC_SETTINGS: MusicSettings = {
+  trackId: null,
+  volume: 0.35,
+  fadeIn: 1,
+  fadeOut: 2,
+  start: 0,
+  loop: true,
+  ducking: true,
+  muteVideoAudio: false,
+};
+
+export const MAX_MUSIC_FADE_SECONDS = 10;
+
+const STORAGE_KEY = 'veo_music_settings';
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+};
+
+/** Stored settings with every field checked; anything missing falls back to the default. */
+const parseMusicSettings = (value: unknown): MusicSettings => {
+  const saved = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const flag = (key: 'loop' | 'ducking' | 'muteVideoAudio') => (typeof saved[key] === 'boolean' ? (saved[key] as boolean) : DEFAULT_MUSIC_SETTINGS[key]);
+  return {
+    trackId: typeof saved.trackId === 'string' && saved.trackId ? saved.trackId : null,
+    volume: clamp(saved.volume, 0, 1, DEFAULT_MUSIC_SETTINGS.volume),
+    fadeIn: clamp(saved.fadeIn, 0, MAX_MUSIC_FADE_SECONDS, DEFAULT_MUSIC_SETTINGS.fadeIn),
+    fadeOut: clamp(saved.fadeOut, 0, MAX_MUSIC_FADE_SECONDS, DEFAULT_MUSIC_SETTINGS.fadeOut),
+    start: clamp(saved.start, 0, Number.MAX_SAFE_INTEGER, DEFAULT_MUSIC_SETTINGS.start),
+    loop: flag('loop'),
+    ducking: flag('ducking'),
+    muteVideoAudio: flag('muteVideoAudio'),
+  };
+};
+
+export const loadMusicSettings = (): MusicSettings => {
+  try {
+    return parseMusicSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+  } catch {
+    return DEFAULT_MUSIC_SETTINGS;
+  }
+};
+
+export const saveMusicSettings = (settings: MusicSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {}
+};
+
+/** Seconds of music the video will carry: the whole video when looping, else what is left of the track. */
+export const musicSeconds = (settings: MusicSettings, videoSeconds: number, trackSeconds: number | null): number => {
+  if (settings.loop || trackSeconds === null) return videoSeconds;
+  return Math.max(0, Math.min(videoSeconds, trackSeconds - settings.start));
+};
+
+export interface MusicMixStep {
+  /** FFmpeg input index of the track; a looping track must be opened with `-stream_loop -1`. */
+  input: number;
+  settings: MusicSettings;
+  videoSeconds: number;
+  trackSeconds: number | null;
+  /** Label of the segment audio to mix with, or null for music alone. */
+  voice: string | null;
+  out: string;
+}
+
+/** `-filter_complex` parts that cut, shape and mix the music into `[out]`. */
+export const musicFilter = ({ input, settings, videoSeconds, trackSeconds, voice, out }: MusicMixStep): string => {
+  const length = musicSeconds(settings, videoSeconds, trackSeconds);
+  const fadeIn = Math.min(settings.fadeIn, length);
+  const fadeOut = Math.min(settings.fadeOut, length);
+  const shape = [
+    `atrim=start=${roundSeconds(settings.start)}`,
+    'asetpts=PTS-STARTPTS',
+    `atrim=end=${roundSeconds(length)}`,
+    'aresample=48000',
+    'aformat=channel_layouts=stereo',
+    `volume=${roundSeconds(settings.volume)}`,
+    fadeIn > 0 && `afade=t=in:d=${roundSeconds(fadeIn)}`,
+    fadeOut > 0 && `afade=t=out:st=${roundSeconds(length - fadeOut)}:d=${roundSeconds(fadeOut)}`,
+  ].filter(Boolean).join(',');
+
+  if (!voice) return `[${input}:a]${shape}[${out}]`;
+  const parts = [`[${input}:a]${shape}[music]`];
+  if (settings.ducking) {
+    // Only the speech band of the segment audio pushes the music down
+    parts.push(
+      `[${voice}]asplit=2[voice][voicekey]`,
+      '[voicekey]highpass=f=300,lowpass=f=3400[duckkey]',
+      '[music][duckkey]sidechaincompress=threshold=0.03:ratio=8:attack=20:release=400[ducked]',
+      `[voice][ducked]amix=inputs=2:duration=first:normalize=0[${out}]`,
+    );
+  } else {
+    parts.push(`[${voice}][music]amix=inputs=2:duration=first:normalize=0[${out}]`);
+  }
+  return parts.join(';');
+};
@@ -0,0 +1,44 @@
+/**
+ * Negative prompts list what a generation should avoid ("text overlays, extra limbs"). They are
+ * sent through Veo's native `negativePrompt` config, never appended to the prompt text, where
+ * naming the unwanted thing tends to summon it.
+ */
+
+export interface NegativePromptPreset {
+  /** A character or image style, or "General" for problems every style shares. */
+  style: string;
+  terms: string[];
+}
+
+export const NEGATIVE_PROMPT_PRESETS: NegativePromptPreset[] = [
+  { style: 'General', terms: ['text overlays', 'subtitles', 'watermark', 'logo', 'extra limbs', 'extra fingers', 'deformed hands', 'blurry', 'low quality'] },
+  { style: 'Photorealistic', terms: ['cartoon', 'illustration', 'CGI look', 'plastic skin', 'oversaturated colors', 'uncanny faces'] },
+  { style: 'Anime', terms: ['photorealistic', '3D render', 'live action', 'inconsistent line art', 'off-model faces'] },
+  { style: 'Cartoon', terms: ['photorealistic', 'realistic skin texture', 'gritty', 'muddy colors'] },
+  { style: 'Claymation', terms: ['photorealistic', 'smooth CGI surfaces', 'motion blur', 'flat 2D shading'] },
+  { style: 'Pixel Art', terms: ['anti-aliasing', 'smooth gradients', 'photorealistic', 'high-resolution detail'] },
+  { style: '3D Model', terms: ['flat 2D shading', 'sketch lines', 'low-poly artifacts', 'texture stretching'] },
+];
+
+/** Splits a comma-separated negative prompt into trimmed, non-empty terms. */
+export const negativeTerms = (value: string): string[] =>
+  value.split(',').map(term => term.trim()).filter(Boolean);
+
+/** Adds terms that are not already present (ignoring case), keeping the existing order. */
+export const mergeNegativePrompt = (current: string, terms: string[]): string => {
+  const merged = negativeTerms(current);
+  const seen = new Set(merged.map(term => term.toLowerCase()));
+  terms.forEach(term => {
+    const key = term.trim().toLowerCase();
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    merged.push(term.trim());
+  });
+  return merged.join(', ');
+};
+
+/** Presets with the one matching `style` first, then "General", then the rest. */
+export const presetsFor = (style?: string): NegativePromptPreset[] => {
+  const rank = (preset: NegativePromptPreset) => (preset.style === style ? 0 : preset.style === 'General' ? 1 : 2);
+  return [...NEGATIVE_PROMPT_PRESETS].sort((a, b) => rank(a) - rank(b));
+};
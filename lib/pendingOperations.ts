@@ -0,0 +1,59 @@
+import { GenerateVideosOperation } from '@google/genai';
+import { VideoMediaSettings } from './mediaLibrary';
+
+/**
+ * Veo operations keep rendering on the server while the page is gone. Each started operation is
+ * recorded here until its video is downloaded, so a reload or crash can pick up the polling
+ * where it stopped instead of losing a render that is already paid for.
+ */
+
+const STORAGE_KEY = 'veo_pending_operations';
+
+/** How long the Gemini API keeps a generated video; older operations cannot be downloaded. */
+export const OPERATION_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface PendingOperation {
+  /** Server name of the operation, e.g. `models/veo-3.0-generate-001/operations/abc123`. */
+  name: string;
+  startedAt: number;
+  /** Segment the operation renders; absent for a single video. */
+  segmentId?: string;
+  /** Library label, e.g. "Segment 2 of 4". */
+  label: string;
+  jobId: string;
+  settings: VideoMediaSettings;
+}
+
+const isPendingOperation = (value: any): value is PendingOperation =>
+  !!value && typeof value.name === 'string' && typeof value.startedAt === 'number' && typeof value.jobId === 'string' && !!value.settings;
+
+export const loadPendingOperations = (): PendingOperation[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(isPendingOperation) : [];
+  } catch {
+    return [];
+  }
+};
+
+const store = (entries: PendingOperation[]) => {
+  try {
+    if (entries.length) localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {}
+};
+
+export const addPendingOperation = (entry: PendingOperation) => {
+  store([...loadPendingOperations().filter((e) => e.name !== entry.name), entry]);
+};
+
+export const removePendingOperation = (name: string) => {
+  store(loadPendingOperations().filter((e) => e.name !== name));
+};
+
+export const isOperationExpired = (entry: PendingOperation, now = Date.now()): boolean =>
+  now - entry.startedAt > OPERATION_RETENTION_MS;
+
+/** An operation handle that `ai.operations.getVideosOperation` can poll from just its name. */
+export const operationFromName = (name: string): GenerateVideosOperation =>
+  Object.assign(new GenerateVideosOperation(), { name });
@@ -0,0 +1,161 @@
+import { isCancelledError, sleep } from './requestQueue';
+
+/**
+ * Long-running operations are polled with a growing interval, a wall-clock limit and a bounded
+ * number of retries for transient failures, so one dropped request does not end a long run.
+ */
+
+export interface RetryOptions {
+  /** Retries after the first attempt; only transient errors are retried. */
+  maxRetries: number;
+  /** First retry delay, doubled per retry unless the server sends a hint. */
+  retryBaseMs: number;
+  signal?: AbortSignal;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export interface PollOptions extends RetryOptions {
+  /** Wait before the first re-poll. */
+  intervalMs: number;
+  maxIntervalMs: number;
+  /** Multiplies the interval after each poll. */
+  backoffFactor: number;
+  /** Gives up once this much time has passed since polling started. */
+  timeoutMs: number;
+  /** Typical completion time, used for the ETA. */
+  expectedMs?: number;
+  /** Polls once right away instead of waiting `intervalMs` first. */
+  immediate?: boolean;
+  onProgress?: (event: PollProgress) => void;
+}
+
+export interface RetryEvent {
+  /** 1 for the first retry. */
+  retry: number;
+  retriesLeft: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface PollProgress {
+  /** Polls completed so far. */
+  polls: number;
+  elapsedMs: number;
+  /** Estimated time left, or null once the expected time has passed. */
+  etaMs: number | null;
+  nextPollMs: number;
+}
+
+export const DEFAULT_POLL_OPTIONS: Omit<PollOptions, 'signal' | 'onRetry' | 'onProgress'> = {
+  intervalMs: 10_000,
+  maxIntervalMs: 30_000,
+  backoffFactor: 1.5,
+  timeoutMs: 15 * 60_000,
+  maxRetries: 4,
+  retryBaseMs: 2_000,
+};
+
+const TRANSIENT_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+/** Rate limits, server errors and dropped connections; client errors will fail the same way again. */
+export const isTransientError = (error: unknown): boolean => {
+  if (isCancelledError(error)) return false;
+  // `fetch` rejects with a TypeError when the network request itself fails
+  if (error instanceof TypeError) return true;
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' && TRANSIENT_STATUS.has(status);
+};
+
+/** The server's requested wait, from a `Retry-After` header or a Gemini `RetryInfo.retryDelay`. */
+export const retryHintMs = (error: unknown): number | null => {
+  const retryAfter = (error as { retryAfter?: unknown })?.retryAfter;
+  if (typeof retryAfter === 'string' && retryAfter.trim()) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const message = String((error as { message?: unknown })?.message ?? '');
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : null;
+};
+
+/** Runs `task`, retrying transient failures with exponential backoff or the server's hint. */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (retry >= options.maxRetries || !isTransientError(error)) throw error;
+      const delayMs = retryHintMs(error) ?? options.retryBaseMs * 2 ** retry;
+      options.onRetry?.({ retry: retry + 1, retriesLeft: options.maxRetries - retry - 1, delayMs, error });
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
+
+/**
+ * `fetch` with transient retries. A 429 or 5xx response is retried like a network error; the
+ * last response is returned as is, so callers still check `ok`.
+ */
+export const fetchWithRetry = (url: string, init: RequestInit, options: RetryOptions): Promise<Response> => {
+  const attempt: { response: Response | null } = { response: null };
+  return withRetry(async () => {
+    attempt.response = null;
+    const response = await fetch(url, { ...init, signal: options.signal });
+    if (TRANSIENT_STATUS.has(response.status)) {
+      attempt.response = response;
+      throw Object.assign(new Error(`Request failed: ${response.status} ${response.statusText}`), {
+        status: response.status,
+        retryAfter: response.headers.get('Retry-After') ?? undefined,
+      });
+    }
+    return response;
+  }, options).catch((error) => {
+    if (attempt.response && isTransientError(error)) return attempt.response;
+    throw error;
+  });
+};
+
+/**
+ * Polls until `done(value)` holds. Each poll goes through `withRetry`; the interval grows by
+ * `backoffFactor` up to `maxIntervalMs`, and polling stops with an error after `timeoutMs`.
+ */
+export const pollUntil = async <T>(
+  initial: T,
+  poll: (current: T) => Promise<T>,
+  done: (value: T) => boolean,
+  options: PollOptions,
+): Promise<T> => {
+  const startedAt = Date.now();
+  let current = initial;
+  let polls = 0;
+  while (!done(current)) {
+    const step = options.immediate ? polls - 1 : polls;
+    const wait = step < 0 ? 0 : Math.min(options.maxIntervalMs, options.intervalMs * options.backoffFactor ** step);
+    const elapsedMs = Date.now() - startedAt;
+    if (elapsedMs + wait > options.timeoutMs) {
+      throw new Error(`Timed out after ${formatDuration(elapsedMs)} without a result.`);
+    }
+    // Report once a second while waiting so elapsed time and ETA stay live
+    const pollAt = Date.now() + wait;
+    for (let remaining = wait; ; remaining = pollAt - Date.now()) {
+      const elapsed = Date.now() - startedAt;
+      const etaMs = options.expectedMs !== undefined && options.expectedMs > elapsed ? options.expectedMs - elapsed : null;
+      options.onProgress?.({ polls, elapsedMs: elapsed, etaMs, nextPollMs: Math.max(0, remaining) });
+      if (remaining <= 0) break;
+      await sleep(Math.min(1000, remaining), options.signal);
+    }
+    current = await withRetry(() => poll(current), options);
+    polls++;
+  }
+  return current;
+};
+
+/** "1m 05s" style durations for progress messages. */
+export const formatDuration = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return minutes ? `${minutes}m ${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+};
@@ -0,0 +1,169 @@
+import { GoogleGenAI, Schema, Type } from '@google/genai';
+import { Character, Dialogue, PromptData, Shot } from '../types';
+import {
+  AUDIO_MIX_MODES, CAMERA_ANGLES, CHARACTER_STYLES, DIALOGUE_DELIVERIES, DIALOGUE_EMOTIONS, DIALOGUE_LANGUAGES,
+  GENDERS, LIGHTING_STYLES, MUSIC_GENRES, MUSIC_MOODS, MUSIC_TEMPOS, RACES, SHOOTING_STYLES, VOICES,
+} from '../constants';
+import { createAudio, createCharacter, createEnvironment, createShot } from './promptData';
+
+/**
+ * "Autofill from idea": Gemini expands a logline into a full builder state. The response schema
+ * mirrors `PromptData` and pins option fields to the lists in constants.ts, so the result drops
+ * straight into the form's dropdowns. Characters are referenced by name because the model never
+ * sees our ids.
+ */
+
+export const AUTOFILL_MODEL = 'gemini-2.5-flash';
+export const MAX_AUTOFILL_SHOTS = 4;
+
+const text = (description: string): Schema => ({ type: Type.STRING, description });
+const oneOf = (options: readonly string[], description?: string): Schema => ({ type: Type.STRING, format: 'enum', enum: [...options], description });
+const examples = (list: readonly string[]) => `e.g. ${list.slice(0, 6).join(', ')}`;
+
+const RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    characters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: text('Unique first name'),
+          characterStyle: oneOf(CHARACTER_STYLES),
+          race: oneOf(RACES.filter(r => r !== 'Other (Custom)')),
+          gender: oneOf(GENDERS),
+          age: text('Age in years, digits only'),
+          outfit: text('Clothing, a short phrase'),
+          hairstyle: text('Hair, a short phrase'),
+          voice: oneOf(VOICES),
+          action: text('What the character does, one sentence'),
+        },
+        required: ['name', 'characterStyle', 'race', 'gender', 'age', 'outfit', 'hairstyle', 'voice', 'action'],
+        propertyOrdering: ['name', 'characterStyle', 'race', 'gender', 'age', 'outfit', 'hairstyle', 'voice', 'action'],
+      },
+    },
+    shots: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: text('Short shot title'),
+          scene: text('Environment description: place, time of day, weather'),
+          cast: { type: Type.ARRAY, items: text('Name of a character in this shot') },
+          dialogue: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                speaker: text('Name of the speaking character'),
+                line: text('The spoken line, short enough for an 8 second clip'),
+                emotion: text(examples(DIALOGUE_EMOTIONS)),
+                delivery: text(examples(DIALOGUE_DELIVERIES)),
+                language: oneOf(DIALOGUE_LANGUAGES),
+              },
+              required: ['speaker', 'line'],
+              propertyOrdering: ['speaker', 'line', 'emotion', 'delivery', 'language'],
+            },
+          },
+          lighting: oneOf(LIGHTING_STYLES),
+          cameraAngle: oneOf(CAMERA_ANGLES),
+          shootingStyle: oneOf(SHOOTING_STYLES),
+          ambience: text(`Ambient soundscape, ${examples(['Busy city street', 'Rain on a tin roof'])}`),
+          musicGenre: text(examples(MUSIC_GENRES)),
+          musicMood: oneOf(MUSIC_MOODS),
+          musicTempo: oneOf(MUSIC_TEMPOS),
+          audioMode: oneOf(AUDIO_MIX_MODES.map(m => m.value)),
+        },
+        required: ['title', 'scene', 'cast', 'dialogue', 'lighting', 'cameraAngle', 'shootingStyle', 'audioMode'],
+        propertyOrdering: ['title', 'scene', 'cast', 'dialogue', 'lighting', 'cameraAngle', 'shootingStyle', 'ambience', 'musicGenre', 'musicMood', 'musicTempo', 'audioMode'],
+      },
+    },
+    negativePrompt: text('Comma-separated things the video should avoid, e.g. text overlays, extra limbs'),
+  },
+  required: ['characters', 'shots'],
+  propertyOrdering: ['characters', 'shots', 'negativePrompt'],
+};
+
+const str = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+/** The schema constrains these, but a stray value still must not break the dropdowns. */
+const pick = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const toCharacter = (raw: any): Character => {
+  const base = createCharacter();
+  const race = str(raw?.race);
+  return {
+    ...base,
+    name: str(raw?.name),
+    characterStyle: pick(raw?.characterStyle, CHARACTER_STYLES, base.characterStyle),
+    race: !race ? base.race : RACES.includes(race) ? race : 'Other (Custom)',
+    customRace: race && !RACES.includes(race) ? race : '',
+    gender: pick(raw?.gender, GENDERS, base.gender),
+    age: str(raw?.age).replace(/\D/g, '') || base.age,
+    outfit: str(raw?.outfit),
+    hairstyle: str(raw?.hairstyle),
+    voice: pick(raw?.voice, VOICES, base.voice),
+    description: str(raw?.action),
+  };
+};
+
+/** Maps the model's response onto a fresh builder state; unknown speakers and cast names are dropped. */
+export const autofillToPromptData = (raw: any): PromptData => {
+  const characters: Character[] = (Array.isArray(raw?.characters) ? raw.characters : []).map(toCharacter);
+  const idByName = new Map(characters.map(c => [c.name.toLowerCase(), c.id]));
+  const resolve = (name: unknown) => idByName.get(str(name).toLowerCase());
+
+  const shots: Shot[] = (Array.isArray(raw?.shots) ? raw.shots : []).slice(0, MAX_AUTOFILL_SHOTS).map((s: any): Shot => {
+    const environment = createEnvironment();
+    const audio = createAudio();
+    const dialogues: Dialogue[] = (Array.isArray(s?.dialogue) ? s.dialogue : []).flatMap((d: any): Dialogue[] => {
+      const characterId = resolve(d?.speaker);
+      if (!characterId || !str(d?.line)) return [];
+      const line: Dialogue = { id: crypto.randomUUID(), characterId, text: str(d.line) };
+      if (str(d.emotion)) line.emotion = str(d.emotion);
+      if (str(d.delivery)) line.delivery = str(d.delivery);
+      if (DIALOGUE_LANGUAGES.includes(d.language)) line.language = d.language;
+      return [line];
+    });
+    const cast = new Set<string>([
+      ...(Array.isArray(s?.cast) ? s.cast : []).map(resolve).filter(Boolean),
+      ...dialogues.map(d => d.characterId),
+    ]);
+    return {
+      ...createShot(),
+      title: str(s?.title),
+      characterIds: characters.map(c => c.id).filter(id => cast.has(id)),
+      dialogues,
+      environment: {
+        ...environment,
+        description: str(s?.scene),
+        lighting: pick(s?.lighting, LIGHTING_STYLES, environment.lighting),
+        cameraAngle: pick(s?.cameraAngle, CAMERA_ANGLES, environment.cameraAngle),
+        shootingStyle: pick(s?.shootingStyle, SHOOTING_STYLES, environment.shootingStyle),
+      },
+      audio: {
+        ...audio,
+        mode: pick(s?.audioMode, AUDIO_MIX_MODES.map(m => m.value), audio.mode),
+        ambience: str(s?.ambience),
+        musicGenre: str(s?.musicGenre),
+        musicMood: str(s?.musicMood),
+        musicTempo: str(s?.musicTempo),
+      },
+    };
+  });
+
+  return { characters, shots: shots.length ? shots : [createShot()], negativePrompt: str(raw?.negativePrompt) };
+};
+
+export const autofillFromLogline = async (apiKey: string, logline: string, shotCount: number): Promise<PromptData> => {
+  const ai = new GoogleGenAI({ apiKey });
+  const res = await ai.models.generateContent({
+    model: AUTOFILL_MODEL,
+    contents: `You are planning a short video for Google Veo 3, made of ${shotCount} consecutive 8-second shot${shotCount === 1 ? '' : 's'}. Expand this logline into characters and ${shotCount === 1 ? 'one shot' : `exactly ${shotCount} shots`}. Give every character a unique name and refer to characters by that name in "cast" and "speaker". Keep dialogue short enough to be spoken within each shot, and write it in the language the logline suggests. Logline: ${logline}`,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: RESPONSE_SCHEMA,
+    },
+  });
+  return autofillToPromptData(JSON.parse(res.text ?? '{}'));
+};
@@ -0,0 +1,75 @@
+import { Character, Environment, PromptData, Shot, ShotAudio, StoryPromptData } from '../types';
+import {
+  CAMERA_ANGLES, CHARACTER_STYLES, GENDERS, LIGHTING_STYLES, RACES, SHOOTING_STYLES, VOICES,
+  STORYBOOK_AGES, STORYBOOK_ART_STYLES, STORYBOOK_ATMOSPHERES, STORYBOOK_CHARACTER_PERSONALITIES,
+  STORYBOOK_CHARACTER_SPECIES, STORYBOOK_LOCATIONS,
+} from '../constants';
+
+export const createEnvironment = (): Environment => ({
+  description: '',
+  lighting: LIGHTING_STYLES[0],
+  cameraAngle: CAMERA_ANGLES[0],
+  shootingStyle: SHOOTING_STYLES[0],
+  otherOptions: '',
+});
+
+export const createAudio = (): ShotAudio => ({
+  mode: 'full',
+  ambience: '',
+  musicGenre: '',
+  musicMood: '',
+  musicTempo: '',
+  sfx: [],
+  narration: '',
+});
+
+export const createCharacter = (): Character => ({
+  id: crypto.randomUUID(),
+  name: '',
+  characterStyle: CHARACTER_STYLES[0],
+  race: RACES[0],
+  customRace: '',
+  gender: GENDERS[0],
+  age: '25',
+  outfit: '',
+  hairstyle: '',
+  voice: VOICES[0],
+  description: '',
+});
+
+export const createShot = (): Shot => ({
+  id: crypto.randomUUID(),
+  title: '',
+  characterIds: [],
+  dialogues: [],
+  beats: [],
+  environment: createEnvironment(),
+  audio: createAudio(),
+});
+
+export const createPromptData = (): PromptData => ({
+  characters: [],
+  shots: [createShot()],
+  negativePrompt: '',
+});
+
+export const createStoryPromptData = (): StoryPromptData => ({
+  idea: '',
+  ageGroup: STORYBOOK_AGES[0],
+  artStyle: STORYBOOK_ART_STYLES[0],
+  moral: '',
+  character: {
+    name: '',
+    species: STORYBOOK_CHARACTER_SPECIES[0],
+    customSpecies: '',
+    appearance: '',
+    personality: STORYBOOK_CHARACTER_PERSONALITIES[0],
+    customPersonality: '',
+    goal: '',
+  },
+  setting: {
+    location: STORYBOOK_LOCATIONS[0],
+    atmosphere: STORYBOOK_ATMOSPHERES[0],
+  },
+  plotPoints: [],
+});
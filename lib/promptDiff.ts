@@ -0,0 +1,93 @@
+import { Character, PromptData, Shot } from '../types';
+
+/**
+ * Field-level comparison of two builder states, for reviewing a replacement (such as an AI
+ * autofill) before it is applied. Characters and shots are matched by position.
+ */
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface DiffSection {
+  title: string;
+  /** Added and removed sections have every field on one side empty. */
+  status: 'added' | 'removed' | 'changed';
+  changes: FieldChange[];
+}
+
+const CHARACTER_FIELDS: Array<[string, (c: Character) => string]> = [
+  ['Name', c => c.name],
+  ['Style', c => c.characterStyle],
+  ['Race', c => (c.race === 'Other (Custom)' ? c.customRace : c.race)],
+  ['Gender', c => c.gender],
+  ['Age', c => c.age],
+  ['Outfit', c => c.outfit],
+  ['Hairstyle', c => c.hairstyle],
+  ['Voice', c => c.voice],
+  ['Action', c => c.description],
+];
+
+const shotFields = (data: PromptData): Array<[string, (s: Shot) => string]> => {
+  const nameOf = (id: string) => {
+    const index = data.characters.findIndex(c => c.id === id);
+    return data.characters[index]?.name || `Character ${index + 1}`;
+  };
+  return [
+    ['Title', s => s.title],
+    ['Scene', s => s.environment.description],
+    ['Cast', s => s.characterIds.map(nameOf).join(', ')],
+    ['Dialogue', s => s.dialogues.map(d => `${nameOf(d.characterId)}: ${d.text}`).join('\n')],
+    ['Lighting', s => s.environment.lighting],
+    ['Camera angle', s => s.environment.cameraAngle],
+    ['Shooting style', s => s.environment.shootingStyle],
+    ['Other options', s => s.environment.otherOptions],
+    ['Audio mix', s => s.audio.mode],
+    ['Ambience', s => s.audio.ambience],
+    ['Music', s => [s.audio.musicGenre, s.audio.musicMood, s.audio.musicTempo].filter(Boolean).join(', ')],
+  ];
+};
+
+const compare = <T>(
+  title: string,
+  before: T | undefined,
+  after: T | undefined,
+  beforeFields: Array<[string, (item: T) => string]>,
+  afterFields: Array<[string, (item: T) => string]>,
+): DiffSection | null => {
+  const changes = beforeFields
+    .map(([field, read], i): FieldChange => ({
+      field,
+      before: before ? read(before) : '',
+      after: after ? afterFields[i][1](after) : '',
+    }))
+    .filter(change => change.before !== change.after);
+  if (!changes.length) return null;
+  return { title, status: !before ? 'added' : !after ? 'removed' : 'changed', changes };
+};
+
+export const diffPromptData = (current: PromptData, next: PromptData): DiffSection[] => {
+  const sections: DiffSection[] = [];
+  const characterCount = Math.max(current.characters.length, next.characters.length);
+  for (let i = 0; i < characterCount; i++) {
+    const section = compare(`Character ${i + 1}`, current.characters[i], next.characters[i], CHARACTER_FIELDS, CHARACTER_FIELDS);
+    if (section) sections.push(section);
+  }
+  const currentShotFields = shotFields(current);
+  const nextShotFields = shotFields(next);
+  const shotCount = Math.max(current.shots.length, next.shots.length);
+  for (let i = 0; i < shotCount; i++) {
+    const section = compare(`Shot ${i + 1}`, current.shots[i], next.shots[i], currentShotFields, nextShotFields);
+    if (section) sections.push(section);
+  }
+  if (current.negativePrompt !== next.negativePrompt) {
+    sections.push({
+      title: 'Negative prompt',
+      status: !current.negativePrompt ? 'added' : !next.negativePrompt ? 'removed' : 'changed',
+      changes: [{ field: 'Avoid', before: current.negativePrompt, after: next.negativePrompt }],
+    });
+  }
+  return sections;
+};
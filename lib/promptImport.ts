@@ -0,0 +1,433 @@
+import { ActionBeat, AudioMixMode, Character, Dialogue, Environment, PromptData, SfxCue, Shot, ShotAudio } from '../types';
+import { createAudio, createCharacter, createEnvironment, createShot } from './promptData';
+import { isVeoPrompt, isVeoSequence, toVeoPath, veoPromptToState } from './veoPrompt';
+import { mergeNegativePrompt, negativeTerms } from './negativePrompt';
+
+export interface ImportIssue {
+  path: string;
+  message: string;
+}
+
+export interface ImportCandidate {
+  label: string;
+  /** Schema the input was recognised as, before migration. */
+  format: 'veo' | 'sequence' | 'single-scene' | 'unknown';
+  data: PromptData | null;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+type RawObject = Record<string, unknown>;
+
+const MISSING_ID = 'missing id was regenerated';
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+class IssueCollector {
+  readonly errors: ImportIssue[] = [];
+  readonly warnings: ImportIssue[] = [];
+
+  error(path: string, message: string) {
+    this.errors.push({ path: path || '(root)', message });
+  }
+
+  warn(path: string, message: string) {
+    this.warnings.push({ path: path || '(root)', message });
+  }
+
+  /** Reads an optional text field; numbers and booleans are accepted and stringified. */
+  string(obj: RawObject, key: string, path: string, fallback: string): string {
+    const value = obj[key];
+    if (value === undefined || value === null) return fallback;
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    this.error(join(path, key), `must be a string, got ${Array.isArray(value) ? 'array' : typeof value}`);
+    return fallback;
+  }
+
+  /** Reads an optional non-negative number; numeric strings are accepted. */
+  number(obj: RawObject, key: string, path: string): number | undefined {
+    const value = obj[key];
+    if (value === undefined || value === null || value === '') return undefined;
+    const num = typeof value === 'string' ? Number(value) : value;
+    if (typeof num !== 'number' || !Number.isFinite(num) || num < 0) {
+      this.error(join(path, key), 'must be a non-negative number');
+      return undefined;
+    }
+    return num;
+  }
+
+  boolean(obj: RawObject, key: string, path: string): boolean | undefined {
+    const value = obj[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'boolean') return value;
+    this.error(join(path, key), `must be true or false, got ${typeof value}`);
+    return undefined;
+  }
+
+  array(obj: RawObject, key: string, path: string): unknown[] {
+    const value = obj[key];
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      this.error(join(path, key), 'must be an array');
+      return [];
+    }
+    return value;
+  }
+
+  /** Returns a usable unique id, regenerating it when missing or already taken. */
+  id(obj: RawObject, path: string, seen: Set<string>): string {
+    const raw = obj.id;
+    let id = typeof raw === 'string' ? raw.trim() : '';
+    if (!id) {
+      id = crypto.randomUUID();
+      this.warn(join(path, 'id'), MISSING_ID);
+    } else if (seen.has(id)) {
+      id = crypto.randomUUID();
+      this.warn(join(path, 'id'), 'duplicate id was regenerated');
+    }
+    seen.add(id);
+    return id;
+  }
+}
+
+const readCharacter = (raw: unknown, path: string, issues: IssueCollector, seen: Set<string>): { character: Character; originalId: string | null } | null => {
+  if (!isObject(raw)) {
+    issues.error(path, 'must be an object');
+    return null;
+  }
+  const defaults = createCharacter();
+  const originalId = typeof raw.id === 'string' ? raw.id : null;
+  const character: Character = {
+    id: issues.id(raw, path, seen),
+    name: issues.string(raw, 'name', path, defaults.name),
+    characterStyle: issues.string(raw, 'characterStyle', path, defaults.characterStyle),
+    race: issues.string(raw, 'race', path, defaults.race),
+    customRace: issues.string(raw, 'customRace', path, defaults.customRace),
+    gender: issues.string(raw, 'gender', path, defaults.gender),
+    age: issues.string(raw, 'age', path, defaults.age),
+    outfit: issues.string(raw, 'outfit', path, defaults.outfit),
+    hairstyle: issues.string(raw, 'hairstyle', path, defaults.hairstyle),
+    voice: issues.string(raw, 'voice', path, defaults.voice),
+    description: issues.string(raw, 'description', path, defaults.description),
+  };
+  if (typeof raw.libraryId === 'string' && raw.libraryId) character.libraryId = raw.libraryId;
+  return { character, originalId };
+};
+
+const readEnvironment = (raw: unknown, path: string, issues: IssueCollector): Environment => {
+  const defaults = createEnvironment();
+  if (raw === undefined || raw === null) {
+    issues.warn(path, 'missing environment was filled with defaults');
+    return defaults;
+  }
+  if (!isObject(raw)) {
+    issues.error(path, 'must be an object');
+    return defaults;
+  }
+  return {
+    description: issues.string(raw, 'description', path, defaults.description),
+    lighting: issues.string(raw, 'lighting', path, defaults.lighting),
+    cameraAngle: issues.string(raw, 'cameraAngle', path, defaults.cameraAngle),
+    shootingStyle: issues.string(raw, 'shootingStyle', path, defaults.shootingStyle),
+    otherOptions: issues.string(raw, 'otherOptions', path, defaults.otherOptions),
+  };
+};
+
+const AUDIO_MODES: AudioMixMode[] = ['full', 'no_music', 'dialogue_only'];
+
+/** Audio was added after the first exports, so a missing block quietly gets the defaults. */
+const readAudio = (raw: unknown, path: string, issues: IssueCollector, seen: Set<string>): ShotAudio => {
+  const defaults = createAudio();
+  if (raw === undefined || raw === null) return defaults;
+  if (!isObject(raw)) {
+    issues.error(path, 'must be an object');
+    return defaults;
+  }
+  const mode = issues.string(raw, 'mode', path, defaults.mode) as AudioMixMode;
+  if (!AUDIO_MODES.includes(mode)) issues.warn(join(path, 'mode'), `unknown mode "${mode}" was replaced with "full"`);
+  const sfx: SfxCue[] = [];
+  issues.array(raw, 'sfx', path).forEach((cue, i) => {
+    const cuePath = join(join(path, 'sfx'), i);
+    if (!isObject(cue)) {
+      issues.error(cuePath, 'must be an object');
+      return;
+    }
+    sfx.push({
+      id: issues.id(cue, cuePath, seen),
+      time: issues.number(cue, 'time', cuePath) ?? 0,
+      sound: issues.string(cue, 'sound', cuePath, ''),
+    });
+  });
+  return {
+    mode: AUDIO_MODES.includes(mode) ? mode : defaults.mode,
+    ambience: issues.string(raw, 'ambience', path, defaults.ambience),
+    musicGenre: issues.string(raw, 'musicGenre', path, defaults.musicGenre),
+    musicMood: issues.string(raw, 'musicMood', path, defaults.musicMood),
+    musicTempo: issues.string(raw, 'musicTempo', path, defaults.musicTempo),
+    sfx,
+    narration: issues.string(raw, 'narration', path, defaults.narration),
+  };
+};
+
+const readDialogues = (list: unknown[], path: string, issues: IssueCollector, seen: Set<string>, resolveSpeaker: (id: string) => string | null): Dialogue[] => {
+  const dialogues: Dialogue[] = [];
+  list.forEach((raw, i) => {
+    const itemPath = join(path, i);
+    if (!isObject(raw)) {
+      issues.error(itemPath, 'must be an object');
+      return;
+    }
+    const speakerRaw = issues.string(raw, 'characterId', itemPath, '');
+    const characterId = resolveSpeaker(speakerRaw);
+    if (!characterId) {
+      issues.error(join(itemPath, 'characterId'), speakerRaw ? `refers to unknown character "${speakerRaw}"` : 'is required');
+      return;
+    }
+    const dialogue: Dialogue = {
+      id: issues.id(raw, itemPath, seen),
+      characterId,
+      text: issues.string(raw, 'text', itemPath, ''),
+    };
+    // Optional delivery fields are only set when present, so older prompts round-trip unchanged
+    (['emotion', 'delivery', 'language'] as const).forEach(key => {
+      const value = issues.string(raw, key, itemPath, '');
+      if (value) dialogue[key] = value;
+    });
+    const startTime = issues.number(raw, 'startTime', itemPath);
+    if (startTime !== undefined) dialogue.startTime = startTime;
+    if (issues.boolean(raw, 'offScreen', itemPath)) dialogue.offScreen = true;
+    dialogues.push(dialogue);
+  });
+  return dialogues;
+};
+
+const readBeats = (list: unknown[], path: string, issues: IssueCollector, seen: Set<string>, dialogues: Dialogue[]): ActionBeat[] => {
+  const beats: ActionBeat[] = [];
+  list.forEach((raw, i) => {
+    const itemPath = join(path, i);
+    if (!isObject(raw)) {
+      issues.error(itemPath, 'must be an object');
+      return;
+    }
+    const start = issues.number(raw, 'start', itemPath);
+    const end = issues.number(raw, 'end', itemPath);
+    if (start === undefined || end === undefined) {
+      issues.error(itemPath, 'needs a "start" and "end" time in seconds');
+      return;
+    }
+    const beat: ActionBeat = {
+      id: issues.id(raw, itemPath, seen),
+      start,
+      end,
+      action: issues.string(raw, 'action', itemPath, ''),
+      camera: issues.string(raw, 'camera', itemPath, ''),
+    };
+    const dialogueId = issues.string(raw, 'dialogueId', itemPath, '');
+    if (dialogueId && dialogues.some(d => d.id === dialogueId)) {
+      beat.dialogueId = dialogueId;
+    } else if (dialogueId) {
+      issues.warn(join(itemPath, 'dialogueId'), `unknown dialogue line "${dialogueId}" was unlinked`);
+    }
+    beats.push(beat);
+  });
+  return beats;
+};
+
+/** Validates one prompt object and migrates older shapes to the current `PromptData`. */
+export function normalizePromptData(raw: unknown, basePath = ''): Omit<ImportCandidate, 'label'> {
+  const issues = new IssueCollector();
+  if (!isObject(raw)) {
+    issues.error(basePath, 'must be a JSON object');
+    return { format: 'unknown', data: null, errors: issues.errors, warnings: issues.warnings };
+  }
+
+  if (isVeoPrompt(raw)) return normalizeVeoPrompt(raw, basePath);
+
+  const isSequence = Array.isArray(raw.shots);
+  const isSingleScene = !isSequence && ('environment' in raw || 'dialogues' in raw);
+  if (!isSequence && !isSingleScene && !Array.isArray(raw.characters)) {
+    issues.error(basePath, 'is not a prompt: expected "shots" or "environment"/"dialogues" keys');
+    return { format: 'unknown', data: null, errors: issues.errors, warnings: issues.warnings };
+  }
+
+  // Ids are regenerated when missing or duplicated, so references are resolved through this map
+  const characterIds = new Map<string, string>();
+  const seenCharacters = new Set<string>();
+  const characters: Character[] = [];
+  issues.array(raw, 'characters', basePath).forEach((item, i) => {
+    const result = readCharacter(item, join(join(basePath, 'characters'), i), issues, seenCharacters);
+    if (!result) return;
+    characters.push(result.character);
+    if (result.originalId && !characterIds.has(result.originalId)) characterIds.set(result.originalId, result.character.id);
+  });
+  const resolveSpeaker = (id: string) => (id ? characterIds.get(id) ?? null : null);
+
+  const seenShots = new Set<string>();
+  const seenDialogues = new Set<string>();
+  const seenBeats = new Set<string>();
+  const seenCues = new Set<string>();
+  let shots: Shot[];
+
+  if (isSequence) {
+    shots = [];
+    (raw.shots as unknown[]).forEach((item, i) => {
+      const shotPath = join(join(basePath, 'shots'), i);
+      if (!isObject(item)) {
+        issues.error(shotPath, 'must be an object');
+        return;
+      }
+      const cast: string[] = [];
+      issues.array(item, 'characterIds', shotPath).forEach((ref, j) => {
+        const resolved = typeof ref === 'string' ? resolveSpeaker(ref) : null;
+        if (!resolved) {
+          issues.warn(join(join(shotPath, 'characterIds'), j), `unknown character "${String(ref)}" was removed from the cast`);
+        } else if (!cast.includes(resolved)) {
+          cast.push(resolved);
+        }
+      });
+      const dialogues = readDialogues(issues.array(item, 'dialogues', shotPath), join(shotPath, 'dialogues'), issues, seenDialogues, resolveSpeaker);
+      // An on-screen speaker always belongs to the shot's cast
+      dialogues.forEach(d => {
+        if (!d.offScreen && !cast.includes(d.characterId)) cast.push(d.characterId);
+      });
+      shots.push({
+        id: issues.id(item, shotPath, seenShots),
+        title: issues.string(item, 'title', shotPath, ''),
+        characterIds: characters.map(c => c.id).filter(id => cast.includes(id)),
+        dialogues,
+        beats: readBeats(issues.array(item, 'beats', shotPath), join(shotPath, 'beats'), issues, seenBeats, dialogues),
+        environment: readEnvironment(item.environment, join(shotPath, 'environment'), issues),
+        audio: readAudio(item.audio, join(shotPath, 'audio'), issues, seenCues),
+      });
+    });
+    if (!shots.length) {
+      issues.warn(join(basePath, 'shots'), 'no shots found; an empty shot was added');
+      shots = [createShot()];
+    }
+  } else {
+    // Single-scene prompts (and per-shot JSON output) become a one-shot sequence with everyone in it
+    issues.warn(basePath, 'single-scene prompt was migrated to a one-shot sequence');
+    const dialogues = readDialogues(issues.array(raw, 'dialogues', basePath), join(basePath, 'dialogues'), issues, seenDialogues, resolveSpeaker);
+    shots = [{
+      ...createShot(),
+      title: issues.string(raw, 'title', basePath, ''),
+      characterIds: characters.map(c => c.id),
+      dialogues,
+      beats: readBeats(issues.array(raw, 'beats', basePath), join(basePath, 'beats'), issues, seenBeats, dialogues),
+      environment: readEnvironment(raw.environment, join(basePath, 'environment'), issues),
+      audio: readAudio(raw.audio, join(basePath, 'audio'), issues, seenCues),
+    }];
+  }
+
+  const negativePrompt = issues.string(raw, 'negativePrompt', basePath, '');
+
+  return {
+    format: isSequence ? 'sequence' : 'single-scene',
+    data: issues.errors.length ? null : { characters, shots, negativePrompt },
+    errors: issues.errors,
+    warnings: issues.warnings,
+  };
+}
+
+function normalizeVeoPrompt(doc: Parameters<typeof veoPromptToState>[0], basePath: string): Omit<ImportCandidate, 'label'> {
+  const { raw, error } = veoPromptToState(doc);
+  if (error) {
+    return { format: 'veo', data: null, errors: [{ path: join(basePath, 'version'), message: error }], warnings: [] };
+  }
+  const result = normalizePromptData(raw, basePath);
+  const sequence = isVeoSequence(doc);
+  const toPath = (issue: ImportIssue): ImportIssue => ({ ...issue, path: toVeoPath(issue.path, sequence) });
+  return {
+    format: 'veo',
+    data: result.data,
+    errors: result.errors.map(toPath),
+    // Veo documents carry no ids for shots and lines, so those notices would only be noise
+    warnings: result.warnings
+      .filter(w => !(w.message === MISSING_ID && !/characters\[\d+\]\.id$/.test(w.path)))
+      .map(toPath),
+  };
+}
+
+const candidateLabel = (raw: unknown, index: number, total: number, source: string) => {
+  const title = isObject(raw) && typeof raw.title === 'string' && raw.title ? raw.title : '';
+  const base = total > 1 ? `${source} #${index + 1}` : source;
+  return title ? `${base} — ${title}` : base;
+};
+
+/**
+ * Parses pasted text or file contents. A file may hold one prompt, an array of prompts,
+ * or an object with a `prompts` array; every entry becomes its own candidate.
+ */
+export function parsePromptImport(text: string, source = 'Pasted JSON'): ImportCandidate[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err: any) {
+    return [{ label: source, format: 'unknown', data: null, errors: [{ path: '(root)', message: `Invalid JSON: ${err?.message || err}` }], warnings: [] }];
+  }
+
+  let entries: unknown[];
+  let basePath: (index: number) => string;
+  if (Array.isArray(parsed)) {
+    entries = parsed;
+    basePath = (i) => `[${i}]`;
+  } else if (isObject(parsed) && Array.isArray(parsed.prompts)) {
+    entries = parsed.prompts;
+    basePath = (i) => `prompts[${i}]`;
+  } else {
+    entries = [parsed];
+    basePath = () => '';
+  }
+
+  if (!entries.length) {
+    return [{ label: source, format: 'unknown', data: null, errors: [{ path: '(root)', message: 'contains no prompts' }], warnings: [] }];
+  }
+
+  return entries.map((entry, i) => ({
+    label: candidateLabel(entry, i, entries.length, source),
+    ...normalizePromptData(entry, basePath(i)),
+  }));
+}
+
+/** Joins several imported prompts into one sequence; characters shared by id are kept once. */
+export function combinePromptData(items: PromptData[]): PromptData {
+  const characters: Character[] = [];
+  const seen = new Set<string>();
+  items.forEach(item => item.characters.forEach(c => {
+    if (seen.has(c.id)) return;
+    seen.add(c.id);
+    characters.push(c);
+  }));
+  const shotIds = new Set<string>();
+  const shots = items.flatMap(item => item.shots).map(shot => {
+    if (!shotIds.has(shot.id)) {
+      shotIds.add(shot.id);
+      return shot;
+    }
+    return { ...shot, id: crypto.randomUUID() };
+  });
+  const negativePrompt = items.reduce((merged, item) => mergeNegativePrompt(merged, negativeTerms(item.negativePrompt)), '');
+  return { characters, shots, negativePrompt };
+}
+
+/** Human-readable summary of what applying `next` would change, shown before replacing the builder. */
+export function describePromptChange(current: PromptData, next: PromptData): string[] {
+  const lines: string[] = [];
+  const names = (data: PromptData) => data.characters.map((c, i) => c.name || `Character ${i + 1}`);
+  const countLines = (data: PromptData) => data.shots.reduce((sum, s) => sum + s.dialogues.length, 0);
+  lines.push(`Characters: ${current.characters.length} → ${next.characters.length}${next.characters.length ? ` (${names(next).join(', ')})` : ''}`);
+  lines.push(`Shots: ${current.shots.length} → ${next.shots.length}`);
+  lines.push(`Dialogue lines: ${countLines(current)} → ${countLines(next)}`);
+  const removed = names(current).filter(n => !names(next).includes(n));
+  if (removed.length) lines.push(`Removed characters: ${removed.join(', ')}`);
+  next.shots.forEach((shot, i) => {
+    const desc = shot.environment.description.trim();
+    lines.push(`Shot ${i + 1}${shot.title ? ` — ${shot.title}` : ''}: ${desc ? (desc.length > 60 ? `${desc.slice(0, 57)}...` : desc) : '(no description)'}`);
+  });
+  return lines;
+}
@@ -0,0 +1,71 @@
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintFix<T> {
+  label: string;
+  apply: (data: T) => T;
+}
+
+export interface LintIssue<T> {
+  ruleId: string;
+  severity: LintSeverity;
+  /** Human-readable location, e.g. "Shot 2 · Character 1 (Budi)". */
+  location: string;
+  message: string;
+  /** What to change; shown even when there is no one-click fix. */
+  suggestion?: string;
+  fix?: LintFix<T>;
+}
+
+export interface RenderedPrompt {
+  label: string;
+  text: string;
+}
+
+export interface LintConfig {
+  disabled: string[];
+  maxPromptLength: number;
+}
+
+export interface LintContext {
+  config: LintConfig;
+  /** Final prompt texts, for rules that look at the output rather than the fields. */
+  prompts: RenderedPrompt[];
+}
+
+export interface LintRule<T> {
+  id: string;
+  label: string;
+  description: string;
+  check: (data: T, ctx: LintContext) => LintIssue<T>[];
+}
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export const lintPrompt = <T>(rules: LintRule<T>[], data: T, ctx: LintContext): LintIssue<T>[] =>
+  rules
+    .filter((rule) => !ctx.config.disabled.includes(rule.id))
+    .flatMap((rule) => rule.check(data, ctx))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+export const loadLintConfig = (storageKey: string, defaults: LintConfig): LintConfig => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return defaults;
+    const parsed = JSON.parse(saved) as Partial<LintConfig>;
+    return {
+      disabled: Array.isArray(parsed.disabled) ? parsed.disabled.filter((id) => typeof id === 'string') : defaults.disabled,
+      maxPromptLength: Number(parsed.maxPromptLength) > 0 ? Number(parsed.maxPromptLength) : defaults.maxPromptLength,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveLintConfig = (storageKey: string, config: LintConfig) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(config));
+  } catch {}
+};
+
+/** Rule helper for the common "this field renders as an empty gap" case. */
+export const isBlank = (value: string | undefined | null) => !value || !value.trim();
@@ -0,0 +1,245 @@
+import { Character, Dialogue, PromptData, Shot, ShotAudio, StoryPromptData } from '../types';
+import { sortBeats } from './beats';
+import { audioParts } from './audio';
+
+/**
+ * Locale-independent prompt rendering. Each locale supplies phrase templates with `{placeholder}`
+ * slots plus a few grammar helpers; the functions below decide which sentences appear and in what
+ * order, so adding a language never means copying this logic.
+ */
+
+export interface GrammarHelpers {
+  /** The word for a character's gender, e.g. "Male" → "pria". */
+  gender: (value: string) => string;
+  /** Age phrase, e.g. "25" → "25-year-old" or "berusia 25 tahun". */
+  age: (value: string) => string;
+  /** Counted shots, e.g. 3 → "3 shots". */
+  shots: (count: number) => string;
+  /** Name of a spoken language from DIALOGUE_LANGUAGES, e.g. "Indonesian" → "bahasa Indonesia". */
+  language: (value: string) => string;
+  /** Space between appended sentences; empty for scripts written without spaces. */
+  sentenceGap?: string;
+  /** Separator between short list items such as delivery notes; defaults to ", ". */
+  listSeparator?: string;
+}
+
+export interface VideoPhrases {
+  scene: string;
+  character: string;
+  unnamed: string;
+  characterFallback: string;
+  unknownCharacter: string;
+  dialogueHeading: string;
+  dialogueLine: string;
+  offScreenSpeaker: string;
+  /** Wraps a whole line that has a start time. */
+  dialogueTimed: string;
+  /** Wraps the joined emotion, delivery and language notes after a line. */
+  dialogueDirection: string;
+  emotion: string;
+  delivery: string;
+  spokenLanguage: string;
+  beatsHeading: string;
+  /** Time range that opens a beat line, e.g. "0–2s:". */
+  beatTime: string;
+  beatAction: string;
+  beatCamera: string;
+  audioHeading: string;
+  ambience: string;
+  /** Joined genre, mood and tempo phrases. */
+  music: string;
+  musicMood: string;
+  musicTempo: string;
+  sfx: string;
+  sfxCue: string;
+  narration: string;
+  noMusic: string;
+  dialogueOnly: string;
+  shotDetails: string;
+  notes: string;
+  shotHeading: string;
+  shotHeadingTitled: string;
+  sequenceIntro: string;
+}
+
+export interface StoryPhrases {
+  intro: string;
+  moral: string;
+  ideaHeading: string;
+  ideaPlaceholder: string;
+  characterHeading: string;
+  name: string;
+  species: string;
+  appearance: string;
+  personality: string;
+  goal: string;
+  settingHeading: string;
+  location: string;
+  atmosphere: string;
+  notSpecified: string;
+  plotHeading: string;
+  closing: string;
+}
+
+export interface PromptLocale {
+  /** BCP 47 language code, also used as the storage key for the user's selection. */
+  id: string;
+  /** English name, used in output titles such as "Indonesian Prompt". */
+  label: string;
+  grammar: GrammarHelpers;
+  video: VideoPhrases;
+  story: StoryPhrases;
+}
+
+/** Fills `{key}` slots. Only the template is scanned, so braces in user text are left alone. */
+export const fill = (template: string, vars: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (_, key: string) => (key in vars ? String(vars[key]) : ''));
+
+/** Grammar helper that maps known option values and passes anything else (custom text) through. */
+export const lookup = (table: Record<string, string>) => (value: string) => table[value] ?? value;
+
+const resolveRace = (char: Character) => (char.race === 'Other (Custom)' ? char.customRace : char.race);
+
+/** Seconds with at most one decimal, e.g. 2.25 → "2.3", 4 → "4". */
+const formatSeconds = (seconds: number) => String(Math.round(seconds * 10) / 10);
+
+const renderDialogue = (locale: PromptLocale, d: Dialogue, speakerName: string): string => {
+  const { video: t, grammar } = locale;
+  const speaker = d.offScreen ? fill(t.offScreenSpeaker, { speaker: speakerName }) : speakerName;
+  let line = fill(t.dialogueLine, { speaker, text: d.text });
+  const direction = [
+    d.emotion && fill(t.emotion, { emotion: d.emotion }),
+    d.delivery && fill(t.delivery, { delivery: d.delivery }),
+    d.language && fill(t.spokenLanguage, { language: grammar.language(d.language) }),
+  ].filter(Boolean);
+  if (direction.length) {
+    line += `${grammar.sentenceGap ?? ' '}${fill(t.dialogueDirection, { direction: direction.join(grammar.listSeparator ?? ', ') })}`;
+  }
+  return d.startTime !== undefined ? fill(t.dialogueTimed, { time: formatSeconds(d.startTime), line }) : line;
+};
+
+const renderAudio = (locale: PromptLocale, audio: ShotAudio): string[] => {
+  const { video: t, grammar } = locale;
+  const parts = audioParts(audio.mode);
+  const list = (items: string[]) => items.join(grammar.listSeparator ?? ', ');
+  const lines: string[] = [];
+  if (audio.mode === 'dialogue_only') lines.push(t.dialogueOnly);
+  if (parts.ambience && audio.ambience.trim()) lines.push(fill(t.ambience, { ambience: audio.ambience.trim() }));
+  if (parts.music) {
+    const music = [
+      audio.musicGenre.trim(),
+      audio.musicMood.trim() && fill(t.musicMood, { mood: audio.musicMood.trim() }),
+      audio.musicTempo.trim() && fill(t.musicTempo, { tempo: audio.musicTempo.trim() }),
+    ].filter(Boolean);
+    if (music.length) lines.push(fill(t.music, { music: list(music) }));
+  } else if (audio.mode === 'no_music') {
+    lines.push(t.noMusic);
+  }
+  if (parts.sfx) {
+    const cues = [...audio.sfx]
+      .sort((a, b) => a.time - b.time)
+      .filter((c) => c.sound.trim())
+      .map((c) => fill(t.sfxCue, { sound: c.sound.trim(), time: formatSeconds(c.time) }));
+    if (cues.length) lines.push(fill(t.sfx, { cues: list(cues) }));
+  }
+  if (audio.narration.trim()) lines.push(fill(t.narration, { text: audio.narration.trim() }));
+  return lines;
+};
+
+export const renderVideoShot = (locale: PromptLocale, data: PromptData, shot: Shot): string => {
+  const { video: t, grammar } = locale;
+  const numberOf = (char: Character) => data.characters.findIndex((c) => c.id === char.id) + 1;
+  const identify = (char: Character | undefined) =>
+    !char ? t.unknownCharacter : char.name || fill(t.characterFallback, { number: numberOf(char) });
+
+  let text = `${fill(t.scene, { description: shot.environment.description })}\n\n`;
+  data.characters
+    .filter((c) => shot.characterIds.includes(c.id))
+    .forEach((char) => {
+      text += `${fill(t.character, {
+        number: numberOf(char),
+        name: char.name || t.unnamed,
+        age: grammar.age(char.age),
+        race: resolveRace(char),
+        gender: grammar.gender(char.gender),
+        style: char.characterStyle,
+        outfit: char.outfit,
+        hairstyle: char.hairstyle,
+        voice: char.voice,
+        action: char.description,
+      })}\n`;
+    });
+  if (shot.dialogues.length > 0) {
+    text += `\n${t.dialogueHeading}\n`;
+    shot.dialogues.forEach((d) => {
+      const speaker = data.characters.find((c) => c.id === d.characterId);
+      text += `${renderDialogue(locale, d, identify(speaker))}\n`;
+    });
+  }
+  const gap = grammar.sentenceGap ?? ' ';
+  const beatLines = sortBeats(shot.beats).flatMap((beat) => {
+    const line = beat.dialogueId ? shot.dialogues.find((d) => d.id === beat.dialogueId) : undefined;
+    const parts = [
+      beat.action.trim() && fill(t.beatAction, { action: beat.action.trim() }),
+      beat.camera.trim() && fill(t.beatCamera, { camera: beat.camera.trim() }),
+      // The beat already places the line in time
+      line && renderDialogue(locale, { ...line, startTime: undefined }, identify(data.characters.find((c) => c.id === line.characterId))),
+    ].filter(Boolean);
+    if (!parts.length) return [];
+    return [`${fill(t.beatTime, { start: formatSeconds(beat.start), end: formatSeconds(beat.end) })}${gap}${parts.join(gap)}`];
+  });
+  if (beatLines.length) text += `\n${t.beatsHeading}\n${beatLines.join('\n')}\n`;
+  const audioLines = renderAudio(locale, shot.audio);
+  if (audioLines.length) text += `\n${t.audioHeading}\n${audioLines.join('\n')}\n`;
+  const env = shot.environment;
+  text += `\n${fill(t.shotDetails, { lighting: env.lighting, cameraAngle: env.cameraAngle, shootingStyle: env.shootingStyle })}`;
+  if (env.otherOptions) text += `${gap}${fill(t.notes, { notes: env.otherOptions })}`;
+  return text.trim();
+};
+
+/** Joins already-rendered shots under numbered headings with a consistency note up front. */
+export const renderVideoSequence = (locale: PromptLocale, data: PromptData, shotTexts: string[]): string => {
+  const { video: t, grammar } = locale;
+  const heading = (shot: Shot, index: number) =>
+    fill(shot.title ? t.shotHeadingTitled : t.shotHeading, { number: index + 1, title: shot.title });
+  return [
+    fill(t.sequenceIntro, { shots: grammar.shots(data.shots.length) }),
+    ...data.shots.map((shot, i) => `${heading(shot, i)}\n${shotTexts[i]}`),
+  ].join('\n\n');
+};
+
+export const renderStoryPrompt = (locale: PromptLocale, data: StoryPromptData): string => {
+  const { story: t, grammar } = locale;
+  const { idea, ageGroup, artStyle, moral, character, setting, plotPoints } = data;
+
+  const species = character.species === 'Other (Custom)' ? character.customSpecies : character.species;
+  const personality = character.personality === 'Other (Custom)' ? character.customPersonality : character.personality;
+  const location = setting.location === 'Other (Custom)' ? (setting as any).customLocation : setting.location;
+  const atmosphere = setting.atmosphere === 'Other (Custom)' ? (setting as any).customAtmosphere : setting.atmosphere;
+  const item = (label: string, value: string | undefined) => `\n- ${label}: ${value || t.notSpecified}`;
+
+  let text = fill(t.intro, { ageGroup, artStyle });
+  if (moral) text += `${grammar.sentenceGap ?? ' '}${fill(t.moral, { moral })}`;
+  text += `\n\n**${t.ideaHeading}:**\n${idea || t.ideaPlaceholder}`;
+
+  text += `\n\n**${t.characterHeading}:**`;
+  text += item(t.name, character.name);
+  text += item(t.species, species);
+  text += item(t.appearance, character.appearance);
+  text += item(t.personality, personality);
+  text += item(t.goal, character.goal);
+
+  text += `\n\n**${t.settingHeading}:**`;
+  text += item(t.location, location);
+  text += item(t.atmosphere, atmosphere);
+
+  if (plotPoints.length > 0) {
+    text += `\n\n**${t.plotHeading}:**`;
+    plotPoints.forEach((p, i) => {
+      if (p.text) text += `\n${i + 1}. ${p.text}`;
+    });
+  }
+
+  text += `\n\n${t.closing}`;
+  return text;
+};
@@ -6,7 +6,8 @@ export interface QueueSnapshot {
 
 interface QueueTask<T> {
   id: string;
-  run: () => Promise<T>;
+  run: (signal: AbortSignal) => Promise<T>;
+  controller: AbortController;
   resolve: (value: T) => void;
   reject: (error: unknown) => void;
   description?: string;
@@ -24,6 +25,30 @@ export interface QueueJob<T> {
 
 const now = () => Date.now();
 
+/** The error a cancelled job rejects with; it matches what `fetch` throws on abort. */
+export const cancelledError = () => new DOMException('Cancelled.', 'AbortError');
+
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/** Resolves after `ms`, or rejects with `cancelledError()` as soon as `signal` aborts. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = () => {
+      window.clearTimeout(timeout);
+      reject(cancelledError());
+    };
+    const timeout = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
 export class RequestQueue {
   private readonly delayMs: number;
   private readonly listeners = new Set<(snapshot: QueueSnapshot) => void>();
@@ -38,11 +63,16 @@ export class RequestQueue {
     this.delayMs = Math.max(0, delayMs || 0);
   }
 
-  enqueue<T>(run: () => Promise<T>, meta: QueueMeta = {}): QueueJob<T> {
+  /**
+   * Adds a job. `run` receives a signal that aborts when the job is cancelled; it should pass the
+   * signal to every request and wait so the queue can move on promptly.
+   */
+  enqueue<T>(run: (signal: AbortSignal) => Promise<T>, meta: QueueMeta = {}): QueueJob<T> {
     const id = crypto.randomUUID();
     const task: QueueTask<T> = {
       id,
       run,
+      controller: new AbortController(),
       resolve: () => undefined as unknown as T,
       reject: () => undefined,
       description: meta.description,
@@ -61,6 +91,37 @@ export class RequestQueue {
     return { id, promise };
   }
 
+  /**
+   * Cancels a job. A queued job is removed and rejects right away; the running job has its signal
+   * aborted and rejects once its work stops. Returns false for unknown or finished jobs.
+   */
+  cancel(id: string): boolean {
+    if (this.activeTask?.id === id) {
+      this.activeTask.controller.abort();
+      return true;
+    }
+    const index = this.tasks.findIndex((task) => task.id === id);
+    if (index === -1) {
+      return false;
+    }
+    const [task] = this.tasks.splice(index, 1);
+    task.controller.abort();
+    task.reject(cancelledError());
+    this.notify();
+    return true;
+  }
+
+  /** Cancels the running job and everything waiting behind it. */
+  cancelAll() {
+    const queued = this.tasks.splice(0, this.tasks.length);
+    queued.forEach((task) => {
+      task.controller.abort();
+      task.reject(cancelledError());
+    });
+    this.activeTask?.controller.abort();
+    this.notify();
+  }
+
   subscribe(listener: (snapshot: QueueSnapshot) => void): () => void {
     this.listeners.add(listener);
     listener(this.snapshot());
@@ -99,7 +160,7 @@ export class RequestQueue {
         }
 
         try {
-          const result = await this.activeTask.run();
+          const result = await this.activeTask.run(this.activeTask.controller.signal);
           (this.activeTask as QueueTask<unknown>).resolve(result);
         } catch (error) {
           this.activeTask.reject(error);
@@ -0,0 +1,95 @@
+/**
+ * Timeline math for segmented videos: which part of each clip survives its trim points, and the
+ * FFmpeg inputs that cut clips to those points when the segments are merged.
+ */
+
+export interface TrimPoints {
+  /** Seconds cut from the start of the clip. */
+  trimIn?: number;
+  /** Where the clip ends, in seconds from its start; unset keeps the full clip. */
+  trimOut?: number;
+}
+
+export interface ClipWindow {
+  /** Length of the generated clip. */
+  length: number;
+  start: number;
+  end: number;
+  /** Seconds left after trimming. */
+  kept: number;
+  trimmed: boolean;
+}
+
+/** The shortest piece of a clip a trim may leave, in seconds. */
+export const MIN_CLIP_SECONDS = 0.5;
+
+/** Seconds as written into FFmpeg arguments. */
+export const roundSeconds = (value: number) => Number(value.toFixed(3));
+
+export const clipWindow = (length: number, trim: TrimPoints): ClipWindow => {
+  const start = Math.min(Math.max(0, trim.trimIn ?? 0), Math.max(0, length - MIN_CLIP_SECONDS));
+  const end = Math.max(Math.min(length, start + MIN_CLIP_SECONDS), Math.min(length, trim.trimOut ?? length));
+  return { length, start, end, kept: end - start, trimmed: start > 0 || end < length };
+};
+
+/** Moves one item to another index, e.g. after a drag on the timeline. */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const next = items.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(next.length, to)), 0, item);
+  return next;
+};
+
+/**
+ * A concat demuxer list. With stream copy the cut lands on the nearest keyframe before the in
+ * point, so fast merges can keep a few extra frames.
+ */
+export const concatList = (files: string[], clips: ClipWindow[]): string =>
+  files
+    .flatMap((file, i) => {
+      const clip = clips[i];
+      const lines = [`file ${file}`];
+      if (clip?.start) lines.push(`inpoint ${roundSeconds(clip.start)}`);
+      if (clip && clip.end < clip.length) lines.push(`outpoint ${roundSeconds(clip.end)}`);
+      return lines;
+    })
+    .join('\n');
+
+/** Trims input `i`'s video and fits it to `width`×`height` at 24 fps, so clips of any size can be joined. */
+export const videoChain = (i: number, clip: ClipWindow, width: number, height: number, out: string): string => {
+  const cut = clip.trimmed ? `trim=start=${roundSeconds(clip.start)}:end=${roundSeconds(clip.end)},setpts=PTS-STARTPTS,` : '';
+  return `[${i}:v]${cut}scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=24,format=yuv420p[${out}]`;
+};
+
+/** Trims input `i`'s audio to 48 kHz stereo, or makes silence as long as the clip when it has none. */
+export const audioChain = (i: number, clip: ClipWindow, hasAudio: boolean, out: string): string => {
+  if (!hasAudio) return `anullsrc=r=48000:cl=stereo,atrim=end=${roundSeconds(clip.kept)}[${out}]`;
+  const cut = clip.trimmed ? `atrim=start=${roundSeconds(clip.start)}:end=${roundSeconds(clip.end)},asetpts=PTS-STARTPTS,` : '';
+  return `[${i}:a]${cut}aresample=48000,aformat=channel_layouts=stereo[${out}]`;
+};
+
+export interface ConcatInput {
+  clip: ClipWindow;
+  hasAudio: boolean;
+}
+
+/**
+ * `-filter_complex` that re-encodes clips into one when stream copy cannot: each clip is trimmed,
+ * scaled and padded to `width`×`height`, and with `audio` gets its own track or silence.
+ * Outputs `[v]`, plus `[a]` with audio.
+ */
+export const concatFilter = (inputs: ConcatInput[], width: number, height: number, audio: boolean): string => {
+  const parts: string[] = [];
+  const pads: string[] = [];
+  inputs.forEach(({ clip, hasAudio }, i) => {
+    parts.push(videoChain(i, clip, width, height, `v${i}`));
+    pads.push(`[v${i}]`);
+    if (audio) {
+      parts.push(audioChain(i, clip, hasAudio, `a${i}`));
+      pads.push(`[a${i}]`);
+    }
+  });
+  parts.push(`${pads.join('')}concat=n=${inputs.length}:v=1:a=${audio ? 1 : 0}${audio ? '[v][a]' : '[v]'}`);
+  return parts.join(';');
+};
@@ -0,0 +1,223 @@
+import { PromptData, StoryPromptData, Tab } from '../types';
+import { normalizePromptData } from './promptImport';
+import { createStoryPromptData } from './promptData';
+
+/**
+ * Share links carry the active tab's form state in the URL hash as deflated, base64url-encoded
+ * JSON. Only form fields are encoded: the API key, uploaded images and generated media never
+ * leave the browser. States too large for a URL are offered as a download instead.
+ */
+
+export const SHARE_HASH_PREFIX = '#share=';
+const SHARE_VERSION = 1;
+/** Conservative limit that survives chat apps and older browsers. */
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+export interface SharedSegment {
+  prompt: string;
+  duration: number;
+  continuity: 'none' | 'last_frame';
+  negativePrompt: string;
+}
+
+export interface SharedSegmentPlan {
+  segmentedMode: boolean;
+  prompt: string;
+  negativePrompt: string;
+  segments: SharedSegment[];
+}
+
+/** Form state per tab; tabs without shareable state only restore the tab itself. */
+export interface ShareStates {
+  prompt: PromptData;
+  storybook_prompt: StoryPromptData;
+  video: SharedSegmentPlan;
+}
+
+export type ShareableTab = keyof ShareStates;
+
+export interface SharePayload {
+  v: number;
+  tab: Tab;
+  state?: ShareStates[ShareableTab];
+}
+
+export const isShareableTab = (tab: Tab): tab is ShareableTab =>
+  tab === 'prompt' || tab === 'storybook_prompt' || tab === 'video';
+
+// --- Encoding ---
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((b) => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const body = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(body).arrayBuffer());
+};
+
+export const encodeSharePayload = async (payload: SharePayload): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+};
+
+export const decodeSharePayload = async (encoded: string): Promise<SharePayload> => {
+  const bytes = await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+  return parseSharePayload(new TextDecoder().decode(bytes));
+};
+
+/** Builds the link for the current page, or null when it would exceed MAX_SHARE_URL_LENGTH. */
+export const buildShareUrl = async (payload: SharePayload): Promise<string | null> => {
+  const base = `${window.location.origin}${window.location.pathname}${window.location.search}`;
+  const url = `${base}${SHARE_HASH_PREFIX}${await encodeSharePayload(payload)}`;
+  return url.length > MAX_SHARE_URL_LENGTH ? null : url;
+};
+
+export const readShareHash = (hash: string): string | null =>
+  hash.startsWith(SHARE_HASH_PREFIX) ? hash.slice(SHARE_HASH_PREFIX.length) : null;
+
+export const clearShareHash = () => {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, '', `${pathname}${search}`);
+};
+
+export const downloadSharePayload = (payload: SharePayload) => {
+  const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `veo-share-${payload.tab}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Sanitising ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const TABS: Tab[] = ['prompt', 'image', 'video', 'storybook', 'storybook_prompt', 'library'];
+
+const text = (value: unknown, fallback = '') => (typeof value === 'string' ? value : fallback);
+
+const sanitizeStory = (raw: unknown): StoryPromptData => {
+  const base = createStoryPromptData();
+  if (!isObject(raw)) return base;
+  const character = isObject(raw.character) ? raw.character : {};
+  const setting = isObject(raw.setting) ? raw.setting : {};
+  return {
+    idea: text(raw.idea),
+    ageGroup: text(raw.ageGroup, base.ageGroup),
+    artStyle: text(raw.artStyle, base.artStyle),
+    moral: text(raw.moral),
+    character: {
+      name: text(character.name),
+      species: text(character.species, base.character.species),
+      customSpecies: text(character.customSpecies),
+      appearance: text(character.appearance),
+      personality: text(character.personality, base.character.personality),
+      customPersonality: text(character.customPersonality),
+      goal: text(character.goal),
+    },
+    setting: {
+      location: text(setting.location, base.setting.location),
+      atmosphere: text(setting.atmosphere, base.setting.atmosphere),
+    },
+    plotPoints: Array.isArray(raw.plotPoints)
+      ? raw.plotPoints.map((p: unknown) => ({ id: crypto.randomUUID(), text: isObject(p) ? text(p.text) : '' }))
+      : [],
+  };
+};
+
+const sanitizeSegmentPlan = (raw: unknown): SharedSegmentPlan => {
+  const plan = isObject(raw) ? raw : {};
+  const segments = Array.isArray(plan.segments) ? plan.segments.filter(isObject) : [];
+  return {
+    segmentedMode: plan.segmentedMode === true,
+    prompt: text(plan.prompt),
+    negativePrompt: text(plan.negativePrompt),
+    segments: segments.map((s, idx) => ({
+      prompt: text(s.prompt),
+      duration: Math.max(1, Math.min(8, Math.round(Number(s.duration) || 8))),
+      continuity: s.continuity === 'last_frame' && idx > 0 ? 'last_frame' : 'none',
+      negativePrompt: text(s.negativePrompt),
+    })),
+  };
+};
+
+/** Parses and validates a payload from a link or a downloaded share file. */
+export const parseSharePayload = (json: string): SharePayload => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('The shared data is not valid JSON.');
+  }
+  if (!isObject(raw) || !TABS.includes(raw.tab)) throw new Error('This is not a share link or share file from this app.');
+  if (Number(raw.v) > SHARE_VERSION) throw new Error('This link was made by a newer version of the app.');
+  const tab = raw.tab as Tab;
+  if (!isShareableTab(tab) || raw.state === undefined) return { v: SHARE_VERSION, tab };
+  if (tab === 'prompt') {
+    const result = normalizePromptData(raw.state, 'state');
+    if (!result.data) throw new Error(`The shared prompt is invalid: ${result.errors.map((e) => `${e.path} ${e.message}`).join('; ')}`);
+    return { v: SHARE_VERSION, tab, state: result.data };
+  }
+  if (tab === 'storybook_prompt') return { v: SHARE_VERSION, tab, state: sanitizeStory(raw.state) };
+  return { v: SHARE_VERSION, tab, state: sanitizeSegmentPlan(raw.state) };
+};
+
+/** Prompt-builder state without library links, which only mean something in the sender's browser. */
+export const sharedPromptData = (data: PromptData): PromptData => ({
+  ...data,
+  characters: data.characters.map(({ libraryId: _libraryId, ...char }) => char),
+});
+
+export const createSharePayload = (tab: Tab, state?: ShareStates[ShareableTab]): SharePayload => ({
+  v: SHARE_VERSION,
+  tab,
+  state,
+});
+
+// --- Sources ---
+
+/**
+ * Components that own shareable state register here so the header's Share button can read it
+ * and an opened link can restore it. Restores for a tab that is not mounted yet wait until it
+ * mounts and calls `takePendingShare`.
+ */
+export interface ShareSource<K extends ShareableTab> {
+  capture: () => ShareStates[K];
+  restore: (state: ShareStates[K]) => void;
+  /** True when restoring would overwrite something the user typed. */
+  hasLocalWork: () => boolean;
+}
+
+const sources = new Map<ShareableTab, ShareSource<any>>();
+const pending = new Map<ShareableTab, ShareStates[ShareableTab]>();
+
+export const registerShareSource = <K extends ShareableTab>(tab: K, source: ShareSource<K>) => {
+  sources.set(tab, source);
+  return () => {
+    if (sources.get(tab) === source) sources.delete(tab);
+  };
+};
+
+export const getShareSource = <K extends ShareableTab>(tab: K): ShareSource<K> | undefined => sources.get(tab);
+
+export const setPendingShare = <K extends ShareableTab>(tab: K, state: ShareStates[K]) => {
+  pending.set(tab, state);
+};
+
+export const takePendingShare = <K extends ShareableTab>(tab: K): ShareStates[K] | undefined => {
+  const state = pending.get(tab) as ShareStates[K] | undefined;
+  pending.delete(tab);
+  return state;
+};
@@ -0,0 +1,164 @@
+import { ClipWindow, audioChain, roundSeconds, videoChain } from './segmentTimeline';
+
+/**
+ * Transitions between merged segments. Each boundary has its own FFmpeg `xfade` mode (or a plain
+ * cut), its own length and its own way of carrying the audio across. A boundary's transition is
+ * stored on the segment after it, so it follows that segment when the timeline is reordered.
+ */
+
+export const VIDEO_TRANSITIONS = [
+  { value: 'cut', label: 'Cut' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'dissolve', label: 'Dissolve' },
+  { value: 'fadeblack', label: 'Fade to black' },
+  { value: 'fadewhite', label: 'Fade to white' },
+  { value: 'fadegrays', label: 'Fade through gray' },
+  { value: 'wipeleft', label: 'Wipe left' },
+  { value: 'wiperight', label: 'Wipe right' },
+  { value: 'wipeup', label: 'Wipe up' },
+  { value: 'wipedown', label: 'Wipe down' },
+  { value: 'slideleft', label: 'Slide left' },
+  { value: 'slideright', label: 'Slide right' },
+  { value: 'slideup', label: 'Slide up' },
+  { value: 'slidedown', label: 'Slide down' },
+  { value: 'smoothleft', label: 'Smooth left' },
+  { value: 'smoothright', label: 'Smooth right' },
+  { value: 'smoothup', label: 'Smooth up' },
+  { value: 'smoothdown', label: 'Smooth down' },
+  { value: 'circleopen', label: 'Circle open' },
+  { value: 'circleclose', label: 'Circle close' },
+  { value: 'circlecrop', label: 'Circle crop' },
+  { value: 'rectcrop', label: 'Rectangle crop' },
+  { value: 'vertopen', label: 'Vertical open' },
+  { value: 'vertclose', label: 'Vertical close' },
+  { value: 'horzopen', label: 'Horizontal open' },
+  { value: 'horzclose', label: 'Horizontal close' },
+  { value: 'diagtl', label: 'Diagonal top-left' },
+  { value: 'diagtr', label: 'Diagonal top-right' },
+  { value: 'diagbl', label: 'Diagonal bottom-left' },
+  { value: 'diagbr', label: 'Diagonal bottom-right' },
+  { value: 'hlslice', label: 'Slice left' },
+  { value: 'hrslice', label: 'Slice right' },
+  { value: 'vuslice', label: 'Slice up' },
+  { value: 'vdslice', label: 'Slice down' },
+  { value: 'radial', label: 'Radial' },
+  { value: 'pixelize', label: 'Pixelize' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'hblur', label: 'Horizontal blur' },
+  { value: 'zoomin', label: 'Zoom in' },
+  { value: 'squeezeh', label: 'Squeeze horizontal' },
+  { value: 'squeezev', label: 'Squeeze vertical' },
+] as const;
+
+export type VideoTransition = (typeof VIDEO_TRANSITIONS)[number]['value'];
+
+/**
+ * `crossfade` blends both tracks over the transition. A J-cut switches to the next clip's audio
+ * when the transition starts, so it is heard before its picture; an L-cut keeps the previous
+ * clip's audio until the transition ends.
+ */
+export type AudioTransition = 'crossfade' | 'jcut' | 'lcut';
+
+export const AUDIO_TRANSITIONS: ReadonlyArray<{ value: AudioTransition; label: string }> = [
+  { value: 'crossfade', label: 'Crossfade' },
+  { value: 'jcut', label: 'J-cut (next audio leads)' },
+  { value: 'lcut', label: 'L-cut (audio trails)' },
+];
+
+export interface BoundaryTransition {
+  video: VideoTransition;
+  /** Seconds the two clips overlap; a cut has no overlap. */
+  duration: number;
+  audio: AudioTransition;
+}
+
+export const MIN_TRANSITION_SECONDS = 0.1;
+export const MAX_TRANSITION_SECONDS = 2;
+
+export const DEFAULT_TRANSITION: BoundaryTransition = { video: 'fade', duration: 0.5, audio: 'crossfade' };
+
+export const clampTransitionSeconds = (value: number) =>
+  Math.max(MIN_TRANSITION_SECONDS, Math.min(MAX_TRANSITION_SECONDS, Number.isFinite(value) ? value : DEFAULT_TRANSITION.duration));
+
+/** A stored transition, or undefined when it is missing or malformed. */
+export const parseTransition = (value: unknown): BoundaryTransition | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const { video, duration, audio } = value as Record<string, unknown>;
+  if (!VIDEO_TRANSITIONS.some(t => t.value === video)) return undefined;
+  return {
+    video: video as VideoTransition,
+    duration: clampTransitionSeconds(Number(duration)),
+    audio: AUDIO_TRANSITIONS.some(t => t.value === audio) ? (audio as AudioTransition) : DEFAULT_TRANSITION.audio,
+  };
+};
+
+/** Seconds the clips on either side of a boundary overlap. */
+export const overlapSeconds = (transition: BoundaryTransition | undefined): number =>
+  !transition || transition.video === 'cut' ? 0 : transition.duration;
+
+/** Length of the merged video; `transitions[i]` sits between clips `i` and `i + 1`. */
+export const mergedSeconds = (clips: ClipWindow[], transitions: BoundaryTransition[]): number =>
+  clips.reduce((sum, clip, i) => sum + clip.kept - (i ? overlapSeconds(transitions[i - 1]) : 0), 0);
+
+/** Index of the first clip too short for the transitions on both its sides, or -1. */
+export const findTooShortClip = (clips: ClipWindow[], transitions: BoundaryTransition[]): number =>
+  clips.findIndex((clip, i) => clip.kept <= (i ? overlapSeconds(transitions[i - 1]) : 0) + overlapSeconds(transitions[i]));
+
+const audioJoin = (left: string, right: string, transition: BoundaryTransition, offset: number, i: number, out: string): string => {
+  const overlap = overlapSeconds(transition);
+  if (!overlap) return `[${left}][${right}]concat=n=2:v=0:a=1[${out}]`;
+  switch (transition.audio) {
+    case 'jcut':
+      return `[${left}]atrim=end=${roundSeconds(offset)}[jl${i}];[jl${i}][${right}]concat=n=2:v=0:a=1[${out}]`;
+    case 'lcut':
+      return `[${right}]atrim=start=${roundSeconds(overlap)},asetpts=PTS-STARTPTS[lr${i}];[${left}][lr${i}]concat=n=2:v=0:a=1[${out}]`;
+    default:
+      return `[${left}][${right}]acrossfade=d=${roundSeconds(overlap)}[${out}]`;
+  }
+};
+
+export interface TransitionInput {
+  clip: ClipWindow;
+  hasAudio: boolean;
+}
+
+/**
+ * `-filter_complex` that joins every clip in one pass: each is trimmed and fitted to
+ * `width`×`height`, then chained into the next through its boundary's transition. With `audio`,
+ * clips without sound get silence so no boundary loses its audio. Outputs `[v]`, plus `[a]`.
+ */
+export const transitionFilter = (inputs: TransitionInput[], transitions: BoundaryTransition[], width: number, height: number, audio: boolean): string => {
+  const parts: string[] = [];
+  inputs.forEach(({ clip, hasAudio }, i) => {
+    parts.push(videoChain(i, clip, width, height, `v${i}`));
+    if (audio) parts.push(audioChain(i, clip, hasAudio, `a${i}`));
+  });
+  if (inputs.length < 2) {
+    parts.push('[v0]null[v]');
+    if (audio) parts.push('[a0]anull[a]');
+    return parts.join(';');
+  }
+
+  let video = 'v0';
+  let sound = 'a0';
+  let length = inputs[0].clip.kept;
+  for (let i = 1; i < inputs.length; i++) {
+    const transition = transitions[i - 1] ?? DEFAULT_TRANSITION;
+    const overlap = overlapSeconds(transition);
+    // The transition starts this long before the end of everything joined so far
+    const offset = length - overlap;
+    const last = i === inputs.length - 1;
+    const videoOut = last ? 'v' : `vx${i}`;
+    parts.push(overlap
+      ? `[${video}][v${i}]xfade=transition=${transition.video}:duration=${roundSeconds(overlap)}:offset=${roundSeconds(offset)}[${videoOut}]`
+      : `[${video}][v${i}]concat=n=2:v=1:a=0[${videoOut}]`);
+    if (audio) {
+      const soundOut = last ? 'a' : `ax${i}`;
+      parts.push(audioJoin(sound, `a${i}`, transition, offset, i, soundOut));
+      sound = soundOut;
+    }
+    video = videoOut;
+    length += inputs[i].clip.kept - overlap;
+  }
+  return parts.join(';');
+};
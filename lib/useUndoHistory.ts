@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useReducer } from 'react';
+
+/**
+ * Undo/redo for a builder's form state. Every change is recorded with a human-readable label so
+ * the history panel can list it ("Deleted character Budi"). Consecutive changes that share a
+ * `coalesceKey` (typing into one text field) collapse into a single entry.
+ */
+
+const MAX_ENTRIES = 100;
+
+export interface HistoryAction {
+  label: string;
+  /** Consecutive changes with the same key merge into one entry, e.g. `character:<id>:name`. */
+  coalesceKey?: string;
+}
+
+interface HistoryEntry<T> {
+  /** State before (past) or after (future) the labelled action. */
+  state: T;
+  label: string;
+}
+
+interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: T;
+  future: HistoryEntry<T>[];
+  lastKey: string | null;
+}
+
+type Updater<T> = T | ((prev: T) => T);
+
+type HistoryMessage<T> =
+  | { type: 'set'; updater: Updater<T>; action: HistoryAction | null }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jump'; index: number }
+  | { type: 'patch'; updater: (prev: T) => T };
+
+export interface HistoryItem {
+  label: string;
+  /** Applied items are in the past; the rest can be redone. */
+  applied: boolean;
+}
+
+const reducer = <T>(history: HistoryState<T>, message: HistoryMessage<T>): HistoryState<T> => {
+  switch (message.type) {
+    case 'set': {
+      const { updater, action } = message;
+      const next = typeof updater === 'function' ? (updater as (prev: T) => T)(history.present) : updater;
+      if (Object.is(next, history.present)) return history;
+      // Changes without an action fold into the current step, e.g. a dependent field reset
+      if (!action) return { ...history, present: next };
+      if (action.coalesceKey && action.coalesceKey === history.lastKey && history.past.length) {
+        return { ...history, present: next, future: [] };
+      }
+      return {
+        past: [...history.past, { state: history.present, label: action.label }].slice(-MAX_ENTRIES),
+        present: next,
+        future: [],
+        lastKey: action.coalesceKey ?? null,
+      };
+    }
+    case 'undo': {
+      const previous = history.past[history.past.length - 1];
+      if (!previous) return history;
+      return {
+        past: history.past.slice(0, -1),
+        present: previous.state,
+        future: [{ state: history.present, label: previous.label }, ...history.future],
+        lastKey: null,
+      };
+    }
+    case 'redo': {
+      const [next, ...rest] = history.future;
+      if (!next) return history;
+      return {
+        past: [...history.past, { state: history.present, label: next.label }],
+        present: next.state,
+        future: rest,
+        lastKey: null,
+      };
+    }
+    case 'patch': {
+      const apply = (entry: HistoryEntry<T>) => ({ ...entry, state: message.updater(entry.state) });
+      return {
+        ...history,
+        past: history.past.map(apply),
+        present: message.updater(history.present),
+        future: history.future.map(apply),
+      };
+    }
+    case 'jump': {
+      // `index` counts applied actions: 0 is the initial state, past.length is the present
+      let current = history;
+      while (current.past.length > message.index) current = reducer(current, { type: 'undo' });
+      while (current.past.length < message.index && current.future.length) current = reducer(current, { type: 'redo' });
+      return current;
+    }
+  }
+};
+
+export const useUndoHistory = <T>(initial: T | (() => T)) => {
+  const [history, dispatch] = useReducer(
+    reducer as (h: HistoryState<T>, m: HistoryMessage<T>) => HistoryState<T>,
+    initial,
+    (init): HistoryState<T> => ({
+      past: [],
+      present: typeof init === 'function' ? (init as () => T)() : init,
+      future: [],
+      lastKey: null,
+    }),
+  );
+
+  const set = useCallback((updater: Updater<T>, action: HistoryAction | null) => {
+    dispatch({ type: 'set', updater, action });
+  }, []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const jumpTo = useCallback((index: number) => dispatch({ type: 'jump', index }), []);
+  /**
+   * Applies a change to the present and every snapshot, for results that arrive from outside the
+   * form (generation status, ids assigned by a save) so that undo never rolls them back.
+   */
+  const patchAll = useCallback((updater: (prev: T) => T) => dispatch({ type: 'patch', updater }), []);
+
+  const items: HistoryItem[] = [
+    ...history.past.map((entry) => ({ label: entry.label, applied: true })),
+    ...history.future.map((entry) => ({ label: entry.label, applied: false })),
+  ];
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    jumpTo,
+    patchAll,
+    items,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
+
+/** Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes, while `enabled`. */
+export const useUndoShortcuts = (undo: () => void, redo: () => void, enabled = true) => {
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo, enabled]);
+};
@@ -0,0 +1,118 @@
+import { GenerateVideosConfig } from '@google/genai';
+
+/**
+ * What each Veo model accepts in `generateVideos` config when called through the Gemini API (the
+ * only backend an API key reaches). The form disables anything a model does not support, and
+ * `toVeoConfig` leaves it out of the request, so unsupported combinations never reach the server.
+ */
+
+export type PersonGeneration = 'allow_all' | 'allow_adult' | 'dont_allow';
+
+export const PERSON_GENERATION_OPTIONS: ReadonlyArray<{ value: PersonGeneration; label: string }> = [
+  { value: 'allow_all', label: 'People of all ages' },
+  { value: 'allow_adult', label: 'Adults only' },
+  { value: 'dont_allow', label: 'No people' },
+];
+
+export interface VeoCapabilities {
+  aspectRatios: string[];
+  /** `durationSeconds` values the model accepts. */
+  durations: number[];
+  /** Empty when the model has a fixed resolution and rejects the field. */
+  resolutions: string[];
+  /** Resolutions that only work with some aspect ratios. */
+  resolutionAspectRatios?: Record<string, string[]>;
+  personGeneration: {
+    text: PersonGeneration[];
+    /** Image-to-video (reference image or last-frame continuity) is more restricted. */
+    image: PersonGeneration[];
+  };
+  /** `always`: audio cannot be turned off; `none`: the model is silent; `optional`: `generateAudio` is sent. */
+  audio: 'always' | 'none' | 'optional';
+  enhancePrompt: boolean;
+  /** Most `numberOfVideos` one request may ask for; more takes need more requests. */
+  videosPerRequest: number;
+}
+
+const VEO_3: VeoCapabilities = {
+  aspectRatios: ['16:9', '9:16'],
+  durations: [8],
+  resolutions: ['720p', '1080p'],
+  resolutionAspectRatios: { '1080p': ['16:9'] },
+  personGeneration: { text: ['allow_all'], image: ['allow_adult'] },
+  audio: 'always',
+  enhancePrompt: false,
+  videosPerRequest: 1,
+};
+
+const VEO_2: VeoCapabilities = {
+  aspectRatios: ['16:9', '9:16'],
+  durations: [5, 6, 7, 8],
+  resolutions: [],
+  personGeneration: { text: ['allow_all', 'allow_adult', 'dont_allow'], image: ['allow_adult', 'dont_allow'] },
+  audio: 'none',
+  enhancePrompt: true,
+  videosPerRequest: 2,
+};
+
+export const VEO_MODEL_CAPABILITIES: Record<string, VeoCapabilities> = {
+  'veo-3.0-generate-001': VEO_3,
+  'veo-3.0-fast-generate-001': VEO_3,
+  'veo-2.0-generate-001': VEO_2,
+};
+
+/** Capabilities of a listed model; custom ids borrow those of their Veo generation. */
+export const veoCapabilities = (modelId: string): VeoCapabilities =>
+  VEO_MODEL_CAPABILITIES[modelId] ?? (/^veo-2/.test(modelId) ? VEO_2 : VEO_3);
+
+/** The shortest supported clip that fits `seconds`, or the longest one. */
+export const fitDuration = (caps: VeoCapabilities, seconds: number): number =>
+  caps.durations.find(d => d >= seconds) ?? caps.durations[caps.durations.length - 1];
+
+export const supportsResolution = (caps: VeoCapabilities, resolution: string, aspectRatio: string): boolean =>
+  caps.resolutions.includes(resolution) && (caps.resolutionAspectRatios?.[resolution]?.includes(aspectRatio) ?? true);
+
+export const personGenerationChoices = (caps: VeoCapabilities, withImage: boolean): PersonGeneration[] =>
+  withImage ? caps.personGeneration.image : caps.personGeneration.text;
+
+/** `numberOfVideos` for each request needed to get `takes` videos, e.g. [2, 1] for three takes on Veo 2. */
+export const takeBatches = (caps: VeoCapabilities, takes: number): number[] => {
+  const batches: number[] = [];
+  for (let left = Math.max(1, takes); left > 0; left -= caps.videosPerRequest) {
+    batches.push(Math.min(left, caps.videosPerRequest));
+  }
+  return batches;
+};
+
+export const audioEnabled = (caps: VeoCapabilities, requested: boolean): boolean =>
+  caps.audio === 'always' || (caps.audio === 'optional' && requested);
+
+export interface VeoSettings {
+  aspectRatio: string;
+  durationSeconds: number;
+  resolution: string;
+  generateAudio: boolean;
+  /** Empty keeps the model's default. */
+  personGeneration: PersonGeneration | '';
+  enhancePrompt: boolean;
+  negativePrompt: string;
+  /** Whether the request carries a starting image. */
+  withImage: boolean;
+  /** Videos in this request; capped at what the model returns per request. */
+  numberOfVideos: number;
+}
+
+/** Request config with only the fields the model accepts; unsupported values are dropped. */
+export const toVeoConfig = (caps: VeoCapabilities, settings: VeoSettings): GenerateVideosConfig => {
+  const config: GenerateVideosConfig = { numberOfVideos: Math.max(1, Math.min(caps.videosPerRequest, settings.numberOfVideos)) };
+  if (caps.aspectRatios.includes(settings.aspectRatio)) config.aspectRatio = settings.aspectRatio;
+  config.durationSeconds = fitDuration(caps, settings.durationSeconds);
+  if (supportsResolution(caps, settings.resolution, settings.aspectRatio)) config.resolution = settings.resolution;
+  if (caps.audio === 'optional') config.generateAudio = settings.generateAudio;
+  if (settings.personGeneration && personGenerationChoices(caps, settings.withImage).includes(settings.personGeneration)) {
+    config.personGeneration = settings.personGeneration;
+  }
+  if (caps.enhancePrompt) config.enhancePrompt = settings.enhancePrompt;
+  if (settings.negativePrompt) config.negativePrompt = settings.negativePrompt;
+  return config;
+};
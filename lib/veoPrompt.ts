@@ -0,0 +1,373 @@
+import { Character, PromptData, Shot } from '../types';
+import { sortBeats } from './beats';
+import { audioParts } from './audio';
+import { RACES } from '../constants';
+
+/**
+ * Structured "JSON prompting" format sent to Veo. Unlike the builder state it has no internal
+ * UUIDs or UI-only fields, custom values are already resolved, and it carries a schema version
+ * so older exports can still be imported.
+ */
+export const VEO_PROMPT_SCHEMA = 'veo-prompt';
+export const VEO_PROMPT_VERSION = 1;
+
+export interface VeoCharacter {
+  ref: string;
+  name?: string;
+  age?: string;
+  gender?: string;
+  ethnicity?: string;
+  style?: string;
+  outfit?: string;
+  hair?: string;
+  voice?: string;
+  action?: string;
+  /** Standalone shots only: heard in an off-screen line but not part of the shot's cast. */
+  off_screen?: true;
+}
+
+export interface VeoDialogueLine {
+  speaker: string;
+  name: string;
+  line: string;
+  emotion?: string;
+  delivery?: string;
+  /** Seconds from the start of the clip. */
+  start_seconds?: number;
+  language?: string;
+  off_screen?: boolean;
+}
+
+export interface VeoBeat {
+  start_seconds: number;
+  end_seconds: number;
+  action?: string;
+  camera?: string;
+  /** Index into the shot's `dialogue` list. */
+  dialogue?: number;
+}
+
+export interface VeoCamera {
+  angle?: string;
+  movement?: string;
+}
+
+export interface VeoMusic {
+  genre?: string;
+  mood?: string;
+  tempo?: string;
+}
+
+export interface VeoAudio {
+  voices: Array<{ speaker: string; voice: string }>;
+  /** Omitted for a full mix. */
+  mode?: 'no_music' | 'dialogue_only';
+  ambience?: string;
+  music?: VeoMusic;
+  sfx?: Array<{ start_seconds: number; sound: string }>;
+  narration?: string;
+}
+
+export interface VeoShot {
+  title?: string;
+  scene: string;
+  characters: string[];
+  dialogue: VeoDialogueLine[];
+  timeline?: VeoBeat[];
+  camera: VeoCamera;
+  lighting?: string;
+  style?: string;
+  audio: VeoAudio;
+}
+
+/** One shot as a standalone prompt: its cast is inlined instead of referenced. */
+export interface VeoShotPrompt extends Omit<VeoShot, 'characters'> {
+  schema: typeof VEO_PROMPT_SCHEMA;
+  version: number;
+  characters: VeoCharacter[];
+  negative_prompt?: string;
+}
+
+export interface VeoSequencePrompt {
+  schema: typeof VEO_PROMPT_SCHEMA;
+  version: number;
+  style?: string;
+  characters: VeoCharacter[];
+  shots: VeoShot[];
+  negative_prompt?: string;
+}
+
+export type VeoPrompt = VeoShotPrompt | VeoSequencePrompt;
+
+const omitEmpty = <T extends object>(obj: T): T =>
+  Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== '' && v !== undefined && v !== null)) as T;
+
+const characterRef = (index: number) => `char_${index + 1}`;
+
+const toVeoCharacter = (char: Character, index: number): VeoCharacter => omitEmpty({
+  ref: characterRef(index),
+  name: char.name,
+  age: char.age,
+  gender: char.gender,
+  ethnicity: char.race === 'Other (Custom)' ? char.customRace : char.race,
+  style: char.characterStyle,
+  outfit: char.outfit,
+  hair: char.hairstyle,
+  voice: char.voice,
+  action: char.description,
+});
+
+const toVeoShot = (data: PromptData, shot: Shot): VeoShot => {
+  const refOf = (id: string) => characterRef(data.characters.findIndex(c => c.id === id));
+  const cast = data.characters.filter(c => shot.characterIds.includes(c.id));
+  // Off-screen lines may come from characters outside the cast; they still need a voice
+  const speakers = data.characters.filter(c => cast.includes(c) || shot.dialogues.some(d => d.characterId === c.id));
+  return omitEmpty({
+    title: shot.title,
+    scene: shot.environment.description,
+    characters: cast.map(c => refOf(c.id)),
+    dialogue: shot.dialogues.map(d => {
+      const speaker = data.characters.find(c => c.id === d.characterId);
+      return {
+        speaker: refOf(d.characterId),
+        name: speaker?.name || '',
+        line: d.text,
+        ...omitEmpty({ emotion: d.emotion, delivery: d.delivery, start_seconds: d.startTime, language: d.language }),
+        ...(d.offScreen ? { off_screen: true } : {}),
+      };
+    }),
+    timeline: shot.beats.length
+      ? sortBeats(shot.beats).map(b => {
+        const line = shot.dialogues.findIndex(d => d.id === b.dialogueId);
+        return omitEmpty({ start_seconds: b.start, end_seconds: b.end, action: b.action, camera: b.camera, dialogue: line === -1 ? undefined : line });
+      })
+      : undefined,
+    camera: omitEmpty({ angle: shot.environment.cameraAngle, movement: shot.environment.shootingStyle }),
+    lighting: shot.environment.lighting,
+    style: shot.environment.otherOptions,
+    audio: toVeoAudio(shot, speakers.filter(c => c.voice).map(c => ({ speaker: refOf(c.id), voice: c.voice }))),
+  });
+};
+
+/** Only the parts the mix mode keeps are exported, so Veo never sees music in a "no music" shot. */
+const toVeoAudio = (shot: Shot, voices: VeoAudio['voices']): VeoAudio => {
+  const { audio } = shot;
+  const parts = audioParts(audio.mode);
+  const music = parts.music ? omitEmpty({ genre: audio.musicGenre, mood: audio.musicMood, tempo: audio.musicTempo }) : {};
+  const sfx = parts.sfx ? [...audio.sfx].sort((a, b) => a.time - b.time).filter(c => c.sound.trim()) : [];
+  return omitEmpty({
+    voices,
+    mode: audio.mode === 'full' ? undefined : audio.mode,
+    ambience: parts.ambience ? audio.ambience : undefined,
+    music: Object.keys(music).length ? music : undefined,
+    sfx: sfx.length ? sfx.map(c => ({ start_seconds: c.time, sound: c.sound })) : undefined,
+    narration: audio.narration,
+  });
+};
+
+/**
+ * A standalone shot inlines its characters: the cast, plus any off-screen speaker from outside it,
+ * marked `off_screen` so importing the shot restores the speaker without casting them.
+ */
+export const toVeoShotPrompt = (data: PromptData, shot: Shot): VeoShotPrompt => {
+  const { characters: refs, ...rest } = toVeoShot(data, shot);
+  const speakerRefs = (rest.dialogue ?? []).map(d => d.speaker);
+  return {
+    schema: VEO_PROMPT_SCHEMA,
+    version: VEO_PROMPT_VERSION,
+    ...rest,
+    characters: data.characters
+      .map((c, i) => toVeoCharacter(c, i))
+      .filter(c => refs.includes(c.ref) || speakerRefs.includes(c.ref))
+      .map(c => refs.includes(c.ref) ? c : { ...c, off_screen: true as const }),
+    ...omitEmpty({ negative_prompt: data.negativePrompt.trim() }),
+  };
+};
+
+export const toVeoSequencePrompt = (data: PromptData): VeoSequencePrompt => ({
+  schema: VEO_PROMPT_SCHEMA,
+  version: VEO_PROMPT_VERSION,
+  characters: data.characters.map((c, i) => toVeoCharacter(c, i)),
+  shots: data.shots.map(shot => toVeoShot(data, shot)),
+  ...omitEmpty({ negative_prompt: data.negativePrompt.trim() }),
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isVeoPrompt = (value: unknown): value is VeoPrompt =>
+  isObject(value) && value.schema === VEO_PROMPT_SCHEMA;
+
+export const isVeoSequence = (value: VeoPrompt): value is VeoSequencePrompt =>
+  Array.isArray((value as VeoSequencePrompt).shots);
+
+/** Returns the parsed document when `text` is a Veo JSON prompt, otherwise null. */
+export const parseVeoPrompt = (text: string): VeoPrompt | null => {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(trimmed);
+    return isVeoPrompt(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Each shot of a sequence as its own standalone prompt, e.g. one per video segment. */
+export const splitVeoSequence = (doc: VeoSequencePrompt): VeoShotPrompt[] =>
+  doc.shots.map(shot => ({
+    schema: VEO_PROMPT_SCHEMA,
+    version: doc.version,
+    ...shot,
+    style: [doc.style, shot.style].filter(Boolean).join(', ') || undefined,
+    characters: (doc.characters || []).filter(c => (shot.characters || []).includes(c.ref)),
+    negative_prompt: doc.negative_prompt,
+  }));
+
+/**
+ * Appends generation hints to a prompt. Plain text gets a trailing sentence; a Veo JSON prompt
+ * keeps its structure and receives the hints in its `style` field.
+ */
+export const withPromptAdditions = (prompt: string, additions: string[]): string => {
+  const doc = parseVeoPrompt(prompt);
+  if (!doc) return `${prompt}. ${additions.join(', ')}.`;
+  const { negative_prompt: _negative, ...rest } = doc;
+  return JSON.stringify({ ...rest, style: [doc.style, ...additions].filter(Boolean).join(', ') });
+};
+
+/**
+ * The `negative_prompt` of a Veo JSON prompt, which belongs in the request's `negativePrompt`
+ * config rather than the prompt text; `withPromptAdditions` leaves it out of the text.
+ */
+export const veoNegativePrompt = (prompt: string): string => parseVeoPrompt(prompt)?.negative_prompt ?? '';
+
+// --- Import ---
+
+const resolveEthnicity = (value: unknown) => {
+  const ethnicity = typeof value === 'string' ? value : '';
+  return RACES.includes(ethnicity) ? { race: ethnicity, customRace: '' } : { race: 'Other (Custom)', customRace: ethnicity };
+};
+
+const fromVeoCharacter = (raw: unknown) => {
+  if (!isObject(raw)) return raw;
+  return {
+    id: raw.ref,
+    name: raw.name ?? '',
+    age: raw.age ?? '',
+    gender: raw.gender ?? '',
+    ...resolveEthnicity(raw.ethnicity),
+    characterStyle: raw.style ?? '',
+    outfit: raw.outfit ?? '',
+    hairstyle: raw.hair ?? '',
+    voice: raw.voice ?? '',
+    description: raw.action ?? '',
+  };
+};
+
+/** `cast` overrides the shot's own refs, for standalone shots whose characters are inlined. */
+const fromVeoShot = (raw: unknown, cast?: unknown[]) => {
+  if (!isObject(raw)) return raw;
+  const camera = isObject(raw.camera) ? raw.camera : {};
+  // Lines have no ids in the document; timeline entries link to them by index
+  const lineIds = Array.isArray(raw.dialogue) ? raw.dialogue.map(() => crypto.randomUUID()) : [];
+  return {
+    title: raw.title ?? '',
+    characterIds: cast ?? raw.characters,
+    beats: Array.isArray(raw.timeline)
+      ? raw.timeline.map((b: unknown) => isObject(b) ? {
+        start: b.start_seconds,
+        end: b.end_seconds,
+        action: b.action ?? '',
+        camera: b.camera ?? '',
+        dialogueId: typeof b.dialogue === 'number' ? lineIds[b.dialogue] ?? String(b.dialogue) : undefined,
+      } : b)
+      : raw.timeline,
+    dialogues: Array.isArray(raw.dialogue)
+      ? raw.dialogue.map((d: unknown, i: number) => isObject(d) ? {
+        id: lineIds[i],
+        characterId: d.speaker,
+        text: d.line ?? '',
+        emotion: d.emotion,
+        delivery: d.delivery,
+        startTime: d.start_seconds,
+        language: d.language,
+        offScreen: d.off_screen,
+      } : d)
+      : raw.dialogue,
+    environment: {
+      description: raw.scene ?? '',
+      lighting: raw.lighting ?? '',
+      cameraAngle: camera.angle ?? '',
+      shootingStyle: camera.movement ?? '',
+      otherOptions: raw.style ?? '',
+    },
+    audio: isObject(raw.audio) ? fromVeoAudio(raw.audio) : undefined,
+  };
+};
+
+const fromVeoAudio = (raw: Record<string, any>) => {
+  const music = isObject(raw.music) ? raw.music : {};
+  return {
+    mode: raw.mode ?? 'full',
+    ambience: raw.ambience ?? '',
+    musicGenre: music.genre ?? '',
+    musicMood: music.mood ?? '',
+    musicTempo: music.tempo ?? '',
+    sfx: Array.isArray(raw.sfx)
+      ? raw.sfx.map((c: unknown) => isObject(c) ? { time: c.start_seconds, sound: c.sound ?? '' } : c)
+      : raw.sfx,
+    narration: raw.narration ?? '',
+  };
+};
+
+/**
+ * Converts a Veo JSON document back to the builder's state shape so the regular validation
+ * applies. Fails only for versions newer than this build understands.
+ */
+export const veoPromptToState = (doc: VeoPrompt): { raw: unknown; error?: string } => {
+  const version = Number((doc as any).version);
+  if (!Number.isFinite(version) || version < 1) return { raw: null, error: 'has a missing or invalid "version"' };
+  if (version > VEO_PROMPT_VERSION) return { raw: null, error: `uses schema version ${version}; this app supports up to ${VEO_PROMPT_VERSION}` };
+  const characters = Array.isArray(doc.characters) ? doc.characters.map(fromVeoCharacter) : doc.characters;
+  if (isVeoSequence(doc)) {
+    return { raw: { characters, shots: doc.shots.map(shot => fromVeoShot(shot)), negativePrompt: doc.negative_prompt } };
+  }
+  const castRefs = Array.isArray(doc.characters) ? doc.characters.filter((c: any) => !c?.off_screen).map((c: any) => c?.ref) : [];
+  return { raw: { characters, shots: [fromVeoShot(doc, castRefs)], negativePrompt: doc.negative_prompt } };
+};
+
+const PATH_NAMES: Array<[RegExp, string]> = [
+  [/\.characterIds\[/g, '.characters['],
+  [/\.dialogues\[/g, '.dialogue['],
+  [/\.characterId\b/g, '.speaker'],
+  [/\.text\b/g, '.line'],
+  [/\.beats\[/g, '.timeline['],
+  [/\.start\b/g, '.start_seconds'],
+  [/\.end\b/g, '.end_seconds'],
+  [/\.dialogueId\b/g, '.dialogue'],
+  [/\.startTime\b/g, '.start_seconds'],
+  [/\.audio\.sfx\[(\d+)\]\.time\b/g, '.audio.sfx[$1].start_seconds'],
+  [/\.musicGenre\b/g, '.music.genre'],
+  [/\.musicMood\b/g, '.music.mood'],
+  [/\.musicTempo\b/g, '.music.tempo'],
+  [/\.offScreen\b/g, '.off_screen'],
+  [/(^|\.)negativePrompt\b/g, '$1negative_prompt'],
+  [/\.environment\.description\b/g, '.scene'],
+  [/\.environment\.cameraAngle\b/g, '.camera.angle'],
+  [/\.environment\.shootingStyle\b/g, '.camera.movement'],
+  [/\.environment\.otherOptions\b/g, '.style'],
+  [/\.environment\./g, '.'],
+  [/\.characterStyle\b/g, '.style'],
+  [/\.hairstyle\b/g, '.hair'],
+  [/\.description\b/g, '.action'],
+  [/\.id\b/g, '.ref'],
+];
+
+/** Maps an issue path from the state shape back to the Veo document's key names. */
+export const toVeoPath = (path: string, isSequence: boolean): string => {
+  let result = path;
+  PATH_NAMES.forEach(([pattern, replacement]) => { result = result.replace(pattern, replacement); });
+  // A standalone shot document was wrapped as shots[0]; report paths against its root
+  if (!isSequence) result = result.replace(/(^|\.)shots\[0\]\.?/, '$1').replace(/\.$/, '');
+  return result || '(root)';
+};
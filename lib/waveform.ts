@@ -0,0 +1,31 @@
+/** Waveform data for audio previews, decoded in the browser with Web Audio. */
+
+export const WAVEFORM_BUCKETS = 160;
+
+export interface AudioAnalysis {
+  seconds: number;
+  /** Loudest sample per bucket across all channels, 0–1. */
+  peaks: number[];
+}
+
+/** Decodes an audio (or video) file's sound; rejects when it has none or the browser cannot decode it. */
+export const analyzeAudio = async (blob: Blob, buckets = WAVEFORM_BUCKETS): Promise<AudioAnalysis> => {
+  // An offline context needs no output device or user gesture just to decode
+  const context = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+  const size = Math.max(1, Math.floor(buffer.length / buckets));
+  const peaks = new Array<number>(buckets).fill(0);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let b = 0; b < buckets; b++) {
+      const end = Math.min(data.length, (b + 1) * size);
+      let peak = peaks[b];
+      for (let i = b * size; i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+      peaks[b] = peak;
+    }
+  }
+  return { seconds: buffer.duration, peaks: peaks.map((p) => Number(Math.min(1, p).toFixed(3))) };
+};
@@ -1,3 +1,6 @@
+/** Top-level app tabs. */
+export type Tab = 'prompt' | 'image' | 'video' | 'storybook' | 'storybook_prompt' | 'library';
+
 export interface Character {
   id: string;
   name: string;
@@ -10,12 +13,31 @@ export interface Character {
   hairstyle: string;
   voice: string;
   description: string;
+  libraryId?: string;
+}
+
+export interface LibraryCharacter extends Omit<Character, 'id' | 'libraryId'> {
+  id: string;
+  tags: string[];
+  referenceImage: Blob | null;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface Dialogue {
   id:string;
   characterId: string;
   text: string;
+  /** Emotion or tone of the line, e.g. "Excited". */
+  emotion?: string;
+  /** How the line is spoken, e.g. "Whisper". */
+  delivery?: string;
+  /** Seconds from the start of the clip at which the line begins. */
+  startTime?: number;
+  /** Spoken language as an English name from DIALOGUE_LANGUAGES, e.g. "Indonesian". */
+  language?: string;
+  /** The speaker is heard but not seen (off-screen or voice-over). */
+  offScreen?: boolean;
 }
 
 export interface Environment {
@@ -26,10 +48,55 @@ export interface Environment {
   otherOptions: string;
 }
 
-export interface PromptData {
-  characters: Character[];
+/** `no_music` drops the score; `dialogue_only` also drops ambience and sound effects. */
+export type AudioMixMode = 'full' | 'no_music' | 'dialogue_only';
+
+export interface SfxCue {
+  id: string;
+  /** Seconds from the start of the clip. */
+  time: number;
+  sound: string;
+}
+
+export interface ShotAudio {
+  mode: AudioMixMode;
+  ambience: string;
+  musicGenre: string;
+  musicMood: string;
+  musicTempo: string;
+  sfx: SfxCue[];
+  /** Voice-over text that is not spoken by a character on screen. */
+  narration: string;
+}
+
+export interface ActionBeat {
+  id: string;
+  /** Seconds from the start of the clip. */
+  start: number;
+  end: number;
+  action: string;
+  /** Camera move during the beat, e.g. "Slow push-in"; empty keeps the shot's shooting style. */
+  camera: string;
+  /** A dialogue line of the same shot that is spoken during this beat. */
+  dialogueId?: string;
+}
+
+export interface Shot {
+  id: string;
+  title: string;
+  characterIds: string[];
   dialogues: Dialogue[];
+  /** Timed beats within the clip, in any order; renderers sort them by start. */
+  beats: ActionBeat[];
   environment: Environment;
+  audio: ShotAudio;
+}
+
+export interface PromptData {
+  characters: Character[];
+  shots: Shot[];
+  /** What every shot should avoid, sent as the model's native negative prompt. */
+  negativePrompt: string;
 }
 
 export interface StoryPage {
@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
       },
+      optimizeDeps: {
+        // ffmpeg.wasm spawns its worker from a URL relative to its own module; pre-bundling breaks that
+        exclude: ['@ffmpeg/ffmpeg']
+      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),